@@ -1,22 +1,45 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { FileList } from './components/FileList';
 import { GoalInput } from './components/GoalInput';
 import { ModelSelector } from './components/ModelSelector';
 import { SearchToggle } from './components/SearchToggle';
+import { SearchBackendSelector } from './components/SearchBackendSelector';
+import { ToolsToggle } from './components/ToolsToggle';
+import { ParallelTasksInput } from './components/ParallelTasksInput';
+import { PlanReviewToggle } from './components/PlanReviewToggle';
+import { PlanReviewPanel } from './components/PlanReviewPanel';
+import { VerificationToggle } from './components/VerificationToggle';
+import { ResumeRunBanner } from './components/ResumeRunBanner';
 import { TaskList } from './components/TaskList';
-import { OutputDisplay } from './components/OutputDisplay';
+import { OutputDisplay, StreamingTaskOutput } from './components/OutputDisplay';
 import { FinalResultDisplay } from './components/FinalResultDisplay';
 import { DataTable } from './components/DataTable';
 import { storageService } from './services/storageService';
-import { LLMService, OpenRouterModel, PollinationsModel, fetchOpenRouterModels, fetchPollinationsModels, parseDynamicParameters } from './services/llmService';
-import { StoredFile, Task, TaskStatus, TaskOutput, DataTableData, ChatHistoryItem } from './types';
+import { LLMService, ModelInfo, ProviderConfig, Cassette, setActiveCassette, ResponseCache, ResponseCacheStats, setActiveResponseCache, mergeTaskCitations, createProvider, getProviderDefinition, listProviders, defaultProviderConfig } from './services/llmService';
+import { StoredFile, Task, TaskStatus, TaskOutput, DataTableData, ChatHistoryItem, LLMCallTrace, ModelRoute, RunUsage, UsageStage, StageRouting, RoutingPreset } from './types';
 import { ModelProviderSelector } from './components/ModelProviderSelector';
 import { ApiKeyInput } from './components/ApiKeyInput';
+import { BaseUrlInput } from './components/BaseUrlInput';
+import { FallbackChainEditor } from './components/FallbackChainEditor';
+import { StageRoutingEditor } from './components/StageRoutingEditor';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { CassetteControls } from './components/CassetteControls';
+import { ResponseCacheControls } from './components/ResponseCacheControls';
+import { UsageBreakdown } from './components/UsageBreakdown';
+import { RunTraceTimeline } from './components/RunTraceTimeline';
 import { PollinationsProgress } from './components/PollinationsProgress';
 import { ApiResourceControlModal } from './components/ApiResourceControlModal';
-import { PollinationsService } from './services/pollinationsService';
 import * as api from './services/apiService';
+import { loadRoutingPresets, saveRoutingPreset, deleteRoutingPreset } from './services/routingPresets';
+import { PromptOverrides, loadPromptOverrides, savePromptOverrides, setPromptOverrides } from './services/promptTemplates';
+import { DEFAULT_MAX_PARALLEL_TASKS, dependentsOf } from './services/taskGraph';
+import { descendantsOf } from './services/subtasks';
+import { TaskPlanValidationError } from './services/taskPlanValidator';
+import { SavedRun, clearSavedRun, loadSavedRun, saveRun } from './services/runStore';
+import { CallProgress, RunEngine, RunEvent, StageServices, restoredPlan } from './services/runEngine';
+import { DEFAULT_MAX_VERIFICATION_RETRIES, DEFAULT_VERIFICATION_THRESHOLD, VerificationSettings } from './services/taskVerifier';
+import { SearchBackendConfig, createSearchBackend, getSearchBackendDefinition, loadSearchBackendConfig, saveSearchBackendConfig, searchBackendConfigIssue } from './services/webSearch';
 import { marked } from 'marked';
 
 
@@ -139,6 +162,8 @@ const HistoryModal: React.FC<HistoryModalProps> = ({ onClose }) => {
                                 </summary>
                                 <div className="p-4 border-t border-gray-700">
                                     <div className="markdown-preview" dangerouslySetInnerHTML={{ __html: marked.parse(item.result) }}/>
+                                    {item.usage && <UsageBreakdown usage={item.usage} />}
+                                    {item.trace && <RunTraceTimeline trace={item.trace} />}
                                 </div>
                             </details>
                         ))}
@@ -150,38 +175,65 @@ const HistoryModal: React.FC<HistoryModalProps> = ({ onClose }) => {
 };
 // #endregion
 
-
 const App: React.FC = () => {
   const [goal, setGoal] = useState<string>('');
   const [files, setFiles] = useState<StoredFile[]>([]);
   const [useSearch, setUseSearch] = useState<boolean>(true);
+  const [useTools, setUseTools] = useState<boolean>(true);
+  const [maxParallelTasks, setMaxParallelTasks] = useState<number>(DEFAULT_MAX_PARALLEL_TASKS);
+  const [reviewPlan, setReviewPlan] = useState<boolean>(false);
+  const [verifyOutputs, setVerifyOutputs] = useState<boolean>(false);
+  const [verificationThreshold, setVerificationThreshold] = useState<number>(DEFAULT_VERIFICATION_THRESHOLD);
+  const [searchBackend, setSearchBackend] = useState<SearchBackendConfig>(() => loadSearchBackendConfig());
   
-  const [provider, setProvider] = useState<'gemini' | 'openrouter' | 'pollinations'>('gemini');
+  const [provider, setProvider] = useState<string>('gemini');
   const [model, setModel] = useState<string>('gemini-2.5-flash');
   
-  const [geminiApiKey, setGeminiApiKey] = useState<string>('');
-  const [openRouterApiKey, setOpenRouterApiKey] = useState<string>('');
-  const [openRouterModels, setOpenRouterModels] = useState<OpenRouterModel[]>([]);
-  const [pollinationsModels, setPollinationsModels] = useState<PollinationsModel[]>([]);
+  const [providerConfigs, setProviderConfigs] = useState<{ [provider: string]: ProviderConfig }>(() =>
+    Object.fromEntries(listProviders().map(p => [p.id, defaultProviderConfig(p.id)]))
+  );
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [fallbackChain, setFallbackChain] = useState<ModelRoute[]>([]);
+  const [stageRouting, setStageRouting] = useState<StageRouting>({});
+  const [routingPresets, setRoutingPresets] = useState<RoutingPreset[]>(() => loadRoutingPresets());
+  const [cassette, setCassette] = useState<Cassette | null>(null);
+  const [cacheEnabled, setCacheEnabled] = useState<boolean>(true);
+  const [bypassCache, setBypassCache] = useState<boolean>(false);
+  const [cacheStats, setCacheStats] = useState<ResponseCacheStats>({ hits: 0, misses: 0 });
+  const responseCache = useMemo(() => new ResponseCache({}, setCacheStats), []);
+  const [promptOverrides, setPromptOverridesState] = useState<PromptOverrides>(() => loadPromptOverrides());
   const [isFetchingModels, setIsFetchingModels] = useState<boolean>(false);
 
   const [tasks, setTasks] = useState<Task[]>([]);
   const [outputs, setOutputs] = useState<TaskOutput[]>([]);
   const [finalResult, setFinalResult] = useState<string | null>(null);
+  // One entry per task that is running, in the order they started.
+  const [streamingOutputs, setStreamingOutputs] = useState<StreamingTaskOutput[]>([]);
+  const [isStreamingFinalResult, setIsStreamingFinalResult] = useState<boolean>(false);
+  // Set once a task has been re-run since the final result was synthesized.
+  const [isFinalResultStale, setIsFinalResultStale] = useState<boolean>(false);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const [usage, setUsage] = useState<RunUsage | null>(null);
+  const [trace, setTrace] = useState<LLMCallTrace[]>([]);
   const [isProcessing, setIsProcessing] = useState<boolean>(false);
   const [processingStatus, setProcessingStatus] = useState<string>('');
   const [isUploading, setIsUploading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   
-  const [apiProgress, setApiProgress] = useState({ completed: 0, total: 0 });
-  const [totalEstimatedCalls, setTotalEstimatedCalls] = useState(0);
-  const [currentStageChunks, setCurrentStageChunks] = useState<{ doc: number, aux: number } | null>(null);
+  const [callProgress, setCallProgress] = useState<CallProgress | null>(null);
+
+  // Set while a run waits for its plan to be approved.
+  const [planReview, setPlanReview] = useState<{
+    isRegenerating: boolean;
+    issues: string[];
+  } | null>(null);
+
+  // The last run that did not finish, offered for resuming.
+  const [resumableRun, setResumableRun] = useState<SavedRun | null>(null);
 
   const [apiResourceControl, setApiResourceControl] = useState<{
     docChunks: number;
     auxChunks: number;
-    onConfirm: (limits: { doc: number, aux: number }) => void;
-    onCancel: () => void;
   } | null>(null);
 
   // For DataTable module
@@ -194,8 +246,12 @@ const App: React.FC = () => {
   const [showAuthModal, setShowAuthModal] = useState<'login' | 'register' | null>(null);
   const [showHistoryModal, setShowHistoryModal] = useState(false);
 
-  const isCancelledRef = useRef(false);
+  // The engine of the run in progress, if any.
+  const engineRef = useRef<RunEngine | null>(null);
+  // The last run that ended, whose tasks can be re-run.
+  const lastRunRef = useRef<SavedRun | null>(null);
   const debounceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryNoticeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   
   useEffect(() => {
       const user = api.getUserFromToken();
@@ -209,78 +265,86 @@ const App: React.FC = () => {
     setFiles(storageService.getFiles());
   }, []);
 
-  const handleFetchPollinationsModels = useCallback(async () => {
-    setIsFetchingModels(true);
-    setError(null);
-    try {
-        const models = await fetchPollinationsModels();
-        setPollinationsModels(models);
-        if (models.length > 0) {
-            setModel(models[0].id);
-        }
-    } catch (err: any) {
-        console.error("Failed to fetch Pollinations models:", err);
-        setError(err.message || "Could not fetch models from Pollinations.");
-    } finally {
-        setIsFetchingModels(false);
-    }
+  useEffect(() => {
+    loadSavedRun().then(run => {
+      if (run && !engineRef.current) setResumableRun(run);
+    });
   }, []);
 
+  const providerDefinition = getProviderDefinition(provider);
+  const providerConfig = providerConfigs[provider];
+  const providerInstance = useMemo(() => createProvider(provider, providerConfig), [provider, providerConfig]);
+  const searchBackendDefinition = getSearchBackendDefinition(searchBackend.backend);
+  const searchLabel = searchBackendDefinition
+    ? `Search the web with ${searchBackendDefinition.name} for up-to-date information`
+    : providerDefinition.searchLabel;
+  // The synthesis sees the task outputs with their citations numbered in one sequence; this is that sequence.
+  const finalCitations = useMemo(() => mergeTaskCitations(outputs).citations, [outputs]);
+
+  const updateProviderConfig = (changes: Partial<ProviderConfig>) => {
+    setProviderConfigs(prev => ({ ...prev, [provider]: { ...prev[provider], ...changes } }));
+  };
+
   useEffect(() => {
-    if (provider === 'gemini') {
-        setModel('gemini-2.5-flash');
-    } else if (provider === 'openrouter') {
-        setModel(openRouterModels.length > 0 ? openRouterModels[0].id : '');
-    } else if (provider === 'pollinations') {
-        if (pollinationsModels.length === 0) {
-            handleFetchPollinationsModels();
-        } else {
-            setModel(pollinationsModels.length > 0 ? pollinationsModels[0].id : '');
-        }
-    }
-  }, [provider, openRouterModels, pollinationsModels, handleFetchPollinationsModels]);
+    setActiveCassette(cassette);
+  }, [cassette]);
 
-  const handleFetchOpenRouterModels = useCallback(async () => {
-    if (!openRouterApiKey) {
-      setOpenRouterModels([]);
-      return;
-    };
+  useEffect(() => {
+    setActiveResponseCache(cacheEnabled ? responseCache : null);
+  }, [cacheEnabled, responseCache]);
+
+  useEffect(() => {
+    setPromptOverrides(promptOverrides);
+    savePromptOverrides(promptOverrides);
+  }, [promptOverrides]);
+
+  useEffect(() => {
+    saveSearchBackendConfig(searchBackend);
+  }, [searchBackend]);
+
+  const modelRequestRef = useRef(0);
+
+  // Also refetched when the cassette changes, so the model list is recorded and replayed along with the run.
+  const handleFetchModels = useCallback(async () => {
+    // Ignore responses that arrive after the provider or its configuration changed again.
+    const requestId = ++modelRequestRef.current;
     setIsFetchingModels(true);
     setError(null);
     try {
-        const models = await fetchOpenRouterModels(openRouterApiKey);
-        setOpenRouterModels(models);
-        if (models.length > 0) {
-            setModel(models[0].id);
-        }
+        const fetchedModels = await providerInstance.listModels();
+        if (requestId !== modelRequestRef.current) return;
+        setModels(fetchedModels);
+        // Keep the selection when the same model is still offered, e.g. after switching cassettes.
+        setModel(prev => fetchedModels.some(m => m.id === prev) ? prev : (fetchedModels.length > 0 ? fetchedModels[0].id : ''));
     } catch (err: any) {
-        console.error("Failed to fetch OpenRouter models:", err);
-        setError(err.message || "Could not fetch models from OpenRouter. Please check your API key.");
+        if (requestId !== modelRequestRef.current) return;
+        console.error(`Failed to fetch models for ${provider}:`, err);
+        setModels([]);
+        setModel('');
+        setError(err.message || "Could not fetch models for the selected provider.");
     } finally {
-        setIsFetchingModels(false);
+        if (requestId === modelRequestRef.current) {
+            setIsFetchingModels(false);
+        }
     }
-  }, [openRouterApiKey]);
+  }, [provider, providerInstance, cassette]);
 
   useEffect(() => {
-    if (provider === 'openrouter') {
-      if (debounceTimeoutRef.current) {
-        clearTimeout(debounceTimeoutRef.current);
-      }
-      debounceTimeoutRef.current = setTimeout(() => {
-        if (openRouterApiKey.trim()) {
-          handleFetchOpenRouterModels();
-        } else {
-          setOpenRouterModels([]);
-        }
-      }, 500);
+    if (debounceTimeoutRef.current) {
+      clearTimeout(debounceTimeoutRef.current);
     }
+    // Debounce while an API key or server URL is being typed.
+    const delay = providerDefinition.apiKey === 'none' && !providerDefinition.defaultBaseUrl ? 0 : 500;
+    debounceTimeoutRef.current = setTimeout(() => {
+      handleFetchModels();
+    }, delay);
 
     return () => {
       if (debounceTimeoutRef.current) {
         clearTimeout(debounceTimeoutRef.current);
       }
     };
-  }, [openRouterApiKey, provider, handleFetchOpenRouterModels]);
+  }, [handleFetchModels, providerDefinition]);
 
 
   const handleFileUploaded = async (uploadedFiles: FileList) => {
@@ -327,6 +391,12 @@ const App: React.FC = () => {
     setTasks([]);
     setOutputs([]);
     setFinalResult(null);
+    setIsFinalResultStale(false);
+    setUsage(null);
+    setTrace([]);
+    setStreamingOutputs([]);
+    setIsStreamingFinalResult(false);
+    setRetryNotice(null);
     setIsProcessing(false);
     setProcessingStatus('');
     setError(null);
@@ -334,17 +404,13 @@ const App: React.FC = () => {
     setFiles([]);
     setFileObjects(new Map());
     setViewingExcelFile(null);
-    setApiProgress({ completed: 0, total: 0 });
-    setTotalEstimatedCalls(0);
-    setCurrentStageChunks(null);
+    setCallProgress(null);
     setApiResourceControl(null);
-    isCancelledRef.current = false;
   };
   
   const handleStop = () => {
-    isCancelledRef.current = true;
+    engineRef.current?.stop();
     setProcessingStatus("Stopping process...");
-    setApiResourceControl(null);
   };
   
   const handleAuthSuccess = (username: string) => {
@@ -359,295 +425,346 @@ const App: React.FC = () => {
     setCurrentUser(null);
   };
 
-  const executePollinationsFlow = async () => {
-    isCancelledRef.current = false;
-    setIsProcessing(true);
-    setError(null);
-    setTasks([]);
-    setOutputs([]);
-    setFinalResult(null);
-    setApiProgress({ completed: 0, total: 0 });
-    setTotalEstimatedCalls(0);
-
-    const llmService = new LLMService('pollinations', '');
-    const pollService = llmService.service as PollinationsService;
-    const selectedModel = pollinationsModels.find(m => m.id === model);
-    const dynamicParams = parseDynamicParameters(goal);
-    const modelOptionsBase = { 
-        maxInputChars: selectedModel?.maxInputChars,
-        ...dynamicParams
-    };
-    const fileContext = files.map(f => f.content).join('\n\n');
-
-    let cumulativeCompleted = 0;
-    
-    const runPlanningStage = async (limits: { doc: number, aux: number }) => {
-      try {
-        setProcessingStatus('Stage 1/3: Breaking down goal...');
-        const planningEstimates = pollService.estimateApiCalls(modelOptionsBase, fileContext, goal);
-        setCurrentStageChunks({ doc: planningEstimates.mainCount, aux: planningEstimates.auxCount });
-
-        const initialTotal = limits.doc * limits.aux || planningEstimates.total;
-        setTotalEstimatedCalls(initialTotal);
-        
-        let lastReportedCompletedForStage = 0;
-        const planningProgressHandler = (progress: { completed: number; total: number; stage?: string }) => {
-          if (isCancelledRef.current) return;
-          lastReportedCompletedForStage = progress.completed;
-          setApiProgress({ completed: cumulativeCompleted + progress.completed, total: initialTotal });
-        };
+  // Shows `notice` in the progress area for `durationMs`, replacing the one shown before.
+  const showRetryNotice = (notice: string, durationMs: number) => {
+    if (retryNoticeTimeoutRef.current) {
+      clearTimeout(retryNoticeTimeoutRef.current);
+    }
+    setRetryNotice(notice);
+    retryNoticeTimeoutRef.current = setTimeout(() => setRetryNotice(null), durationMs);
+  };
 
-        const generatedTasks = await llmService.breakDownGoalIntoTasks(model, goal, files, { ...modelOptionsBase, onProgress: planningProgressHandler }, limits, isCancelledRef);
-        if (isCancelledRef.current) throw new Error('Process stopped by user.');
-        
-        cumulativeCompleted += lastReportedCompletedForStage;
-        setTasks(generatedTasks);
-
-        let executionAndSynthEstimate = 0;
-        let tempOutputs: TaskOutput[] = [];
-        for (const task of generatedTasks) {
-            const completedTasksContext = tempOutputs.map(t => `Completed Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n');
-            const taskEstimates = pollService.estimateApiCalls(modelOptionsBase, fileContext, completedTasksContext);
-            executionAndSynthEstimate += taskEstimates.total;
-            tempOutputs.push({ taskId: task.id, taskDescription: task.description, output: '[ESTIMATED_OUTPUT]', citations: [] });
-        }
-        const fullOutputContext = tempOutputs.map(t => `Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n---\n\n');
-        const synthesisEstimates = pollService.estimateApiCalls(modelOptionsBase, fullOutputContext, goal);
-        executionAndSynthEstimate += synthesisEstimates.total;
+  const updateTaskStream = (taskId: string, change: (stream: StreamingTaskOutput) => StreamingTaskOutput) =>
+    setStreamingOutputs(prev => prev.map(stream => stream.taskId === taskId ? change(stream) : stream));
 
-        setTotalEstimatedCalls(prevTotal => prevTotal + executionAndSynthEstimate);
+  // How task outputs are checked by the verifier; undefined when verification is off.
+  const verificationSettings = (): VerificationSettings | undefined =>
+    verifyOutputs ? { threshold: verificationThreshold, maxRetries: DEFAULT_MAX_VERIFICATION_RETRIES } : undefined;
 
-        await runExecutionLoop(generatedTasks, []);
+  const setTaskStatus = (taskId: string, status: TaskStatus) => {
+    setTasks(prevTasks => prevTasks.map(t => t.id === taskId ? { ...t, status } : t));
+  };
 
-      } catch (err) {
-        handleFlowError(err);
-      }
-    };
-    
-    const runExecutionLoop = async (tasksToRun: Task[], completedOutputs: TaskOutput[]) => {
-        const newOutputs = [...completedOutputs];
-        for (let i = 0; i < tasksToRun.length; i++) {
-            if (isCancelledRef.current) throw new Error('Process stopped by user.');
-            const task = tasksToRun[i];
-            
-            const runExecutionStage = async (limits: { doc: number, aux: number }) => {
-                try {
-                    setProcessingStatus(`Stage 2/3: Executing task ${i + 1} of ${tasksToRun.length}...`);
-                    setTasks(prevTasks => prevTasks.map(t =>
-                      t.id === task.id ? { ...t, status: TaskStatus.IN_PROGRESS } : t
-                    ));
-                    
-                    const completedTasksContext = newOutputs.map(t => `Completed Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n');
-                    const taskEstimates = pollService.estimateApiCalls(modelOptionsBase, fileContext, completedTasksContext);
-                    setCurrentStageChunks({ doc: taskEstimates.mainCount, aux: taskEstimates.auxCount });
-
-                    let lastReportedCompletedForStage = 0;
-                    const taskProgressHandler = (progress: { completed: number; total: number; stage?: 'processing' | 'synthesis' }) => {
-                        if (isCancelledRef.current) return;
-                        lastReportedCompletedForStage = progress.completed;
-                        
-                        const baseText = `Stage 2/3: Executing task ${i + 1} of ${tasksToRun.length}...`;
-                        let stageText = '';
-                        if (progress.stage) {
-                            stageText = progress.stage === 'synthesis' ? ' (synthesizing part...)' : ' (processing parts...)';
-                        }
-                        setProcessingStatus(baseText + stageText);
-                        
-                        setApiProgress(prev => ({ ...prev, completed: cumulativeCompleted + progress.completed }));
-                    };
-        
-                    const taskOutput = await llmService.executeTask(model, task, goal, newOutputs, files, useSearch, { ...modelOptionsBase, onProgress: taskProgressHandler }, limits, isCancelledRef);
-                    if (isCancelledRef.current) throw new Error('Process stopped by user.');
-
-                    cumulativeCompleted += lastReportedCompletedForStage;
-                    newOutputs.push(taskOutput);
-                    setOutputs([...newOutputs]);
-        
-                    setTasks(prevTasks => prevTasks.map(t =>
-                      t.id === task.id ? { ...t, status: TaskStatus.COMPLETED } : t
-                    ));
-                } catch (err) {
-                    handleFlowError(err);
-                    throw err; 
-                }
-            };
-            
-            const completedTasksContext = newOutputs.map(t => `Completed Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n');
-            const taskEstimates = pollService.estimateApiCalls(modelOptionsBase, fileContext, completedTasksContext);
-            setApiProgress(prev => ({ ...prev, total: totalEstimatedCalls }));
-
-            if (taskEstimates.total > 5) {
-                await new Promise<void>(resolve => {
-                    setApiResourceControl({
-                        docChunks: taskEstimates.mainCount,
-                        auxChunks: taskEstimates.auxCount,
-                        onConfirm: async (limits) => {
-                            setApiResourceControl(null);
-                            await runExecutionStage(limits);
-                            resolve();
-                        },
-                        onCancel: () => {
-                            setApiResourceControl(null);
-                            handleStop();
-                            resolve();
-                        }
-                    });
-                });
-            } else {
-                await runExecutionStage({ doc: 0, aux: 0 });
-            }
-        }
-        await runSynthesisStage(newOutputs);
-    };
+  // The model a stage runs on: its routing override, or the main provider and model.
+  const routeFor = (stage: keyof StageRouting): ModelRoute => {
+    const override = stageRouting[stage];
+    return override && override.model.trim() ? { provider: override.provider, model: override.model.trim() } : { provider, model };
+  };
 
-    const runSynthesisStage = async (finalOutputs: TaskOutput[]) => {
-        const run = async (limits: { doc: number, aux: number }) => {
-            try {
-                setProcessingStatus('Stage 3/3: Synthesizing final result...');
-                if (isCancelledRef.current) throw new Error('Process stopped by user.');
-                
-                const fullOutputContext = finalOutputs.map(t => `Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n---\n\n');
-                const synthesisEstimates = pollService.estimateApiCalls(modelOptionsBase, fullOutputContext, goal);
-                setCurrentStageChunks({ doc: synthesisEstimates.mainCount, aux: synthesisEstimates.auxCount });
-                setApiProgress(prev => ({...prev, total: totalEstimatedCalls }));
-        
-                let lastReportedCompletedForStage = 0;
-                const synthesisProgressHandler = (progress: { completed: number, total: number }) => {
-                    if (isCancelledRef.current) return;
-                    lastReportedCompletedForStage = progress.completed;
-                    setApiProgress(prev => ({ ...prev, completed: cumulativeCompleted + progress.completed }));
-                };
-                
-                const finalSynthesizedResult = await llmService.synthesizeFinalResult(model, goal, finalOutputs, { ...modelOptionsBase, onProgress: synthesisProgressHandler }, limits, isCancelledRef);
-                setFinalResult(finalSynthesizedResult);
+  const createLLMService = (route: ModelRoute) => new LLMService(
+    route.provider,
+    providerConfigs[route.provider],
+    fallbackChain
+      .filter(route => route.model.trim().length > 0)
+      .map(route => ({ provider: route.provider, model: route.model.trim(), config: providerConfigs[route.provider] })),
+    createSearchBackend(searchBackend)
+  );
 
-                api.saveChatHistory(goal, finalSynthesizedResult);
+  // One service per stage, each on the stage's routed model and sharing the fallback chain.
+  const createStageServices = (): StageServices => {
+    const stages: UsageStage[] = ['planning', 'execution', 'synthesis'];
+    return Object.fromEntries(stages.map(stage => {
+      const route = routeFor(stage);
+      return [stage, { route, llm: createLLMService(route) }];
+    })) as StageServices;
+  };
 
-                setIsProcessing(false);
-                setProcessingStatus('');
-            } catch(err) {
-                handleFlowError(err);
-            }
-        };
+  const handleSaveRoutingPreset = (name: string) => {
+    setRoutingPresets(saveRoutingPreset({ name, routing: stageRouting }));
+  };
 
-        const fullOutputContext = finalOutputs.map(t => `Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n---\n\n');
-        const synthesisEstimates = pollService.estimateApiCalls(modelOptionsBase, fullOutputContext, goal);
-        if (synthesisEstimates.total > 5) {
-             setApiResourceControl({
-                docChunks: synthesisEstimates.mainCount,
-                auxChunks: synthesisEstimates.auxCount,
-                onConfirm: (limits) => { setApiResourceControl(null); run(limits); },
-                onCancel: () => { setApiResourceControl(null); handleStop(); }
-            });
-        } else {
-            await run({ doc: 0, aux: 0 });
-        }
-    };
-    
-    const handleFlowError = (err: any) => {
-        console.error(err);
-        const errorMessage = err.message === 'Process stopped by user.' 
-            ? 'Process stopped by user.'
-            : (err.message || 'An unexpected error occurred.');
-        setError(errorMessage);
-        setTasks(prevTasks => prevTasks.map(t =>
-            t.status === TaskStatus.IN_PROGRESS ? { ...t, status: TaskStatus.FAILED } : t
-        ));
-        setIsProcessing(false);
-        setProcessingStatus('');
-    };
+  const handleDeleteRoutingPreset = (name: string) => {
+    setRoutingPresets(deleteRoutingPreset(name));
+  };
+
+  // Counts cache hits per run; a requested bypass applies to this run only.
+  const prepareResponseCache = () => {
+    responseCache.resetStats();
+    responseCache.bypass = bypassCache;
+    setBypassCache(false);
+  };
+
+  // A failed run marks the task it was working on as failed; a stopped run marks every unfinished task as cancelled.
+  const markUnfinishedTasks = (cancelled: boolean) => {
+    setTasks(prevTasks => prevTasks.map(t => {
+      if (t.status === TaskStatus.IN_PROGRESS) return { ...t, status: cancelled ? TaskStatus.CANCELLED : TaskStatus.FAILED };
+      if (t.status === TaskStatus.PENDING && cancelled) return { ...t, status: TaskStatus.CANCELLED };
+      return t;
+    }));
+  };
 
-    const planningEstimates = pollService.estimateApiCalls(modelOptionsBase, fileContext, goal);
-    setApiProgress({ completed: 0, total: planningEstimates.total });
-    if (planningEstimates.total > 5) {
-        setApiResourceControl({
-            docChunks: planningEstimates.mainCount,
-            auxChunks: planningEstimates.auxCount,
-            onConfirm: (limits) => { setApiResourceControl(null); runPlanningStage(limits); },
-            onCancel: () => { setApiResourceControl(null); handleStop(); setIsProcessing(false); }
+  const stopStreaming = () => {
+    setStreamingOutputs([]);
+    setIsStreamingFinalResult(false);
+    setRetryNotice(null);
+  };
+
+  // Shows what the run engine reports: the plan, task statuses and outputs as they stream in, progress and
+  // approvals. Checkpoints are saved so the run can be resumed.
+  const handleRunEvent = (event: RunEvent) => {
+    switch (event.type) {
+      case 'phaseChanged':
+        if (event.phase === 'planning') setProcessingStatus('Stage 1/3: Breaking down goal...');
+        else if (event.phase === 'reviewing') setProcessingStatus('Waiting for the plan to be reviewed...');
+        else if (event.phase === 'synthesizing') setProcessingStatus('Stage 3/3: Synthesizing final result...');
+        break;
+      case 'planCreated':
+      case 'planApproved':
+        setTasks(event.tasks);
+        break;
+      case 'approvalRequired':
+        if (event.approval.kind === 'plan') setPlanReview({ isRegenerating: false, issues: [] });
+        else setApiResourceControl({ docChunks: event.approval.docChunks, auxChunks: event.approval.auxChunks });
+        break;
+      case 'approvalResolved':
+        if (event.approval.kind === 'plan') setPlanReview(null);
+        else setApiResourceControl(null);
+        break;
+      case 'subtasksCreated': {
+        const { parent, subtasks } = event;
+        // Sub-tasks are listed right after their parent, replacing any from an earlier attempt.
+        setTasks(prevTasks => {
+          const replaced = descendantsOf(prevTasks, parent.id);
+          const kept = prevTasks.filter(t => !replaced.has(t.id));
+          const at = kept.findIndex(t => t.id === parent.id) + 1;
+          return [...kept.slice(0, at), ...subtasks, ...kept.slice(at)];
         });
-    } else {
-        await runPlanningStage({ doc: 0, aux: 0 });
+        break;
+      }
+      case 'taskStarted':
+        setTaskStatus(event.task.id, TaskStatus.IN_PROGRESS);
+        break;
+      case 'taskCompleted':
+        setOutputs(event.outputs);
+        setTaskStatus(event.task.id, TaskStatus.COMPLETED);
+        break;
+      case 'taskFailed':
+        setTaskStatus(event.task.id, event.status);
+        break;
+      case 'executionProgress':
+        setProcessingStatus(`Stage 2/3: Executing tasks (${event.completed} of ${event.total} done${event.running > 1 ? `, ${event.running} running` : ''})...`);
+        break;
+      case 'taskStreamStarted': {
+        const { task } = event;
+        setStreamingOutputs(prev => [...prev.filter(stream => stream.taskId !== task.id), { taskId: task.id, taskDescription: task.description, text: '', toolCalls: [] }]);
+        break;
+      }
+      case 'taskToken':
+        updateTaskStream(event.task.id, stream => ({ ...stream, text: stream.text + event.delta }));
+        break;
+      case 'taskToolCall':
+        updateTaskStream(event.task.id, stream => ({ ...stream, text: '', toolCalls: [...(stream.toolCalls ?? []), event.call] }));
+        break;
+      case 'taskVerified':
+        if (!event.retrying) break;
+        showRetryNotice(`"${event.task.description}" scored ${event.verification.score}. Retrying it with the verifier's critique...`, 5000);
+        updateTaskStream(event.task.id, stream => ({ ...stream, text: '', toolCalls: [] }));
+        break;
+      case 'taskStreamEnded':
+        setStreamingOutputs(prev => prev.filter(stream => stream.taskId !== event.task.id));
+        break;
+      case 'finalResultStreamStarted':
+        setFinalResult('');
+        setIsStreamingFinalResult(true);
+        break;
+      case 'finalResultToken':
+        setFinalResult(prev => (prev ?? '') + event.delta);
+        break;
+      case 'retry': {
+        const { reason, attempt, maxRetries, delayMs } = event.event;
+        showRetryNotice(`Request ${reason}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxRetries})...`, delayMs);
+        break;
+      }
+      case 'fallback': {
+        const { failed, next, error } = event.event;
+        showRetryNotice(`${failed.model} failed (${error.message}). Falling back to ${next.model}...`, 5000);
+        if (event.task) updateTaskStream(event.task.id, stream => ({ ...stream, text: '' }));
+        else setFinalResult(prev => (prev === null ? null : ''));
+        break;
+      }
+      case 'callProgress':
+        setCallProgress(event.progress);
+        break;
+      case 'usageChanged':
+        setUsage(event.usage);
+        break;
+      case 'callTraced':
+        setTrace(prev => [...prev, event.call]);
+        break;
+      case 'checkpoint':
+        saveRun(event.run);
+        break;
+      case 'runCompleted':
+        setIsStreamingFinalResult(false);
+        setFinalResult(event.result);
+        api.saveChatHistory(event.run.goal, event.result, event.usage, event.trace);
+        // A finished run is forgotten; one that ended early stays saved and is offered for resuming.
+        clearSavedRun();
+        lastRunRef.current = event.run;
+        break;
+      case 'runFailed':
+        stopStreaming();
+        setError(event.error);
+        setResumableRun(event.run);
+        lastRunRef.current = event.run;
+        markUnfinishedTasks(event.cancelled);
+        break;
     }
   };
-  
-  const handleSubmit = async () => {
-    if (!goal.trim()) {
-      setError('Please define a primary goal.');
-      return;
-    }
-    
-    setIsProcessing(true);
-    setError(null);
-    setTasks([]);
-    setOutputs([]);
-    setFinalResult(null);
-    isCancelledRef.current = false;
 
-    if (provider === 'pollinations') {
-      executePollinationsFlow();
-      return;
+  // An engine for one run with the current settings; Stop and the approval dialogs act on it while it runs.
+  const createRunEngine = () => {
+    const engine = new RunEngine({
+      stages: createStageServices(),
+      // Without an override, chunks are scored by the model of the stage that chunks them.
+      scoringRoute: stageRouting.scoring?.model.trim() ? routeFor('scoring') : undefined,
+      useSearch,
+      useTools,
+      maxParallelTasks,
+      reviewPlan,
+      verification: verificationSettings(),
+    });
+    engine.subscribe(handleRunEvent);
+    engineRef.current = engine;
+    return engine;
+  };
+
+  const handleExecutePlan = () => {
+    try {
+      engineRef.current?.approvePlan(tasks);
+    } catch (err) {
+      if (!(err instanceof TaskPlanValidationError)) throw err;
+      setPlanReview(prev => prev && { ...prev, issues: err.issues });
     }
+  };
 
+  const handleRegeneratePlan = async (feedback: string) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    setPlanReview(prev => prev && { ...prev, isRegenerating: true, issues: [] });
     try {
-      const apiKey = provider === 'gemini' ? geminiApiKey : openRouterApiKey;
-      const llmService = new LLMService(provider, apiKey);
+      await engine.regeneratePlan(feedback, tasks);
+    } catch (err: any) {
+      // Stopping the run has already closed the review, so there is nothing to show then.
+      setPlanReview(prev => prev && { ...prev, issues: [err.message || 'Could not regenerate the plan.'] });
+    } finally {
+      setPlanReview(prev => prev && { ...prev, isRegenerating: false });
+    }
+  };
 
-      setProcessingStatus('Stage 1/3: Breaking down goal...');
-      const generatedTasks = await llmService.breakDownGoalIntoTasks(model, goal, files, {}, {doc:0, aux:0}, isCancelledRef);
-      
-      if (isCancelledRef.current) throw new Error('Process stopped by user.');
-      
-      setTasks(generatedTasks);
-
-      const newOutputs: TaskOutput[] = [];
-      for (let i = 0; i < generatedTasks.length; i++) {
-        const task = generatedTasks[i];
-        if (isCancelledRef.current) throw new Error('Process stopped by user.');
-        
-        setProcessingStatus(`Stage 2/3: Executing task ${i + 1} of ${generatedTasks.length}...`);
-        setTasks(prevTasks => prevTasks.map(t =>
-          t.id === task.id ? { ...t, status: TaskStatus.IN_PROGRESS } : t
-        ));
-        
-        const taskOutput = await llmService.executeTask(model, task, goal, newOutputs, files, useSearch, {}, {doc:0, aux:0}, isCancelledRef);
-        newOutputs.push(taskOutput);
-        setOutputs([...newOutputs]);
-
-        setTasks(prevTasks => prevTasks.map(t =>
-          t.id === task.id ? { ...t, status: TaskStatus.COMPLETED } : t
-        ));
-      }
+  const handleDiscardRun = () => {
+    clearSavedRun();
+    setResumableRun(null);
+  };
 
-      setProcessingStatus('Stage 3/3: Synthesizing final result...');
-      if (isCancelledRef.current) throw new Error('Process stopped by user.');
+  // Starts a run for the current goal and files, or continues `resumeFrom` from its first unfinished task.
+  const startRun = async (resumeFrom?: SavedRun) => {
+    const savedRun: SavedRun = resumeFrom ?? { goal, files, tasks: [], outputs: [], limits: {}, updatedAt: Date.now() };
+    if (!savedRun.goal.trim()) {
+      setError('Please define a primary goal.');
+      return;
+    }
+    setResumableRun(null);
+    if (resumeFrom) setGoal(resumeFrom.goal);
 
-      const finalSynthesizedResult = await llmService.synthesizeFinalResult(model, goal, newOutputs, {}, {doc:0, aux:0}, isCancelledRef);
-      setFinalResult(finalSynthesizedResult);
+    setIsProcessing(true);
+    setError(null);
+    setTasks(restoredPlan(savedRun));
+    setOutputs(savedRun.outputs);
+    setFinalResult(null);
+    setIsFinalResultStale(false);
+    setUsage(savedRun.usage ?? null);
+    // A resumed run continues the trace of its earlier attempts in this session.
+    const previousTrace = resumeFrom ? trace : [];
+    setTrace(previousTrace);
+    setCallProgress(null);
+    prepareResponseCache();
+
+    await createRunEngine().start(savedRun, previousTrace);
+    engineRef.current = null;
+    stopStreaming();
+    setIsProcessing(false);
+    setProcessingStatus('');
+  };
 
-      api.saveChatHistory(goal, finalSynthesizedResult);
+  const handleSubmit = () => startRun();
+
+  /**
+   * Runs one task of the last run again, with optional extra instructions, on the outputs of its dependencies.
+   * Its output is replaced; the completed tasks that used it, directly or through other tasks, and the final
+   * result become stale. A task that was split into sub-tasks is re-run as a whole and loses them.
+   */
+  const handleRerunTask = async (task: Task, instructions: string) => {
+    const lastRun = lastRunRef.current;
+    if (!lastRun) return;
+    prepareResponseCache();
+    setIsProcessing(true);
+    setError(null);
+    setProcessingStatus(`Re-running task: ${task.description}`);
 
+    try {
+      const output = await createRunEngine().rerunTask({ ...lastRun, usage: usage ?? undefined }, task, instructions);
+      const stale = dependentsOf(tasks, task.id);
+      const replaced = descendantsOf(tasks, task.id);
+      const updatedTasks = tasks.filter(t => !replaced.has(t.id)).map(t => {
+        if (t.id === task.id) return { ...t, instructions: instructions.trim() || undefined, status: TaskStatus.COMPLETED };
+        return stale.has(t.id) && t.status === TaskStatus.COMPLETED ? { ...t, status: TaskStatus.STALE } : t;
+      });
+      const updatedOutputs = tasks
+        .map(t => t.id === task.id ? output : outputs.find(o => o.taskId === t.id))
+        .filter((o): o is TaskOutput => !!o);
+      setTasks(updatedTasks);
+      setOutputs(updatedOutputs);
+      setIsFinalResultStale(true);
+      lastRunRef.current = { ...lastRun, tasks: updatedTasks, outputs: updatedOutputs };
     } catch (err: any) {
       console.error(err);
-      const errorMessage = err.message === 'Process stopped by user.' 
-        ? 'Process stopped by user.'
-        : (err.message || 'An unexpected error occurred.');
-      setError(errorMessage);
-
-      setTasks(prevTasks => prevTasks.map(t =>
-        t.status === TaskStatus.IN_PROGRESS ? { ...t, status: TaskStatus.FAILED } : t
-      ));
+      setError(err.message || 'An unexpected error occurred.');
+      setTaskStatus(task.id, task.status);
     } finally {
+      engineRef.current = null;
+      stopStreaming();
       setIsProcessing(false);
       setProcessingStatus('');
     }
   };
 
-  const canSubmit = goal.trim().length > 0 && !isProcessing && !isUploading && (
-    (provider === 'gemini' && geminiApiKey.trim().length > 0) || 
-    (provider === 'openrouter' && openRouterApiKey.trim().length > 0 && openRouterModels.length > 0) ||
-    (provider === 'pollinations' && pollinationsModels.length > 0)
-  );
+  // Runs the stale tasks, and any that never completed, then synthesizes the final result again. The tasks
+  // that are up to date keep their outputs.
+  const handleUpdateStaleTasks = () => {
+    const lastRun = lastRunRef.current;
+    if (!lastRun) return;
+    const upToDate = new Set(tasks.filter(t => t.status === TaskStatus.COMPLETED).map(t => t.id));
+    // Sub-tasks are planned again when their parent runs.
+    startRun({ ...lastRun, tasks: tasks.filter(t => !t.parentId), outputs: outputs.filter(output => upToDate.has(output.taskId)), usage: usage ?? undefined });
+  };
+
+  const handleResume = () => {
+    if (resumableRun) startRun(resumableRun);
+  };
+
+  // Replayed runs never reach the provider, so no API key is needed.
+  const providerHasApiKey = (id: string) =>
+    getProviderDefinition(id).apiKey !== 'required' || providerConfigs[id].apiKey.trim().length > 0 || cassette?.mode === 'replay';
+  const providerHasBaseUrl = (id: string) =>
+    getProviderDefinition(id).defaultBaseUrl === undefined || (providerConfigs[id].baseUrl ?? '').trim().length > 0;
+  const hasRequiredApiKey = providerHasApiKey(provider);
+  const hasBaseUrl = providerHasBaseUrl(provider);
+  // Providers routed to by individual stages need their credentials too.
+  const routedProvidersReady = (Object.values(stageRouting) as (ModelRoute | undefined)[])
+    .every(route => !route || !route.model.trim() || (providerHasApiKey(route.provider) && providerHasBaseUrl(route.provider)));
+  // A search backend without a usable URL would search nowhere on every task.
+  const searchBackendReady = !useSearch || !searchBackendConfigIssue(searchBackend);
+  const canStartRun = !isProcessing && !isUploading && hasRequiredApiKey && hasBaseUrl && routedProvidersReady && searchBackendReady && models.length > 0;
+  const canSubmit = goal.trim().length > 0 && canStartRun;
+  const staleTaskIds = tasks.filter(task => task.status === TaskStatus.STALE).map(task => task.id);
+
+  let modelsEmptyText = 'Could not load models';
+  if (!hasRequiredApiKey) {
+    modelsEmptyText = 'Set API key to load models';
+  } else if (!hasBaseUrl) {
+    modelsEmptyText = 'Set server URL to load models';
+  }
 
   return (
     <>
@@ -682,20 +799,21 @@ const App: React.FC = () => {
             <div className="space-y-6">
               <ModelProviderSelector provider={provider} setProvider={setProvider} disabled={isProcessing} />
               
-              {provider === 'gemini' && (
-                  <ApiKeyInput 
-                      apiKey={geminiApiKey}
-                      setApiKey={setGeminiApiKey}
-                      provider={provider}
+              {providerDefinition.defaultBaseUrl !== undefined && (
+                  <BaseUrlInput
+                      baseUrl={providerConfig.baseUrl ?? ''}
+                      setBaseUrl={(baseUrl) => updateProviderConfig({ baseUrl })}
                       disabled={isProcessing}
+                      placeholder={providerDefinition.baseUrlPlaceholder}
                   />
               )}
 
-              {provider === 'openrouter' && (
+              {providerDefinition.apiKey !== 'none' && (
                   <ApiKeyInput 
-                      apiKey={openRouterApiKey}
-                      setApiKey={setOpenRouterApiKey}
-                      provider={provider}
+                      apiKey={providerConfig.apiKey}
+                      setApiKey={(apiKey) => updateProviderConfig({ apiKey })}
+                      providerName={providerDefinition.name}
+                      optional={providerDefinition.apiKey === 'optional'}
                       disabled={isProcessing}
                       isProcessing={isFetchingModels}
                   />
@@ -704,18 +822,29 @@ const App: React.FC = () => {
               <ModelSelector 
                 model={model} 
                 setModel={setModel} 
-                disabled={isProcessing || (provider === 'openrouter' && openRouterModels.length === 0) || (provider === 'pollinations' && pollinationsModels.length === 0)}
-                provider={provider}
-                openRouterModels={openRouterModels}
-                pollinationsModels={pollinationsModels}
+                disabled={isProcessing || models.length === 0}
+                models={models}
                 isFetchingModels={isFetchingModels}
+                emptyText={modelsEmptyText}
               />
-              {provider === 'pollinations' && (
+              {providerDefinition.note && (
                   <p className="text-xs text-gray-400 italic text-center -mt-4">
-                      The free tier intelligently breaks down large documents to process complex goals, which may take longer.
+                      {providerDefinition.note}
                   </p>
               )}
 
+              <StageRoutingEditor
+                routing={stageRouting}
+                setRouting={setStageRouting}
+                presets={routingPresets}
+                onSavePreset={handleSaveRoutingPreset}
+                onDeletePreset={handleDeleteRoutingPreset}
+                providerConfigs={providerConfigs}
+                disabled={isProcessing}
+              />
+
+              <FallbackChainEditor chain={fallbackChain} setChain={setFallbackChain} providerConfigs={providerConfigs} disabled={isProcessing} />
+
               <GoalInput goal={goal} setGoal={setGoal} disabled={isProcessing} />
               
               <div>
@@ -724,7 +853,29 @@ const App: React.FC = () => {
                 <FileList files={files.map(f => f.name)} onRemoveFile={handleRemoveFile} onViewFile={handleViewFile} disabled={isProcessing} />
               </div>
 
-              <SearchToggle useSearch={useSearch} setUseSearch={setUseSearch} disabled={isProcessing} provider={provider} />
+              <SearchBackendSelector config={searchBackend} setConfig={setSearchBackend} disabled={isProcessing} />
+
+              <SearchToggle useSearch={useSearch} setUseSearch={setUseSearch} disabled={isProcessing} labelText={searchLabel} />
+
+              <ToolsToggle useTools={useTools} setUseTools={setUseTools} disabled={isProcessing} />
+
+              <ParallelTasksInput maxParallelTasks={maxParallelTasks} setMaxParallelTasks={setMaxParallelTasks} disabled={isProcessing} />
+
+              <PlanReviewToggle reviewPlan={reviewPlan} setReviewPlan={setReviewPlan} disabled={isProcessing} />
+              <VerificationToggle verifyOutputs={verifyOutputs} setVerifyOutputs={setVerifyOutputs} threshold={verificationThreshold} setThreshold={setVerificationThreshold} disabled={isProcessing} />
+
+              <CassetteControls cassette={cassette} setCassette={setCassette} disabled={isProcessing} />
+
+              <ResponseCacheControls
+                enabled={cacheEnabled}
+                setEnabled={setCacheEnabled}
+                bypass={bypassCache}
+                setBypass={setBypassCache}
+                onClear={() => responseCache.clear()}
+                disabled={isProcessing}
+              />
+
+              <PromptTemplateEditor overrides={promptOverrides} setOverrides={setPromptOverridesState} disabled={isProcessing} />
             </div>
 
             <div className="mt-8 pt-6 border-t border-gray-700 flex items-center justify-between gap-4">
@@ -740,21 +891,29 @@ const App: React.FC = () => {
                           Stop
                       </button>
                       <div className="flex-grow min-w-0">
-                          {provider === 'pollinations' && apiProgress.total > 0 ? (
+                          {callProgress && callProgress.total > 0 ? (
                             <PollinationsProgress
-                              completedCalls={apiProgress.completed}
-                              totalCalls={totalEstimatedCalls}
+                              completedCalls={callProgress.completed}
+                              totalCalls={callProgress.total}
                               statusText={processingStatus}
-                              docChunks={currentStageChunks?.doc}
-                              auxChunks={currentStageChunks?.aux}
+                              retryNotice={retryNotice}
+                              docChunks={callProgress.docChunks}
+                              auxChunks={callProgress.auxChunks}
                             />
                           ) : (
                             <div className="flex items-center text-gray-300">
                                 <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
                                 <span>{processingStatus}</span>
+                                {retryNotice && <span className="ml-3 text-xs text-yellow-300/90 truncate">{retryNotice}</span>}
                             </div>
                           )}
                       </div>
+                      {cacheEnabled && cacheStats.hits + cacheStats.misses > 0 && (
+                        <span className="text-xs text-gray-400 whitespace-nowrap" title="Responses served from the cache / fetched from the provider">
+                          Cache: {cacheStats.hits} hits · {cacheStats.misses} misses
+                        </span>
+                      )}
+                      {usage && <UsageBreakdown usage={usage} compact />}
                   </div>
               ) : (
                   <button
@@ -780,17 +939,54 @@ const App: React.FC = () => {
               </div>
             )}
 
-            <TaskList tasks={tasks} completedOutputsCount={outputs.length} />
+            {resumableRun && !isProcessing && (
+              <ResumeRunBanner run={resumableRun} onResume={handleResume} onDiscard={handleDiscardRun} disabled={!canStartRun} />
+            )}
+
+            <TaskList
+              tasks={tasks}
+              onChange={planReview ? setTasks : undefined}
+              onRerun={!isProcessing && lastRunRef.current ? handleRerunTask : undefined}
+              disabled={planReview ? planReview.isRegenerating : !canStartRun}
+            />
+            {planReview && (
+              <PlanReviewPanel
+                onExecute={handleExecutePlan}
+                onRegenerate={handleRegeneratePlan}
+                isRegenerating={planReview.isRegenerating}
+                issues={planReview.issues}
+              />
+            )}
             
-            <OutputDisplay outputs={outputs} />
+            <OutputDisplay outputs={outputs} streamingOutputs={streamingOutputs} staleTaskIds={staleTaskIds} />
+
+            {isFinalResultStale && !isProcessing && (
+              <div className="mt-6 p-4 bg-gray-800 border border-yellow-600/50 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+                <p className="flex-1 text-sm text-yellow-200">
+                  {staleTaskIds.length > 0
+                    ? `${staleTaskIds.length} task${staleTaskIds.length === 1 ? '' : 's'} used a replaced output, and the final result is out of date.`
+                    : 'The final result is out of date.'}
+                </p>
+                <button
+                  onClick={handleUpdateStaleTasks}
+                  disabled={!canStartRun}
+                  className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {staleTaskIds.length > 0 ? 'Re-run stale tasks and final result' : 'Synthesize final result again'}
+                </button>
+              </div>
+            )}
 
             {finalResult !== null && (
-              <FinalResultDisplay content={finalResult} />
+              <FinalResultDisplay content={finalResult} isStreaming={isStreamingFinalResult} citations={finalCitations} />
             )}
 
+            {usage && !isProcessing && <UsageBreakdown usage={usage} />}
+            <RunTraceTimeline trace={trace} />
+
           </main>
           <footer className="text-center mt-8 text-xs text-gray-500">
-            <p>Powered by Google Gemini, OpenRouter &amp; Pollinations</p>
+            <p>Powered by Google Gemini, OpenRouter, Anthropic, Pollinations &amp; local OpenAI-compatible servers</p>
           </footer>
         </div>
       </div>
@@ -829,8 +1025,8 @@ const App: React.FC = () => {
         <ApiResourceControlModal
             docChunks={apiResourceControl.docChunks}
             auxChunks={apiResourceControl.auxChunks}
-            onConfirm={apiResourceControl.onConfirm}
-            onCancel={apiResourceControl.onCancel}
+            onConfirm={(limits) => engineRef.current?.confirmLimits(limits)}
+            onCancel={handleStop}
         />
       )}
     </>
@@ -20,6 +20,12 @@ const MILVUS_URL = process.env.MILVUS_URL || 'localhost:19530';
 const COLLECTION_NAME = 'chat_history';
 const VECTOR_DIMENSION = 768; // Example dimension, should match your embedding model
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-key-that-is-long-and-secure';
+// Collections created before usage tracking have no 'usage' field; such entries are saved without it.
+let hasUsageField = true;
+// Likewise for collections created before runs were traced.
+let hasTraceField = true;
+// The size limit of a VarChar field, in bytes.
+const MAX_VARCHAR_BYTES = 65535;
 
 // --- In-Memory User Store (for demonstration) ---
 // In a production environment, replace this with a proper database (e.g., PostgreSQL, MongoDB).
@@ -33,6 +39,15 @@ async function ensureCollection() {
     const collections = await milvusClient.showCollections();
     if (collections.data.some(c => c.name === COLLECTION_NAME)) {
         console.log(`Collection '${COLLECTION_NAME}' already exists.`);
+        const description = await milvusClient.describeCollection({ collection_name: COLLECTION_NAME });
+        hasUsageField = description.schema.fields.some(f => f.name === 'usage');
+        if (!hasUsageField) {
+            console.warn(`Collection '${COLLECTION_NAME}' has no 'usage' field. Token usage will not be saved; recreate the collection to enable it.`);
+        }
+        hasTraceField = description.schema.fields.some(f => f.name === 'trace');
+        if (!hasTraceField) {
+            console.warn(`Collection '${COLLECTION_NAME}' has no 'trace' field. Call traces will not be saved; recreate the collection to enable it.`);
+        }
         return;
     }
 
@@ -42,6 +57,10 @@ async function ensureCollection() {
         { name: 'username', data_type: DataType.VarChar, max_length: 256 },
         { name: 'goal', data_type: DataType.VarChar, max_length: 1024 },
         { name: 'result', data_type: DataType.VarChar, max_length: 65535 },
+        // JSON-encoded token usage and cost of the run.
+        { name: 'usage', data_type: DataType.VarChar, max_length: 65535 },
+        // JSON-encoded LLM call trace of the run, with prompts and responses cut to fit; see `traceForStorage`.
+        { name: 'trace', data_type: DataType.VarChar, max_length: MAX_VARCHAR_BYTES },
         { name: 'embedding', data_type: DataType.FloatVector, dim: VECTOR_DIMENSION },
     ];
 
@@ -125,9 +144,25 @@ app.post('/api/login', async (req, res) => {
     res.json({ token: accessToken, username: user.username });
 });
 
+const clip = (text: string | undefined, maxChars: number) =>
+    text === undefined || text.length <= maxChars ? text : `${text.slice(0, maxChars)}… [truncated]`;
+
+// Encodes a call trace so it fits into a VarChar field. Prompts and responses are cut shorter until it does;
+// if the calls do not fit even without them, the last ones are left out.
+function traceForStorage(trace: any[]): string {
+    let calls = trace;
+    let maxChars = 4096;
+    for (;;) {
+        const json = JSON.stringify(calls.map(call => ({ ...call, prompt: clip(call.prompt, maxChars), response: clip(call.response, maxChars) })));
+        if (Buffer.byteLength(json) <= MAX_VARCHAR_BYTES) return json;
+        if (maxChars > 0) maxChars = Math.floor(maxChars / 2);
+        else calls = calls.slice(0, -1);
+    }
+}
+
 // Save Chat History (Protected)
 app.post('/api/save_history', authenticateToken, async (req, res) => {
-    const { goal, result } = req.body;
+    const { goal, result, usage, trace } = req.body;
     const username = (req as any).user.username;
 
     if (!goal || !result) {
@@ -136,7 +171,11 @@ app.post('/api/save_history', authenticateToken, async (req, res) => {
 
     try {
         const embedding = Array(VECTOR_DIMENSION).fill(0).map(() => Math.random());
-        const dataToInsert = [{ username, goal, result, embedding }];
+        const dataToInsert = [{
+            username, goal, result, embedding,
+            ...(hasUsageField ? { usage: usage ? JSON.stringify(usage) : '' } : {}),
+            ...(hasTraceField ? { trace: Array.isArray(trace) && trace.length > 0 ? traceForStorage(trace) : '' } : {}),
+        }];
 
         await milvusClient.loadCollection({ collection_name: COLLECTION_NAME });
         const response = await milvusClient.insert({ collection_name: COLLECTION_NAME, data: dataToInsert });
@@ -160,14 +199,19 @@ app.get('/api/history', authenticateToken, async (req, res) => {
         const queryResponse = await milvusClient.query({
             collection_name: COLLECTION_NAME,
             expr: `username == "${username}"`,
-            output_fields: ["id", "goal", "result"],
+            output_fields: ["id", "goal", "result", ...(hasUsageField ? ["usage"] : []), ...(hasTraceField ? ["trace"] : [])],
             limit: 100 // a reasonable limit
         });
         
         await milvusClient.releaseCollection({ collection_name: COLLECTION_NAME });
         
         console.log(`History retrieved for user: ${username}`);
-        res.status(200).json(queryResponse.data);
+        const history = queryResponse.data.map((item: any) => ({
+            ...item,
+            usage: item.usage ? JSON.parse(item.usage) : undefined,
+            trace: item.trace ? JSON.parse(item.trace) : undefined,
+        }));
+        res.status(200).json(history);
     } catch (error) {
         console.error(`Failed to retrieve history for ${username}:`, error);
         res.status(500).json({ success: false, error: 'Failed to retrieve history.' });
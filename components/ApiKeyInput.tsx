@@ -3,13 +3,14 @@ import React from 'react';
 interface ApiKeyInputProps {
   apiKey: string;
   setApiKey: (key: string) => void;
-  provider: string;
+  providerName: string;
+  optional?: boolean;
   disabled: boolean;
   isProcessing?: boolean;
 }
 
-export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ apiKey, setApiKey, provider, disabled, isProcessing }) => {
-  const showSpinner = provider === 'openrouter' && isProcessing;
+export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ apiKey, setApiKey, providerName, optional, disabled, isProcessing }) => {
+  const showSpinner = isProcessing;
   
   return (
     <div className="relative w-full">
@@ -18,7 +19,7 @@ export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ apiKey, setApiKey, pro
         value={apiKey}
         onChange={(e) => setApiKey(e.target.value)}
         disabled={disabled || (isProcessing ?? false)}
-        placeholder={`Enter your ${provider === 'openrouter' ? 'OpenRouter' : 'Gemini'} API Key`}
+        placeholder={`Enter your ${providerName} API Key${optional ? ' (optional)' : ''}`}
         className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200 disabled:opacity-50"
       />
       {showSpinner && (
@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface BaseUrlInputProps {
+  baseUrl: string;
+  setBaseUrl: (url: string) => void;
+  disabled: boolean;
+  placeholder?: string;
+}
+
+export const BaseUrlInput: React.FC<BaseUrlInputProps> = ({ baseUrl, setBaseUrl, disabled, placeholder }) => {
+  return (
+    <div>
+      <label htmlFor="base-url-input" className="block text-sm font-medium text-gray-300 mb-2">
+        Server URL
+      </label>
+      <input
+        id="base-url-input"
+        type="url"
+        value={baseUrl}
+        onChange={(e) => setBaseUrl(e.target.value)}
+        disabled={disabled}
+        placeholder={placeholder}
+        className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200 disabled:opacity-50"
+      />
+    </div>
+  );
+};
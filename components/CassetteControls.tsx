@@ -0,0 +1,69 @@
+import React, { useRef, useState } from 'react';
+import { Cassette } from '../services/llmService';
+
+interface CassetteControlsProps {
+  cassette: Cassette | null;
+  setCassette: (cassette: Cassette | null) => void;
+  disabled: boolean;
+}
+
+// Switches between live requests, recording them to a cassette file, and replaying a loaded cassette offline.
+export const CassetteControls: React.FC<CassetteControlsProps> = ({ cassette, setCassette, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setCassette(Cassette.fromJSON(JSON.parse(await file.text())));
+      setLoadError(null);
+    } catch (err: any) {
+      setLoadError(err.message || 'Could not read cassette file.');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!cassette) return;
+    const blob = new Blob([JSON.stringify(cassette.toJSON(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `cassette-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const buttonClasses = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-md disabled:opacity-50 ${active ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`;
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        Request Cassette
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <button onClick={() => setCassette(null)} disabled={disabled} className={buttonClasses(!cassette)}>
+          Off
+        </button>
+        <button onClick={() => setCassette(new Cassette('record'))} disabled={disabled} className={buttonClasses(cassette?.mode === 'record')}>
+          Record
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={buttonClasses(cassette?.mode === 'replay')}>
+          Replay from file...
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleLoad} />
+        {cassette?.mode === 'record' && (
+          <button onClick={handleDownload} disabled={cassette.size === 0} className="px-3 py-1 text-sm text-blue-400 hover:text-blue-300 hover:bg-gray-700 rounded-md disabled:opacity-50">
+            Download ({cassette.size} recorded)
+          </button>
+        )}
+        {cassette?.mode === 'replay' && (
+          <span className="text-xs text-gray-400">{cassette.size} recorded responses loaded; the network is not used.</span>
+        )}
+      </div>
+      {loadError && <p className="mt-2 text-xs text-red-400">{loadError}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { ProviderConfig, listProviders } from '../services/llmService';
+import { useProviderModels } from './useProviderModels';
+import { ModelRoute } from '../types';
+
+interface FallbackChainEditorProps {
+  chain: ModelRoute[];
+  setChain: (chain: ModelRoute[]) => void;
+  providerConfigs: { [provider: string]: ProviderConfig };
+  disabled: boolean;
+}
+
+export const FallbackChainEditor: React.FC<FallbackChainEditorProps> = ({ chain, setChain, providerConfigs, disabled }) => {
+  // Model suggestions for the providers in the chain.
+  const modelLists = useProviderModels(chain.map(r => r.provider), providerConfigs, 'fallback');
+  const providers = listProviders();
+
+  const updateEntry = (index: number, changes: Partial<ModelRoute>) => {
+    setChain(chain.map((route, i) => (i === index ? { ...route, ...changes } : route)));
+  };
+
+  const removeEntry = (index: number) => {
+    setChain(chain.filter((_, i) => i !== index));
+  };
+
+  const addEntry = () => {
+    setChain([...chain, { provider: providers[0].id, model: '' }]);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        Fallback Models (Optional)
+      </label>
+      <p className="text-xs text-gray-400 mb-2">
+        Tried in order when a stage fails on the selected model. Providers use the API key and server URL entered for them above.
+      </p>
+      <div className="space-y-2">
+        {chain.map((route, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 w-5 text-right">{index + 1}.</span>
+            <select
+              value={route.provider}
+              onChange={(e) => updateEntry(index, { provider: e.target.value, model: '' })}
+              disabled={disabled}
+              className="p-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+            >
+              {providers.map(p => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              list={`fallback-models-${index}`}
+              value={route.model}
+              onChange={(e) => updateEntry(index, { model: e.target.value })}
+              disabled={disabled}
+              placeholder="Model id"
+              className="flex-grow min-w-0 p-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-200 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+            />
+            <datalist id={`fallback-models-${index}`}>
+              {(modelLists[route.provider] ?? []).map(m => (
+                <option key={m.id} value={m.id}>{m.name}</option>
+              ))}
+            </datalist>
+            <button
+              onClick={() => removeEntry(index)}
+              disabled={disabled}
+              title="Remove fallback"
+              className="px-2 py-1 text-gray-400 hover:text-red-400 disabled:opacity-50"
+            >
+              &times;
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={addEntry}
+        disabled={disabled}
+        className="mt-2 px-3 py-1 text-sm text-blue-400 hover:text-blue-300 hover:bg-gray-700 rounded-md disabled:opacity-50"
+      >
+        + Add fallback
+      </button>
+    </div>
+  );
+};
@@ -1,11 +1,32 @@
 import React from 'react';
 import { marked } from 'marked';
 import hljs from 'highlight.js';
+import { Citation } from '../types';
+import { CITATION_MARKER_PATTERN, isWebUri } from '../services/citations';
+import { CitationLink } from './OutputDisplay';
 
 interface FinalResultDisplayProps {
   content: string;
+  // True while the result is still being streamed from the model.
+  isStreaming?: boolean;
+  // What the `[n]` markers in `content` refer to, `[n]` being `citations[n - 1]`.
+  citations?: Citation[];
 }
 
+const escapeAttribute = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+// Turns `[n]` markers into superscript links before the markdown is parsed. Code is left alone, where `[1]` is usually an index.
+const linkCitationMarkers = (markdown: string, citations: Citation[]): string =>
+  markdown.split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/).map((part, i) => i % 2 === 1 ? part :
+    part.replace(CITATION_MARKER_PATTERN, (marker, n: string) => {
+      const citation = citations[Number(n) - 1];
+      return citation && isWebUri(citation.uri)
+        ? `<a href="${escapeAttribute(citation.uri)}" title="${escapeAttribute(citation.title || citation.uri)}" target="_blank" rel="noopener noreferrer"><sup>${marker}</sup></a>`
+        : marker;
+    })
+  ).join('');
+
 // Configure marked to use highlight.js for syntax highlighting
 marked.setOptions({
   highlight: function(code, lang) {
@@ -17,17 +38,30 @@ marked.setOptions({
   breaks: true,
 });
 
-export const FinalResultDisplay: React.FC<FinalResultDisplayProps> = ({ content }) => {
+export const FinalResultDisplay: React.FC<FinalResultDisplayProps> = ({ content, isStreaming, citations = [] }) => {
   // Parse markdown content into an HTML string
-  const parsedHtml = marked.parse(content);
+  const parsedHtml = marked.parse(citations.length > 0 ? linkCitationMarkers(content, citations) : content);
 
   return (
     <div className="mt-8">
-      <h3 className="text-2xl font-bold text-gray-100 mb-4 pb-2 border-b-2 border-blue-500">Final Result</h3>
+      <h3 className="text-2xl font-bold text-gray-100 mb-4 pb-2 border-b-2 border-blue-500 flex items-center justify-between">
+        <span>Final Result</span>
+        {isStreaming && <span className="text-sm font-normal text-blue-300/80 italic animate-pulse">Synthesizing...</span>}
+      </h3>
       <div 
         className="bg-gray-800 rounded-lg p-6 shadow-inner markdown-preview"
         dangerouslySetInnerHTML={{ __html: parsedHtml }}
       />
+      {citations.length > 0 && (
+        <div className="mt-4">
+          <h5 className="text-xs font-bold text-gray-400 uppercase mb-2">Sources</h5>
+          <div className="flex flex-wrap gap-2">
+            {citations.map((citation, index) => (
+              <CitationLink key={citation.uri} citation={citation} index={index} />
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
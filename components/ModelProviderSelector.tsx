@@ -1,23 +1,20 @@
 
 import React from 'react';
+import { listProviders } from '../services/llmService';
 
 interface ModelProviderSelectorProps {
-  provider: 'gemini' | 'openrouter' | 'pollinations';
-  setProvider: (provider: 'gemini' | 'openrouter' | 'pollinations') => void;
+  provider: string;
+  setProvider: (provider: string) => void;
   disabled: boolean;
 }
 
 export const ModelProviderSelector: React.FC<ModelProviderSelectorProps> = ({ provider, setProvider, disabled }) => {
-  const providers = [
-    { id: 'gemini', name: 'Google Gemini' },
-    { id: 'openrouter', name: 'OpenRouter' },
-    { id: 'pollinations', name: 'Pollinations (Free)' },
-  ];
+  const providers = listProviders();
 
   return (
     <div>
       <label className="block text-sm font-medium text-gray-300 mb-2">LLM Provider</label>
-      <fieldset className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <fieldset className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
         <legend className="sr-only">LLM Provider Selection</legend>
         {providers.map((p) => (
           <div key={p.id}>
@@ -33,7 +30,7 @@ export const ModelProviderSelector: React.FC<ModelProviderSelectorProps> = ({ pr
                 name="provider"
                 value={p.id}
                 checked={provider === p.id}
-                onChange={() => setProvider(p.id as 'gemini' | 'openrouter' | 'pollinations')}
+                onChange={() => setProvider(p.id)}
                 disabled={disabled}
                 className="sr-only"
               />
@@ -1,49 +1,27 @@
 
 import React from 'react';
-import { OpenRouterModel, PollinationsModel } from '../services/llmService';
+import { ModelInfo } from '../services/llmService';
 
 interface ModelSelectorProps {
   model: string;
   setModel: (model: string) => void;
   disabled: boolean;
-  provider: 'gemini' | 'openrouter' | 'pollinations';
-  openRouterModels: OpenRouterModel[];
-  pollinationsModels: PollinationsModel[];
+  models: ModelInfo[];
   isFetchingModels: boolean;
+  // Shown as the only option when no models are available for the selected provider.
+  emptyText: string;
 }
 
-const GEMINI_MODELS = [
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash (speed/basic tasks)' },
-  { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro (complex reasoning)' },
-];
-
-export const ModelSelector: React.FC<ModelSelectorProps> = ({ model, setModel, disabled, provider, openRouterModels, pollinationsModels, isFetchingModels }) => {
+export const ModelSelector: React.FC<ModelSelectorProps> = ({ model, setModel, disabled, models, isFetchingModels, emptyText }) => {
   
   const renderOptions = () => {
-    switch (provider) {
-      case 'gemini':
-        return GEMINI_MODELS.map((m) => (
-          <option key={m.id} value={m.id}>{m.name}</option>
-        ));
-      case 'openrouter':
-        if (isFetchingModels) return <option>Loading models...</option>;
-        if (openRouterModels.length > 0) {
-          return openRouterModels.map((m) => (
-            <option key={m.id} value={m.id}>{m.name}</option>
-          ));
-        }
-        return <option>Set API key to load models</option>;
-      case 'pollinations':
-        if (isFetchingModels) return <option>Loading models...</option>;
-        if (pollinationsModels.length > 0) {
-          return pollinationsModels.map((m) => (
-            <option key={m.id} value={m.id}>{m.name}</option>
-          ));
-        }
-        return <option>Could not load models</option>;
-      default:
-        return null;
+    if (isFetchingModels) return <option>Loading models...</option>;
+    if (models.length > 0) {
+      return models.map((m) => (
+        <option key={m.id} value={m.id}>{m.name}</option>
+      ));
     }
+    return <option>{emptyText}</option>;
   };
 
   return (
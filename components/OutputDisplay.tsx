@@ -1,27 +1,104 @@
 import React from 'react';
-import { TaskOutput, Citation, CalendarEventData, MapData, ChartData, HtmlSnippetData } from '../types';
+import { TaskOutput, TaskVerification, Citation, CalendarEventData, MapData, ChartData, HtmlSnippetData, ToolCallRecord } from '../types';
 import { CalendarEvent } from './CalendarEvent';
 import { MapDisplay } from './MapDisplay';
 import { ChartDisplay } from './ChartDisplay';
 import { HtmlPreview } from './HtmlPreview';
+import { CITATION_MARKER_PATTERN, isWebUri } from '../services/citations';
+import { MAX_VERIFICATION_SCORE } from '../services/taskVerifier';
+
+// A task that is being generated: its text as it streams in and the tools it has called so far.
+export interface StreamingTaskOutput {
+  taskId: string;
+  taskDescription: string;
+  text: string;
+  toolCalls?: ToolCallRecord[];
+}
 
 interface OutputDisplayProps {
   outputs: TaskOutput[];
+  // Tasks that are running, possibly several at once.
+  streamingOutputs?: StreamingTaskOutput[];
+  // Tasks whose output was produced from an output that has since been replaced.
+  staleTaskIds?: string[];
 }
 
-const CitationLink: React.FC<{ citation: Citation, index: number }> = ({ citation, index }) => (
+export const CitationLink: React.FC<{ citation: Citation, index: number }> = ({ citation, index }) => (
   <a
-    href={citation.uri}
+    href={isWebUri(citation.uri) ? citation.uri : undefined}
     target="_blank"
     rel="noopener noreferrer"
     title={citation.title}
     className="inline-block text-xs bg-gray-700 text-blue-400 hover:bg-gray-600 hover:text-blue-300 rounded-full px-2 py-1 transition-colors duration-200"
   >
-    [{index + 1}] {citation.title || new URL(citation.uri).hostname}
+    [{index + 1}] {citation.title || (isWebUri(citation.uri) ? new URL(citation.uri).hostname : citation.uri)}
   </a>
 );
 
-const renderOutput = (output: string) => {
+// Renders the `[n]` markers in `text` as links to `citations[n - 1]`; markers without a citation stay plain text.
+const CitedText: React.FC<{ text: string, citations: Citation[] }> = ({ text, citations }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_MARKER_PATTERN)) {
+    const citation = citations[Number(match[1]) - 1];
+    if (!citation || !isWebUri(citation.uri)) continue;
+    parts.push(
+      text.slice(last, match.index),
+      <a
+        key={match.index}
+        href={citation.uri}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={citation.title}
+        className="text-blue-400 hover:text-blue-300"
+      >
+        <sup>{match[0]}</sup>
+      </a>
+    );
+    last = match.index + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+const ToolCallList: React.FC<{ calls: ToolCallRecord[] }> = ({ calls }) => (
+  <div className="mb-3 space-y-1">
+    <h5 className="text-xs font-bold text-gray-400 uppercase mb-2">Tool Calls</h5>
+    {calls.map((call, index) => (
+      <details key={index} className="text-xs bg-gray-900/50 rounded-md">
+        <summary className={`px-3 py-2 cursor-pointer font-mono ${call.isError ? 'text-red-400' : 'text-gray-300'}`}>
+          {call.name}({Object.keys(call.arguments).length > 0 ? JSON.stringify(call.arguments) : ''})
+        </summary>
+        <pre className="whitespace-pre-wrap font-mono text-gray-400 px-3 pb-2 max-h-60 overflow-y-auto">{call.result}</pre>
+      </details>
+    ))}
+  </div>
+);
+
+const ScoreBadge: React.FC<{ score: number }> = ({ score }) => {
+  const classes = score >= 7 ? 'bg-green-900/50 text-green-300' : score >= 4 ? 'bg-yellow-900/50 text-yellow-300' : 'bg-red-900/50 text-red-300';
+  return <span className={`px-1.5 rounded text-xs flex-shrink-0 ${classes}`} title="Verifier score">{score}/{MAX_VERIFICATION_SCORE}</span>;
+};
+
+// The verifier's verdicts on each attempt at a task, the last one being on the output shown.
+const VerificationList: React.FC<{ verifications: TaskVerification[] }> = ({ verifications }) => (
+  <div className="mt-4 pt-3 border-t border-gray-700">
+    <h5 className="text-xs font-bold text-gray-400 uppercase mb-2">Verification</h5>
+    <ul className="space-y-2">
+      {verifications.map((verification, index) => (
+        <li key={index} className="text-sm text-gray-300 flex items-start gap-2">
+          <ScoreBadge score={verification.score} />
+          <span>
+            {verifications.length > 1 && <span className="text-gray-500">Attempt {index + 1}: </span>}
+            {verification.critique || <span className="text-gray-500">No problems found.</span>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const renderOutput = (output: string, citations: Citation[]) => {
   try {
     const parsed = JSON.parse(output);
     switch (parsed['@type']) {
@@ -57,14 +134,14 @@ const renderOutput = (output: string) => {
   // Default renderer for code/text
   return (
     <pre className="whitespace-pre-wrap font-mono text-sm text-gray-200 bg-gray-900/50 p-3 rounded-md overflow-x-auto">
-      <code>{output}</code>
+      <code><CitedText text={output} citations={citations} /></code>
     </pre>
   );
 };
 
 
-export const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs }) => {
-  if (outputs.length === 0) {
+export const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs, streamingOutputs = [], staleTaskIds = [] }) => {
+  if (outputs.length === 0 && streamingOutputs.length === 0) {
     return (
       <div className="flex items-center justify-center h-40 text-gray-500 bg-gray-900/50 rounded-lg mt-6">
         Generated output will appear here.
@@ -81,14 +158,19 @@ export const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs }) => {
             <summary>
               <span className="summary-content">
                 Task: {taskOutput.taskDescription}
+                {staleTaskIds.includes(taskOutput.taskId) && <span className="ml-2 text-xs text-yellow-400">(stale)</span>}
               </span>
+              {taskOutput.verifications && taskOutput.verifications.length > 0 && (
+                <span className="ml-2 flex-shrink-0"><ScoreBadge score={taskOutput.verifications[taskOutput.verifications.length - 1].score} /></span>
+              )}
               <svg className="summary-chevron h-5 w-5 text-gray-400" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
                   <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
               </svg>
             </summary>
             <div className="task-output-details-body">
               <div className="pt-2">
-                {renderOutput(taskOutput.output)}
+                {taskOutput.toolCalls && <ToolCallList calls={taskOutput.toolCalls} />}
+                {renderOutput(taskOutput.output, taskOutput.citations)}
               </div>
               {taskOutput.citations.length > 0 && (
                 <div className="mt-4 pt-3 border-t border-gray-700">
@@ -100,6 +182,32 @@ export const OutputDisplay: React.FC<OutputDisplayProps> = ({ outputs }) => {
                   </div>
                 </div>
               )}
+              {taskOutput.verifications && taskOutput.verifications.length > 0 && <VerificationList verifications={taskOutput.verifications} />}
+              {(taskOutput.producedBy || taskOutput.promptTemplates) && (
+                <p className="mt-3 text-xs text-gray-500">
+                  {taskOutput.producedBy && <>Generated by {taskOutput.producedBy.provider} · {taskOutput.producedBy.model}</>}
+                  {taskOutput.producedBy && taskOutput.promptTemplates && ' · '}
+                  {taskOutput.promptTemplates && <>Prompts: {taskOutput.promptTemplates.join(', ')}</>}
+                </p>
+              )}
+            </div>
+          </details>
+        ))}
+        {streamingOutputs.map(streamingOutput => (
+          <details key={`streaming-${streamingOutput.taskId}`} className="task-output-details" open>
+            <summary>
+              <span className="summary-content">
+                Task: {streamingOutput.taskDescription}
+              </span>
+              <span className="text-xs text-blue-300/80 italic flex-shrink-0 ml-2">Generating...</span>
+            </summary>
+            <div className="task-output-details-body">
+              <div className="pt-2">
+                {streamingOutput.toolCalls && streamingOutput.toolCalls.length > 0 && <ToolCallList calls={streamingOutput.toolCalls} />}
+                <pre className="whitespace-pre-wrap font-mono text-sm text-gray-200 bg-gray-900/50 p-3 rounded-md overflow-x-auto">
+                  <code>{streamingOutput.text}</code><span className="animate-pulse text-blue-400">▍</span>
+                </pre>
+              </div>
             </div>
           </details>
         ))}
@@ -0,0 +1,33 @@
+import React from 'react';
+
+interface ParallelTasksInputProps {
+  maxParallelTasks: number;
+  setMaxParallelTasks: (maxParallelTasks: number) => void;
+  disabled: boolean;
+}
+
+const MAX_PARALLEL_TASKS_LIMIT = 8;
+
+// How many tasks whose dependencies have completed may run at the same time; 1 runs the plan one task after another.
+export const ParallelTasksInput: React.FC<ParallelTasksInputProps> = ({ maxParallelTasks, setMaxParallelTasks, disabled }) => {
+  return (
+    <div className="flex items-center gap-3">
+      <label htmlFor="parallel-tasks-input" className="text-sm font-medium text-gray-300">
+        Tasks running in parallel
+      </label>
+      <input
+        id="parallel-tasks-input"
+        type="number"
+        min={1}
+        max={MAX_PARALLEL_TASKS_LIMIT}
+        value={maxParallelTasks}
+        onChange={(e) => {
+          const value = parseInt(e.target.value, 10);
+          if (!isNaN(value)) setMaxParallelTasks(Math.min(MAX_PARALLEL_TASKS_LIMIT, Math.max(1, value)));
+        }}
+        disabled={disabled}
+        className="w-20 p-2 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200 disabled:opacity-50"
+      />
+    </div>
+  );
+};
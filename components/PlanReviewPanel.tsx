@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+
+interface PlanReviewPanelProps {
+  onExecute: () => void;
+  onRegenerate: (feedback: string) => void;
+  isRegenerating: boolean;
+  // Why the edited plan cannot be executed yet.
+  issues: string[];
+}
+
+// Shown below the editable plan while a run waits for it to be approved.
+export const PlanReviewPanel: React.FC<PlanReviewPanelProps> = ({ onExecute, onRegenerate, isRegenerating, issues }) => {
+  const [feedback, setFeedback] = useState('');
+
+  return (
+    <div className="mt-4 bg-gray-800 rounded-lg p-4 border border-blue-500/40">
+      <p className="text-sm text-gray-300 mb-3">
+        Edit, reorder, remove or add tasks above, or describe what should change and regenerate the plan. Nothing is executed until you click Execute.
+      </p>
+      <textarea
+        value={feedback}
+        onChange={(e) => setFeedback(e.target.value)}
+        disabled={isRegenerating}
+        rows={2}
+        placeholder="e.g., Merge the two research tasks and add a final proofreading step"
+        className="w-full p-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200 disabled:opacity-50"
+      />
+      {issues.length > 0 && (
+        <ul className="mt-2 text-xs text-red-400 list-disc pl-5">
+          {issues.map((issue, index) => <li key={index}>{issue}</li>)}
+        </ul>
+      )}
+      <div className="mt-3 flex flex-wrap justify-end gap-2">
+        <button
+          onClick={() => onRegenerate(feedback)}
+          disabled={isRegenerating}
+          className="px-4 py-2 text-sm font-semibold rounded-lg text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+        >
+          {isRegenerating ? 'Regenerating...' : 'Regenerate plan'}
+        </button>
+        <button
+          onClick={onExecute}
+          disabled={isRegenerating}
+          className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          Execute
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface PlanReviewToggleProps {
+  reviewPlan: boolean;
+  setReviewPlan: (reviewPlan: boolean) => void;
+  disabled: boolean;
+}
+
+// Pauses each run after planning so the plan can be edited or regenerated before any task is executed.
+export const PlanReviewToggle: React.FC<PlanReviewToggleProps> = ({ reviewPlan, setReviewPlan, disabled }) => {
+  const toggleClasses = reviewPlan ? 'bg-blue-600' : 'bg-gray-600';
+  const dotClasses = reviewPlan ? 'translate-x-5' : 'translate-x-0';
+
+  return (
+    <div>
+      <label htmlFor="plan-review-toggle" className={`flex items-center ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}>
+        <div className="relative">
+          <input
+            type="checkbox"
+            id="plan-review-toggle"
+            className="sr-only"
+            checked={reviewPlan}
+            onChange={() => setReviewPlan(!reviewPlan)}
+            disabled={disabled}
+          />
+          <div className={`block w-11 h-6 rounded-full transition-colors duration-200 ${toggleClasses}`}></div>
+          <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform duration-200 ${dotClasses}`}></div>
+        </div>
+        <div className="ml-3 text-sm font-medium text-gray-300">
+          Review and edit the plan before executing it
+        </div>
+      </label>
+    </div>
+  );
+};
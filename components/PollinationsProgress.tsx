@@ -6,9 +6,11 @@ interface PollinationsProgressProps {
   statusText: string;
   docChunks?: number;
   auxChunks?: number;
+  // Set while a rate-limited or failed request is waiting to be retried.
+  retryNotice?: string | null;
 }
 
-export const PollinationsProgress: React.FC<PollinationsProgressProps> = ({ completedCalls, totalCalls, statusText, docChunks, auxChunks }) => {
+export const PollinationsProgress: React.FC<PollinationsProgressProps> = ({ completedCalls, totalCalls, statusText, docChunks, auxChunks, retryNotice }) => {
   // Use the overall totalCalls for percentage calculation to ensure stability
   const percentage = totalCalls > 0 ? Math.min(100, Math.round((completedCalls / totalCalls) * 100)) : 0;
   
@@ -36,8 +38,11 @@ export const PollinationsProgress: React.FC<PollinationsProgressProps> = ({ comp
           style={{ width: `${percentage}%` }}
         ></div>
       </div>
-      <div className="text-right text-xs text-gray-400 mt-1 font-mono">
-        {Math.min(completedCalls, totalCalls)} / {totalCalls} API Calls
+      <div className="flex justify-between items-center gap-2 text-xs mt-1">
+        <span className="text-yellow-300/90 truncate">{retryNotice}</span>
+        <span className="text-gray-400 font-mono flex-shrink-0">
+          {Math.min(completedCalls, totalCalls)} / {totalCalls} API Calls
+        </span>
       </div>
     </div>
   );
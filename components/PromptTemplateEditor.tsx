@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { PromptOverrides, PromptTemplateId, getDefaultTemplate, listDefaultTemplates } from '../services/promptTemplates';
+
+interface PromptTemplateEditorProps {
+  overrides: PromptOverrides;
+  setOverrides: (overrides: PromptOverrides) => void;
+  disabled: boolean;
+}
+
+// Edits the prompt templates every provider renders; saved overrides replace the default text.
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ overrides, setOverrides, disabled }) => {
+  const templates = listDefaultTemplates();
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('execution');
+  const template = getDefaultTemplate(selectedId);
+  const current = overrides[selectedId] ?? { system: template.system, prompt: template.prompt };
+  const [draft, setDraft] = useState(current);
+  const isDirty = draft.system !== current.system || draft.prompt !== current.prompt;
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    const next = getDefaultTemplate(id);
+    setSelectedId(id);
+    setDraft(overrides[id] ?? { system: next.system, prompt: next.prompt });
+  };
+
+  const handleSave = () => {
+    if (draft.system === template.system && draft.prompt === template.prompt) {
+      handleReset();
+      return;
+    }
+    setOverrides({ ...overrides, [selectedId]: draft });
+  };
+
+  const handleReset = () => {
+    const next = { ...overrides };
+    delete next[selectedId];
+    setOverrides(next);
+    setDraft({ system: template.system, prompt: template.prompt });
+  };
+
+  const variables = selectedId === 'output-formats' ? template.variables : [...template.variables, 'outputFormats'];
+  const textareaClasses = 'w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-xs font-mono text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+
+  return (
+    <details className="bg-gray-900/50 rounded-lg">
+      <summary className="p-3 cursor-pointer text-sm font-medium text-gray-300">
+        Prompt Templates{Object.keys(overrides).length > 0 && ` (${Object.keys(overrides).length} customized)`}
+      </summary>
+      <div className="p-3 pt-0 space-y-2">
+        <select
+          value={selectedId}
+          onChange={(e) => selectTemplate(e.target.value as PromptTemplateId)}
+          disabled={disabled}
+          className="w-full p-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+        >
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>
+              {t.id}{overrides[t.id] ? ' (customized)' : ''}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-400">
+          {template.description} Variables: {variables.map(v => `{{${v}}}`).join(', ') || 'none'}.
+          Wrap text in {'{{#name}}...{{/name}}'} to include it only when the variable is set.
+        </p>
+        {selectedId !== 'output-formats' && (
+          <>
+            <label className="block text-xs text-gray-400">System</label>
+            <textarea
+              value={draft.system}
+              onChange={(e) => setDraft({ ...draft, system: e.target.value })}
+              disabled={disabled}
+              rows={6}
+              className={textareaClasses}
+            />
+          </>
+        )}
+        <label className="block text-xs text-gray-400">{selectedId === 'output-formats' ? 'Rules' : 'Prompt'}</label>
+        <textarea
+          value={draft.prompt}
+          onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+          disabled={disabled}
+          rows={10}
+          className={textareaClasses}
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={disabled || !isDirty}
+            className="px-3 py-1 text-sm text-blue-400 hover:text-blue-300 hover:bg-gray-700 rounded-md disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            onClick={handleReset}
+            disabled={disabled || !overrides[selectedId]}
+            className="px-3 py-1 text-sm text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-md disabled:opacity-50"
+          >
+            Reset to default
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
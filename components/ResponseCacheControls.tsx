@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+
+interface ResponseCacheControlsProps {
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  bypass: boolean;
+  setBypass: (bypass: boolean) => void;
+  onClear: () => Promise<void>;
+  disabled: boolean;
+}
+
+// Turns the persistent response cache on or off, and lets the next run refresh its responses instead of reusing them.
+export const ResponseCacheControls: React.FC<ResponseCacheControlsProps> = ({ enabled, setEnabled, bypass, setBypass, onClear, disabled }) => {
+  const [clearState, setClearState] = useState<'idle' | 'clearing' | 'cleared'>('idle');
+
+  const handleClear = async () => {
+    setClearState('clearing');
+    try {
+      await onClear();
+      setClearState('cleared');
+    } catch (err) {
+      console.error('Could not clear the response cache:', err);
+      setClearState('idle');
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        Response Cache
+      </label>
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} disabled={disabled} />
+          Reuse responses to identical requests
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={bypass} onChange={(e) => setBypass(e.target.checked)} disabled={disabled || !enabled} />
+          Bypass cache for the next run
+        </label>
+        <button
+          onClick={handleClear}
+          disabled={disabled || clearState === 'clearing'}
+          className="px-3 py-1 text-sm text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-md disabled:opacity-50"
+        >
+          {clearState === 'cleared' ? 'Cache cleared' : 'Clear cache'}
+        </button>
+      </div>
+      {bypass && enabled && (
+        <p className="mt-1 text-xs text-gray-400">Every request goes to the provider; the fresh responses replace the cached ones.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { SavedRun } from '../services/runStore';
+
+interface ResumeRunBannerProps {
+  run: SavedRun;
+  onResume: () => void;
+  onDiscard: () => void;
+  disabled: boolean;
+}
+
+// Offers to continue the last run that did not finish. Completed tasks are kept; the run picks up at the
+// tasks that failed or never ran.
+export const ResumeRunBanner: React.FC<ResumeRunBannerProps> = ({ run, onResume, onDiscard, disabled }) => {
+  const progress = run.tasks.length > 0
+    ? `${run.outputs.length} of ${run.tasks.length} tasks done`
+    : 'not planned yet';
+
+  return (
+    <div className="mt-6 p-4 bg-gray-800 border border-yellow-600/50 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold text-yellow-200">Unfinished run ({progress})</p>
+        <p className="text-sm text-gray-300 truncate" title={run.goal}>{run.goal}</p>
+        {run.error && <p className="text-xs text-gray-400 truncate" title={run.error}>{run.error}</p>}
+      </div>
+      <div className="flex gap-2 flex-shrink-0">
+        <button
+          onClick={onResume}
+          disabled={disabled}
+          className="px-4 py-2 text-sm font-semibold rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          Resume
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={disabled}
+          className="px-4 py-2 text-sm font-semibold rounded-lg text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+        >
+          Discard
+        </button>
+      </div>
+    </div>
+  );
+};
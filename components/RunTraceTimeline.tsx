@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { LLMCallTrace } from '../types';
+
+interface RunTraceTimelineProps {
+  trace: LLMCallTrace[];
+}
+
+const STAGE_LABELS: { [stage in LLMCallTrace['stage']]: string } = {
+  planning: 'Planning',
+  execution: 'Execution',
+  synthesis: 'Synthesis',
+};
+
+const formatLatency = (ms: number) => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const labelOf = (call: LLMCallTrace) => {
+  const parts = [STAGE_LABELS[call.stage]];
+  if (call.taskDescription || call.taskId) parts.push(call.taskDescription || call.taskId!);
+  if (call.chunk) parts.push(`doc chunk ${call.chunk.doc + 1}, aux chunk ${call.chunk.aux + 1}`);
+  return parts.join(' · ');
+};
+
+const barColor = (call: LLMCallTrace) => {
+  if (call.error) return 'bg-red-500';
+  return call.retries.length > 0 ? 'bg-yellow-500' : 'bg-blue-500';
+};
+
+const CallDetails: React.FC<{ call: LLMCallTrace }> = ({ call }) => (
+  <div className="mt-3 p-3 bg-gray-800 rounded-md text-xs space-y-2">
+    <p className="text-gray-300">
+      {call.provider} · {call.model} · started {new Date(call.startedAt).toLocaleTimeString()} · {formatLatency(call.latencyMs)}
+    </p>
+    {call.retries.length > 0 && (
+      <ul className="text-yellow-300/90 list-disc list-inside">
+        {call.retries.map((retry, index) => (
+          <li key={index}>Retried after {formatLatency(retry.delayMs)}: {retry.reason}</li>
+        ))}
+      </ul>
+    )}
+    {call.error && <p className="text-red-300">Error: {call.error}</p>}
+    <div>
+      <h5 className="font-bold text-gray-400 uppercase mb-1">Prompt</h5>
+      <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words bg-gray-900 p-2 rounded text-gray-300">{call.prompt}</pre>
+    </div>
+    {call.response !== undefined && (
+      <div>
+        <h5 className="font-bold text-gray-400 uppercase mb-1">Raw response</h5>
+        <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words bg-gray-900 p-2 rounded text-gray-300">{call.response}</pre>
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Every LLM call of a run on a shared time axis, in the order they started. A call is inspected by clicking it.
+ */
+export const RunTraceTimeline: React.FC<RunTraceTimelineProps> = ({ trace }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+
+  if (trace.length === 0) {
+    return null;
+  }
+
+  const start = Math.min(...trace.map(call => call.startedAt));
+  const end = Math.max(...trace.map(call => call.startedAt + call.latencyMs));
+  const span = Math.max(end - start, 1);
+  const failed = trace.filter(call => call.error).length;
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `trace-${new Date(start).toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <details className="mt-4 bg-gray-900/50 rounded-lg">
+      <summary className="px-4 py-2 cursor-pointer text-sm text-gray-300">
+        Trace: {trace.length} LLM calls over {formatLatency(span)}{failed > 0 && ` · ${failed} failed`}
+      </summary>
+      <div className="px-4 pb-4">
+        <div className="flex justify-end mb-2">
+          <button onClick={handleDownload} className="px-3 py-1 text-sm rounded-md text-gray-300 hover:bg-gray-700">
+            Download JSON
+          </button>
+        </div>
+        <div className="space-y-1">
+          {trace.map((call, index) => (
+            <button
+              key={index}
+              onClick={() => setSelected(selected === index ? null : index)}
+              className={`w-full flex items-center gap-3 text-left text-xs rounded px-1 py-0.5 ${selected === index ? 'bg-gray-700' : 'hover:bg-gray-800'}`}
+            >
+              <span className="w-64 shrink-0 truncate text-gray-300" title={labelOf(call)}>{labelOf(call)}</span>
+              <span className="relative flex-1 h-3 bg-gray-800 rounded">
+                <span
+                  className={`absolute top-0 h-3 rounded ${barColor(call)}`}
+                  style={{ left: `${((call.startedAt - start) / span) * 100}%`, width: `max(2px, ${(call.latencyMs / span) * 100}%)` }}
+                />
+              </span>
+              <span className="w-16 shrink-0 text-right text-gray-400">{formatLatency(call.latencyMs)}</span>
+            </button>
+          ))}
+        </div>
+        {selected !== null && trace[selected] && <CallDetails call={trace[selected]} />}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { NATIVE_SEARCH, SearchBackendConfig, getSearchBackendDefinition, listSearchBackends, searchBackendConfigIssue } from '../services/webSearch';
+
+interface SearchBackendSelectorProps {
+  config: SearchBackendConfig;
+  setConfig: (config: SearchBackendConfig) => void;
+  disabled: boolean;
+}
+
+// Picks where "use search" gets its results: the provider's built-in search or a search backend.
+export const SearchBackendSelector: React.FC<SearchBackendSelectorProps> = ({ config, setConfig, disabled }) => {
+  const definition = getSearchBackendDefinition(config.backend);
+  const issue = searchBackendConfigIssue(config);
+
+  const handleBackendChange = (backend: string) => {
+    setConfig({ backend, baseUrl: getSearchBackendDefinition(backend)?.defaultBaseUrl });
+  };
+
+  return (
+    <div>
+      <label htmlFor="search-backend-select" className="block text-sm font-medium text-gray-300 mb-2">
+        Search Backend
+      </label>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <select
+          id="search-backend-select"
+          value={config.backend}
+          onChange={(e) => handleBackendChange(e.target.value)}
+          disabled={disabled}
+          className="p-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200 disabled:opacity-50"
+        >
+          <option value={NATIVE_SEARCH}>Provider's built-in search</option>
+          {listSearchBackends().map(backend => (
+            <option key={backend.id} value={backend.id}>{backend.name}</option>
+          ))}
+        </select>
+        {definition?.baseUrl === 'required' && (
+          <input
+            type="url"
+            aria-label="Search backend URL"
+            value={config.baseUrl ?? ''}
+            onChange={(e) => setConfig({ ...config, baseUrl: e.target.value })}
+            disabled={disabled}
+            placeholder={definition.baseUrlPlaceholder}
+            className="flex-grow p-3 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition duration-200 disabled:opacity-50"
+          />
+        )}
+      </div>
+      {issue && <p className="mt-1 text-xs text-red-400">{issue}</p>}
+      {definition && (
+        <p className="mt-1 text-xs text-gray-400">Results are added to each task as context and cited with numbered markers, whichever provider runs the task.</p>
+      )}
+    </div>
+  );
+};
@@ -5,21 +5,12 @@ interface SearchToggleProps {
   useSearch: boolean;
   setUseSearch: (useSearch: boolean) => void;
   disabled: boolean;
-  provider: 'gemini' | 'openrouter' | 'pollinations';
+  labelText: string;
 }
 
-export const SearchToggle: React.FC<SearchToggleProps> = ({ useSearch, setUseSearch, disabled, provider }) => {
+export const SearchToggle: React.FC<SearchToggleProps> = ({ useSearch, setUseSearch, disabled, labelText }) => {
   const toggleClasses = useSearch ? 'bg-blue-600' : 'bg-gray-600';
   const dotClasses = useSearch ? 'translate-x-5' : 'translate-x-0';
-  
-  let labelText = "Use web search for up-to-date information";
-  if (provider === 'gemini') {
-    labelText = "Use Google Search for up-to-date information";
-  } else if (provider === 'openrouter') {
-    labelText = "Use OpenRouter Web Search for up-to-date information";
-  } else if (provider === 'pollinations') {
-    labelText = "Use search-enabled model for up-to-date information";
-  }
 
   return (
     <div>
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { ProviderConfig, listProviders } from '../services/llmService';
+import { useProviderModels } from './useProviderModels';
+import { ModelRoute, RoutingPreset, RoutingStage, StageRouting } from '../types';
+
+interface StageRoutingEditorProps {
+  routing: StageRouting;
+  setRouting: (routing: StageRouting) => void;
+  presets: RoutingPreset[];
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+  providerConfigs: { [provider: string]: ProviderConfig };
+  disabled: boolean;
+}
+
+const STAGES: { stage: RoutingStage; label: string }[] = [
+  { stage: 'planning', label: 'Planning' },
+  { stage: 'execution', label: 'Execution' },
+  { stage: 'synthesis', label: 'Synthesis' },
+  { stage: 'scoring', label: 'Chunk scoring' },
+];
+
+// Picks a provider and model per stage; stages left on "Selected model" use the main selection above.
+export const StageRoutingEditor: React.FC<StageRoutingEditorProps> = ({ routing, setRouting, presets, onSavePreset, onDeletePreset, providerConfigs, disabled }) => {
+  const [presetName, setPresetName] = useState('');
+  const providers = listProviders();
+  // Model suggestions for the providers that are routed to.
+  const routed = Object.values(routing).filter((route): route is ModelRoute => !!route);
+  const modelLists = useProviderModels(routed.map(r => r.provider), providerConfigs, 'stage');
+
+  const updateStage = (stage: RoutingStage, route: ModelRoute | undefined) => {
+    const next = { ...routing };
+    if (route) {
+      next[stage] = route;
+    } else {
+      delete next[stage];
+    }
+    setRouting(next);
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = presets.find(p => p.name === name);
+    if (preset) {
+      setRouting({ ...preset.routing });
+      setPresetName(preset.name);
+    }
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (name) onSavePreset(name);
+  };
+
+  const inputClasses = 'p-2 bg-gray-700 border border-gray-600 rounded-lg text-sm text-gray-200 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50';
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        Per-Stage Models (Optional)
+      </label>
+      <p className="text-xs text-gray-400 mb-2">
+        Run planning, execution and synthesis on different models. Chunk scoring only applies when the stage's provider splits large inputs, and must use that same provider.
+      </p>
+      <div className="space-y-2">
+        {STAGES.map(({ stage, label }) => {
+          const route = routing[stage];
+          return (
+            <div key={stage} className="flex items-center gap-2">
+              <span className="text-xs text-gray-400 w-24 shrink-0">{label}</span>
+              <select
+                value={route?.provider ?? ''}
+                onChange={(e) => updateStage(stage, e.target.value ? { provider: e.target.value, model: '' } : undefined)}
+                disabled={disabled}
+                className={inputClasses}
+              >
+                <option value="">Selected model</option>
+                {providers.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              {route && (
+                <>
+                  <input
+                    type="text"
+                    list={`stage-models-${stage}`}
+                    value={route.model}
+                    onChange={(e) => updateStage(stage, { ...route, model: e.target.value })}
+                    disabled={disabled}
+                    placeholder="Model id"
+                    className={`flex-grow min-w-0 ${inputClasses}`}
+                  />
+                  <datalist id={`stage-models-${stage}`}>
+                    {(modelLists[route.provider] ?? []).map(m => (
+                      <option key={m.id} value={m.id}>{m.name}</option>
+                    ))}
+                  </datalist>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <select
+          value=""
+          onChange={(e) => applyPreset(e.target.value)}
+          disabled={disabled || presets.length === 0}
+          className={inputClasses}
+        >
+          <option value="">{presets.length > 0 ? 'Load preset...' : 'No saved presets'}</option>
+          {presets.map(p => (
+            <option key={p.name} value={p.name}>{p.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          disabled={disabled}
+          placeholder="Preset name"
+          className={`w-40 ${inputClasses}`}
+        />
+        <button
+          onClick={handleSave}
+          disabled={disabled || !presetName.trim()}
+          className="px-3 py-1 text-sm text-blue-400 hover:text-blue-300 hover:bg-gray-700 rounded-md disabled:opacity-50"
+        >
+          Save preset
+        </button>
+        {presets.some(p => p.name === presetName.trim()) && (
+          <button
+            onClick={() => onDeletePreset(presetName.trim())}
+            disabled={disabled}
+            className="px-3 py-1 text-sm text-gray-400 hover:text-red-400 hover:bg-gray-700 rounded-md disabled:opacity-50"
+          >
+            Delete preset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
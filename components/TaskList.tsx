@@ -1,37 +1,265 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Task, TaskStatus } from '../types';
 import { StatusIcon } from './icons';
+import { dependenciesOf, taskDepths } from '../services/taskGraph';
+import { subtasksOf } from '../services/subtasks';
 
 interface TaskListProps {
   tasks: Task[];
-  completedOutputsCount: number;
+  // Makes the plan editable; called with the edited tasks.
+  onChange?: (tasks: Task[]) => void;
+  // Offers to run a finished task again, with optional extra instructions.
+  onRerun?: (task: Task, instructions: string) => void;
+  disabled?: boolean;
 }
 
-export const TaskList: React.FC<TaskListProps> = ({ tasks, completedOutputsCount }) => {
+const newTaskId = (tasks: Task[]): string => {
+  const ids = new Set(tasks.map(task => task.id));
+  let n = tasks.length + 1;
+  while (ids.has(`task-${n}`)) n++;
+  return `task-${n}`;
+};
+
+// Neighbouring tasks cannot swap places when one depends on the other, so dependencies always point up the list.
+const canSwap = (upper: Task | undefined, lower: Task | undefined): boolean =>
+  !!upper && !!lower && !dependenciesOf(lower).includes(upper.id);
+
+const moveTask = (tasks: Task[], index: number, offset: -1 | 1): Task[] => {
+  const moved = [...tasks];
+  [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+  return moved;
+};
+
+const removeTask = (tasks: Task[], index: number): Task[] => {
+  const removedId = tasks[index].id;
+  return tasks
+    .filter((_, i) => i !== index)
+    .map(task => dependenciesOf(task).includes(removedId) ? { ...task, dependsOn: dependenciesOf(task).filter(id => id !== removedId) } : task);
+};
+
+const insertTask = (tasks: Task[], index: number): Task[] => [
+  ...tasks.slice(0, index),
+  { id: newTaskId(tasks), description: '', status: TaskStatus.PENDING, dependsOn: [] },
+  ...tasks.slice(index),
+];
+
+const toggleDependency = (tasks: Task[], index: number, dependencyId: string): Task[] => tasks.map((task, i) => {
+  if (i !== index) return task;
+  const dependsOn = dependenciesOf(task);
+  return { ...task, dependsOn: dependsOn.includes(dependencyId) ? dependsOn.filter(id => id !== dependencyId) : [...dependsOn, dependencyId] };
+});
+
+const editButtonClasses = 'px-2 py-1 text-xs text-gray-400 hover:text-gray-200 hover:bg-gray-700 rounded disabled:opacity-30 disabled:hover:bg-transparent';
+
+// The plan under review: descriptions are editable, tasks can be moved, removed and inserted, and each task
+// can depend on any task above it. A planned dependency on a task further down can only be removed.
+const EditableTaskList: React.FC<{ tasks: Task[]; onChange: (tasks: Task[]) => void; disabled?: boolean }> = ({ tasks, onChange, disabled }) => (
+  <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+    {tasks.map((task, index) => (
+      <div key={task.id} className="p-2 bg-gray-900/50 rounded-md">
+        <div className="flex items-start gap-2">
+          <span className="text-sm text-gray-500 pt-2 w-8 flex-shrink-0">#{index + 1}</span>
+          <textarea
+            value={task.description}
+            onChange={(e) => onChange(tasks.map((t, i) => i === index ? { ...t, description: e.target.value } : t))}
+            disabled={disabled}
+            rows={2}
+            aria-label={`Task ${index + 1} description`}
+            className="flex-1 p-2 text-sm bg-gray-700 border border-gray-600 rounded-md text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+          />
+          <div className="flex flex-col flex-shrink-0">
+            <button onClick={() => onChange(moveTask(tasks, index, -1))} disabled={disabled || !canSwap(tasks[index - 1], task)} className={editButtonClasses} title="Move up">↑</button>
+            <button onClick={() => onChange(moveTask(tasks, index, 1))} disabled={disabled || !canSwap(task, tasks[index + 1])} className={editButtonClasses} title="Move down">↓</button>
+          </div>
+          <div className="flex flex-col flex-shrink-0">
+            <button onClick={() => onChange(insertTask(tasks, index + 1))} disabled={disabled} className={editButtonClasses} title="Insert a task below">+</button>
+            <button onClick={() => onChange(removeTask(tasks, index))} disabled={disabled} className={`${editButtonClasses} hover:text-red-400`} title="Remove task">✕</button>
+          </div>
+        </div>
+        {tasks.some((t, i) => i < index || dependenciesOf(task).includes(t.id)) && (
+          <div className="mt-2 pl-10 flex flex-wrap items-center gap-1 text-xs text-gray-400">
+            <span>Depends on</span>
+            {tasks.map((dependency, dependencyIndex) => {
+              const selected = dependenciesOf(task).includes(dependency.id);
+              if (dependencyIndex >= index && !selected) return null;
+              return (
+                <button
+                  key={dependency.id}
+                  onClick={() => onChange(toggleDependency(tasks, index, dependency.id))}
+                  disabled={disabled}
+                  title={dependency.description}
+                  className={`px-1.5 rounded ${selected ? 'bg-blue-700 text-white' : 'bg-gray-700 text-gray-400 hover:text-gray-200'} disabled:opacity-50`}
+                >
+                  #{dependencyIndex + 1}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    ))}
+    <button onClick={() => onChange(insertTask(tasks, tasks.length))} disabled={disabled} className="w-full py-2 text-sm text-gray-400 hover:text-gray-200 hover:bg-gray-700 rounded-md border border-dashed border-gray-600 disabled:opacity-50">
+      Add task
+    </button>
+  </div>
+);
+
+// What a task is doing right now, as shown next to it. Pending tasks wait for their dependencies or for a free slot.
+const stateLabel = (task: Task, statusById: Map<string, TaskStatus>): { text: string; className: string } | null => {
+  switch (task.status) {
+    case TaskStatus.IN_PROGRESS:
+      return { text: 'Running', className: 'text-blue-300' };
+    case TaskStatus.BLOCKED:
+      return { text: 'Blocked', className: 'text-yellow-400' };
+    case TaskStatus.STALE:
+      return { text: 'Stale', className: 'text-yellow-400' };
+    case TaskStatus.PENDING:
+      return dependenciesOf(task).some(id => statusById.get(id) !== TaskStatus.COMPLETED)
+        ? { text: 'Waiting', className: 'text-gray-400' }
+        : { text: 'Ready', className: 'text-gray-300' };
+    default:
+      return null;
+  }
+};
+
+// A task of the plan can be re-run once it has finished, as long as every task it depends on has an up-to-date
+// output. Sub-tasks are only run as part of their parent.
+const canRerun = (task: Task, statusById: Map<string, TaskStatus>): boolean =>
+  !task.parentId
+  && [TaskStatus.COMPLETED, TaskStatus.STALE, TaskStatus.FAILED].includes(task.status)
+  && dependenciesOf(task).every(id => statusById.get(id) === TaskStatus.COMPLETED);
+
+// Tasks are numbered in plan order, sub-tasks after their parent's number, e.g. #2.1.
+const taskNumbers = (tasks: Task[]): Map<string, string> => {
+  const numbers = new Map<string, string>();
+  const visit = (parentId: string | undefined, prefix: string) =>
+    tasks.filter(task => task.parentId === parentId).forEach((task, index) => {
+      const number = `${prefix}${index + 1}`;
+      numbers.set(task.id, number);
+      visit(task.id, `${number}.`);
+    });
+  visit(undefined, '');
+  return numbers;
+};
+
+export const TaskList: React.FC<TaskListProps> = ({ tasks, onChange, onRerun, disabled }) => {
+  const [rerunTaskId, setRerunTaskId] = useState<string | null>(null);
+  const [instructions, setInstructions] = useState('');
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  if (onChange) {
+    return (
+      <div className="mt-6">
+        <h3 className="text-lg font-semibold text-gray-200 mb-3">Task Plan (review)</h3>
+        <EditableTaskList tasks={tasks} onChange={onChange} disabled={disabled} />
+      </div>
+    );
+  }
   if (tasks.length === 0) {
     return null;
   }
 
+  const depths = taskDepths(tasks);
+  const statusById = new Map<string, TaskStatus>(tasks.map(task => [task.id, task.status]));
+  const byId = new Map<string, Task>(tasks.map(task => [task.id, task]));
+  const numberById = taskNumbers(tasks);
+
+  const toggleCollapsed = (taskId: string) => setCollapsedIds(prev => {
+    const next = new Set(prev);
+    if (!next.delete(taskId)) next.add(taskId);
+    return next;
+  });
+
+  // Renders a task followed by its sub-tasks, which can be collapsed.
+  const renderTask = (task: Task): React.ReactNode => {
+    const dependencies = dependenciesOf(task).filter(id => numberById.has(id));
+    const subtasks = subtasksOf(tasks, task.id);
+    const isCollapsed = collapsedIds.has(task.id);
+    const state = stateLabel(task, statusById);
+    return (
+      <div
+        key={task.id}
+        // Tasks are indented by their level in the graph; tasks on the same level can run in parallel.
+        style={{ marginLeft: `${Math.min(depths.get(task.id) ?? 0, 6) * 1.25}rem` }}
+      >
+        <div className="p-2 bg-gray-900/50 rounded-md">
+          <div className="flex items-center gap-4">
+            <div className="flex-shrink-0">
+                <StatusIcon status={task.status} />
+            </div>
+            <p className="text-sm text-gray-300 flex-1">
+              <span className="text-gray-500 mr-2">#{numberById.get(task.id)}</span>
+              {task.description}
+            </p>
+            {task.complex && subtasks.length === 0 && (
+              <span className="text-xs flex-shrink-0 text-purple-300" title="Split into sub-tasks when it runs">Complex</span>
+            )}
+            {subtasks.length > 0 && (
+              <button
+                onClick={() => toggleCollapsed(task.id)}
+                aria-expanded={!isCollapsed}
+                className="text-xs flex-shrink-0 text-gray-400 hover:text-gray-200"
+              >
+                {isCollapsed ? '▸' : '▾'} {subtasks.length} sub-tasks
+              </button>
+            )}
+            {state && <span className={`text-xs flex-shrink-0 ${state.className}`}>{state.text}</span>}
+            {onRerun && rerunTaskId !== task.id && canRerun(task, statusById) && (
+              <button onClick={() => { setRerunTaskId(task.id); setInstructions(''); }} disabled={disabled} className={editButtonClasses} title="Run this task again">
+                Re-run
+              </button>
+            )}
+          </div>
+          {onRerun && rerunTaskId === task.id && (
+            <div className="mt-2 pl-9 flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                placeholder="Extra instructions (optional)"
+                aria-label={`Extra instructions for task ${numberById.get(task.id)}`}
+                className="flex-1 min-w-0 p-2 text-sm bg-gray-700 border border-gray-600 rounded-md text-gray-200 placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                onClick={() => { setRerunTaskId(null); onRerun(task, instructions); }}
+                disabled={disabled}
+                className="px-3 py-2 text-xs font-semibold rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                Re-run
+              </button>
+              <button onClick={() => setRerunTaskId(null)} className={editButtonClasses}>Cancel</button>
+            </div>
+          )}
+          {dependencies.length > 0 && (
+            <div className="mt-2 pl-9 flex flex-wrap gap-1 text-xs text-gray-400">
+              <span>{task.status === TaskStatus.IN_PROGRESS ? 'Using the output of' : 'Depends on'}</span>
+              {dependencies.map(id => (
+                <span
+                  key={id}
+                  title={byId.get(id)?.description}
+                  className={`px-1.5 rounded ${statusById.get(id) === TaskStatus.COMPLETED ? 'bg-green-900/50 text-green-300' : 'bg-gray-700 text-gray-300'}`}
+                >
+                  #{numberById.get(id)}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+        {subtasks.length > 0 && !isCollapsed && (
+          <div className="mt-2 ml-4 pl-3 border-l border-gray-700 space-y-2">
+            {subtasks.map(renderTask)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="mt-6">
       <h3 className="text-lg font-semibold text-gray-200 mb-3">Task Plan</h3>
       <div className="bg-gray-800 rounded-lg p-4 space-y-3">
-        {tasks.map((task) => (
-          <div key={task.id} className="p-2 bg-gray-900/50 rounded-md">
-            <div className="flex items-center gap-4">
-              <div className="flex-shrink-0">
-                  <StatusIcon status={task.status} />
-              </div>
-              <p className="text-sm text-gray-300 flex-1">{task.description}</p>
-            </div>
-            {task.status === TaskStatus.IN_PROGRESS && completedOutputsCount > 0 && (
-              <div className="mt-2 pl-9 text-xs text-blue-300/80 italic">
-                Using context from {completedOutputsCount} previous task(s)...
-              </div>
-            )}
-          </div>
-        ))}
+        {tasks.filter(task => !task.parentId).map(renderTask)}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface ToolsToggleProps {
+  useTools: boolean;
+  setUseTools: (useTools: boolean) => void;
+  disabled: boolean;
+}
+
+// Lets tasks call the local tools (file reader, calculator, spreadsheet query, earlier task outputs) while they run.
+export const ToolsToggle: React.FC<ToolsToggleProps> = ({ useTools, setUseTools, disabled }) => {
+  const toggleClasses = useTools ? 'bg-blue-600' : 'bg-gray-600';
+  const dotClasses = useTools ? 'translate-x-5' : 'translate-x-0';
+
+  return (
+    <div>
+      <label htmlFor="tools-toggle" className={`flex items-center ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}>
+        <div className="relative">
+          <input
+            type="checkbox"
+            id="tools-toggle"
+            className="sr-only"
+            checked={useTools}
+            onChange={() => setUseTools(!useTools)}
+            disabled={disabled}
+          />
+          <div className={`block w-11 h-6 rounded-full transition-colors duration-200 ${toggleClasses}`}></div>
+          <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform duration-200 ${dotClasses}`}></div>
+        </div>
+        <div className="ml-3 text-sm font-medium text-gray-300">
+          Let tasks use tools (read files, calculate, query spreadsheets, look up earlier tasks)
+        </div>
+      </label>
+    </div>
+  );
+};
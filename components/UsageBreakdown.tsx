@@ -0,0 +1,82 @@
+import React from 'react';
+import { RunUsage, UsageTotals } from '../types';
+
+interface UsageBreakdownProps {
+  usage: RunUsage;
+  // Renders only the run totals on a single line, e.g. next to the progress bar.
+  compact?: boolean;
+}
+
+const formatTokens = (count: number) => count.toLocaleString();
+
+const formatCost = (totals: UsageTotals) => {
+  if (totals.calls > 0 && totals.unpricedCalls === totals.calls) return 'n/a';
+  const cost = totals.cost < 0.01 && totals.cost > 0 ? `$${totals.cost.toFixed(4)}` : `$${totals.cost.toFixed(2)}`;
+  // Some calls went to models without pricing, so the cost is a lower bound.
+  return totals.unpricedCalls > 0 ? `≥ ${cost}` : cost;
+};
+
+const UsageRow: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+  <tr className="border-t border-gray-700/60">
+    <td className="py-1 pr-3 text-gray-300 truncate max-w-xs" title={label}>{label}</td>
+    <td className="py-1 px-3 text-right text-gray-400">{totals.calls}</td>
+    <td className="py-1 px-3 text-right text-gray-400">{formatTokens(totals.promptTokens)}</td>
+    <td className="py-1 px-3 text-right text-gray-400">{formatTokens(totals.completionTokens)}</td>
+    <td className="py-1 pl-3 text-right text-gray-200">{formatCost(totals)}</td>
+  </tr>
+);
+
+const UsageTable: React.FC<{ title: string; rows: { label: string; totals: UsageTotals }[] }> = ({ title, rows }) => (
+  <div>
+    <h5 className="text-xs font-bold text-gray-400 uppercase mb-1">{title}</h5>
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="text-left font-medium pb-1"></th>
+          <th className="text-right font-medium px-3 pb-1">Calls</th>
+          <th className="text-right font-medium px-3 pb-1">Prompt</th>
+          <th className="text-right font-medium px-3 pb-1">Completion</th>
+          <th className="text-right font-medium pl-3 pb-1">Cost</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => <UsageRow key={row.label} label={row.label} totals={row.totals} />)}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const UsageBreakdown: React.FC<UsageBreakdownProps> = ({ usage, compact = false }) => {
+  const { total } = usage;
+  const summary = `${formatTokens(total.promptTokens + total.completionTokens)} tokens · ${formatCost(total)}`;
+
+  if (compact) {
+    return <span className="text-xs text-gray-400 whitespace-nowrap" title="Tokens and cost so far">{summary}</span>;
+  }
+
+  if (total.calls === 0) {
+    return null;
+  }
+
+  return (
+    <details className="mt-4 bg-gray-900/50 rounded-lg">
+      <summary className="px-4 py-2 cursor-pointer text-sm text-gray-300">
+        Usage: {summary} across {total.calls} API calls
+      </summary>
+      <div className="px-4 pb-4 space-y-4">
+        <UsageTable
+          title="By stage"
+          rows={[
+            { label: 'Planning', totals: usage.stages.planning },
+            { label: 'Task execution', totals: usage.stages.execution },
+            { label: 'Synthesis', totals: usage.stages.synthesis },
+          ]}
+        />
+        {usage.tasks.length > 0 && (
+          <UsageTable title="By task" rows={usage.tasks.map(t => ({ label: t.taskDescription || t.taskId, totals: t }))} />
+        )}
+        <UsageTable title="By model" rows={usage.models.map(m => ({ label: `${m.provider} · ${m.model}`, totals: m }))} />
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { MAX_VERIFICATION_SCORE } from '../services/taskVerifier';
+
+interface VerificationToggleProps {
+  verifyOutputs: boolean;
+  setVerifyOutputs: (verifyOutputs: boolean) => void;
+  threshold: number;
+  setThreshold: (threshold: number) => void;
+  disabled: boolean;
+}
+
+// Has every task output scored and critiqued, and retried with the critique when it scores below the threshold.
+export const VerificationToggle: React.FC<VerificationToggleProps> = ({ verifyOutputs, setVerifyOutputs, threshold, setThreshold, disabled }) => {
+  const toggleClasses = verifyOutputs ? 'bg-blue-600' : 'bg-gray-600';
+  const dotClasses = verifyOutputs ? 'translate-x-5' : 'translate-x-0';
+
+  return (
+    <div className="flex flex-wrap items-center gap-4">
+      <label htmlFor="verification-toggle" className={`flex items-center ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}`}>
+        <div className="relative">
+          <input
+            type="checkbox"
+            id="verification-toggle"
+            className="sr-only"
+            checked={verifyOutputs}
+            onChange={() => setVerifyOutputs(!verifyOutputs)}
+            disabled={disabled}
+          />
+          <div className={`block w-11 h-6 rounded-full transition-colors duration-200 ${toggleClasses}`}></div>
+          <div className={`dot absolute left-1 top-1 bg-white w-4 h-4 rounded-full transition-transform duration-200 ${dotClasses}`}></div>
+        </div>
+        <div className="ml-3 text-sm font-medium text-gray-300">
+          Verify each task output and retry it with the critique
+        </div>
+      </label>
+      {verifyOutputs && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="verification-threshold-input" className="text-sm text-gray-400">
+            when it scores below
+          </label>
+          <input
+            id="verification-threshold-input"
+            type="number"
+            min={1}
+            max={MAX_VERIFICATION_SCORE}
+            value={threshold}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!isNaN(value)) setThreshold(Math.min(MAX_VERIFICATION_SCORE, Math.max(1, value)));
+            }}
+            disabled={disabled}
+            className="w-16 p-1 bg-gray-700 border border-gray-600 rounded-lg text-gray-200 focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50"
+          />
+          <span className="text-sm text-gray-400">/ {MAX_VERIFICATION_SCORE}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import { ModelInfo, ProviderConfig, createProvider } from '../services/llmService';
+
+// Lists are kept per provider and config, so entering an API key or server URL loads the provider's models anew.
+const listKey = (provider: string, config: ProviderConfig | undefined) =>
+  JSON.stringify([provider, config?.apiKey ?? '', config?.baseUrl ?? '']);
+
+/**
+ * Model suggestions for `providers`, loaded when a provider first appears or its config changes. An empty or failed
+ * list is not kept: it is loaded again the next time the providers or their configs change.
+ * @returns The models per provider; empty while they load or if none could be loaded.
+ */
+export const useProviderModels = (
+  providers: string[],
+  providerConfigs: { [provider: string]: ProviderConfig },
+  label: string
+): { [provider: string]: ModelInfo[] } => {
+  const [lists, setLists] = useState<{ [key: string]: ModelInfo[] }>({});
+  const keys = [...new Set(providers)].map(provider => [provider, listKey(provider, providerConfigs[provider])]);
+
+  useEffect(() => {
+    let active = true;
+    for (const [provider, key] of keys) {
+      if (lists[key]?.length) continue;
+      createProvider(provider, providerConfigs[provider]).listModels()
+        .then(models => {
+          if (active && models.length > 0) setLists(prev => ({ ...prev, [key]: models }));
+        })
+        .catch(err => console.warn(`Could not load ${label} models for ${provider}:`, err));
+    }
+    return () => {
+      active = false;
+    };
+    // Keyed on the provider configs' content rather than their identity; `lists` only matters through them.
+  }, [JSON.stringify(keys)]);
+
+  return Object.fromEntries(keys.map(([provider, key]) => [provider, lists[key] ?? []]));
+};
@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AnthropicService } from './anthropicService';
+import { Task, TaskStatus } from '../types';
+
+interface ReceivedRequest {
+    method?: string;
+    url?: string;
+    headers: IncomingMessage['headers'];
+    body: any;
+}
+
+// A local stand-in for the Messages API: answers every request with the next queued reply.
+let server: Server;
+let baseUrl: string;
+let received: ReceivedRequest[] = [];
+let replies: ((res: ServerResponse) => void)[] = [];
+
+const json = (body: unknown, status = 200) => (res: ServerResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const eventStream = (events: { type: string; [key: string]: unknown }[]) => (res: ServerResponse) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.end(events.map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`).join(''));
+};
+
+const task: Task = { id: 'compare', description: 'Compare the two offers.', status: TaskStatus.PENDING };
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+            received.push({ method: req.method, url: req.url, headers: req.headers, body: body ? JSON.parse(body) : undefined });
+            const reply = replies.shift();
+            if (reply) reply(res);
+            else json({ type: 'error', error: { message: 'No reply queued.' } }, 400)(res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+    received = [];
+    replies = [];
+});
+
+describe('AnthropicService', () => {
+    it('sends a task to /v1/messages and reports its usage', async () => {
+        replies.push(json({ content: [{ type: 'text', text: 'Offer B is cheaper.' }], usage: { input_tokens: 40, output_tokens: 5 } }));
+        const onUsage = vi.fn();
+
+        const output = await new AnthropicService('test-key', `${baseUrl}/`).executeTask(
+            'claude-test', task, 'Pick an offer', [], [], false, { onUsage, system_prompt: 'Be brief.' });
+
+        expect(output).toMatchObject({ taskId: 'compare', output: 'Offer B is cheaper.' });
+        expect(onUsage).toHaveBeenCalledWith({ provider: 'anthropic', model: 'claude-test', promptTokens: 40, completionTokens: 5 });
+        const [request] = received;
+        expect(request.method).toBe('POST');
+        expect(request.url).toBe('/v1/messages');
+        expect(request.headers['x-api-key']).toBe('test-key');
+        expect(request.headers['anthropic-version']).toBeDefined();
+        expect(request.body.model).toBe('claude-test');
+        expect(request.body.system).toContain('Be brief.');
+        expect(request.body.messages[0].content).toContain('Compare the two offers.');
+        expect(request.body.stream).toBeUndefined();
+    });
+
+    it('streams text deltas through onToken', async () => {
+        replies.push(eventStream([
+            { type: 'message_start', message: { usage: { input_tokens: 30, output_tokens: 0 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Offer ' } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'A.' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'message_delta', usage: { output_tokens: 2 } },
+            { type: 'message_stop' },
+        ]));
+        const tokens: string[] = [];
+        const onUsage = vi.fn();
+
+        const result = await new AnthropicService('test-key', baseUrl).synthesizeFinalResult(
+            'claude-test', 'Pick an offer', [{ taskId: 'compare', taskDescription: task.description, output: 'A is better.', citations: [] }],
+            { onToken: (delta: string) => tokens.push(delta), onUsage });
+
+        expect(received[0].body.stream).toBe(true);
+        expect(tokens).toEqual(['Offer ', 'A.']);
+        expect(result).toContain('Offer A.');
+        expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ promptTokens: 30, completionTokens: 2 }));
+    });
+
+    it('reads the plan from the forced tool call', async () => {
+        replies.push(json({
+            content: [{
+                type: 'tool_use',
+                id: 'toolu_1',
+                name: 'submit_task_plan',
+                input: { tasks: [
+                    { id: 'collect', description: 'Collect the offers.' },
+                    { id: 'compare', description: 'Compare them.', dependsOn: ['collect'] },
+                ] },
+            }],
+            usage: { input_tokens: 50, output_tokens: 20 },
+        }));
+
+        const tasks = await new AnthropicService('test-key', baseUrl).breakDownGoalIntoTasks('claude-test', 'Pick an offer', []);
+
+        expect(received[0].body.tool_choice).toEqual({ type: 'tool', name: 'submit_task_plan' });
+        expect(tasks.map(t => [t.id, t.dependsOn])).toEqual([['collect', []], ['compare', ['collect']]]);
+    });
+
+    it('fails with a stream error when a streamed tool input is not valid JSON', async () => {
+        replies.push(eventStream([
+            { type: 'message_start', message: { usage: { input_tokens: 30, output_tokens: 0 } } },
+            { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: {} } },
+            { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"query": "off' } },
+            { type: 'content_block_stop', index: 0 },
+            { type: 'message_stop' },
+        ]));
+
+        await expect(new AnthropicService('test-key', baseUrl).executeTask('claude-test', task, 'Pick an offer', [], [], false, { onToken: () => {} }))
+            .rejects.toThrow('Stream error: the input of tool "lookup" is not valid JSON.');
+    });
+
+    it('fails with the status of an error response', async () => {
+        replies.push(json({ type: 'error', error: { type: 'invalid_request_error', message: 'Bad model.' } }, 400));
+
+        await expect(new AnthropicService('test-key', baseUrl).executeTask('claude-test', task, 'Pick an offer', [], [], false))
+            .rejects.toThrow('Anthropic API error (400)');
+    });
+});
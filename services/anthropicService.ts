@@ -0,0 +1,356 @@
+import React from 'react';
+import { StoredFile, Task, TaskOutput } from '../types';
+import { LLMProvider, ProviderCapabilities, ProviderOptions, ChunkLimits, ModelInfo, TokenUsage, EmptyResponseError, throwIfCancelled, httpOptionsFor } from './llmProvider';
+import { isCompleteResponse, readServerSentEvents } from './streaming';
+import { fetchWithRetry } from './httpClient';
+import { resolveTaskPlan } from './taskPlanValidator';
+import { splitSystemMessages } from './contextBudget';
+import { PromptBudget, fitExecutionPrompt, fitPlanningPrompt, fitSynthesisPrompt, fitVerificationPrompt, stripMarkdown } from './providerPrompts';
+import { registerModels } from './modelCatalog';
+import { MAX_TOOL_ROUNDS, TaskToolbox, createToolbox } from './taskTools';
+
+export const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 8192;
+
+export const ANTHROPIC_MODELS: ModelInfo[] = [
+    {
+        id: 'claude-sonnet-4-5',
+        name: 'Claude Sonnet 4.5 (balanced)',
+        capabilities: { contextWindow: 200000, maxOutputTokens: 64000, jsonMode: false, search: false, tools: true },
+    },
+    {
+        id: 'claude-opus-4-1',
+        name: 'Claude Opus 4.1 (complex reasoning)',
+        capabilities: { contextWindow: 200000, maxOutputTokens: 32000, jsonMode: false, search: false, tools: true },
+    },
+    {
+        id: 'claude-haiku-4-5',
+        name: 'Claude Haiku 4.5 (speed/basic tasks)',
+        capabilities: { contextWindow: 200000, maxOutputTokens: 64000, jsonMode: false, search: false, tools: true },
+    },
+];
+registerModels('anthropic', ANTHROPIC_MODELS);
+
+// Whether a Messages API body, streamed or not, has text or a tool call; only such answers are cached.
+const hasMessageContent = (body: string): boolean => isCompleteResponse(body, payload =>
+    !!payload?.delta?.text
+    || [...(payload?.content ?? []), payload?.content_block].some(block => block?.type === 'tool_use' || block?.text));
+
+// The plan is requested through a forced tool call, so the model has to answer with JSON matching this schema.
+const TASK_PLAN_TOOL = {
+    name: 'submit_task_plan',
+    description: 'Submit the list of tasks that together achieve the primary goal.',
+    input_schema: {
+        type: 'object',
+        properties: {
+            tasks: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string', description: 'A short, unique, hyphenated identifier for the task.' },
+                        description: { type: 'string', description: 'A clear, concise description of the task.' },
+                        dependsOn: { type: 'array', items: { type: 'string' }, description: 'Ids of the earlier tasks whose output this task needs.' },
+                        complex: { type: 'boolean', description: 'True if the task is too large to be done in one step and should be broken down further.' },
+                    },
+                    required: ['id', 'description'],
+                },
+            },
+        },
+        required: ['tasks'],
+    },
+};
+
+interface MessageRequest {
+    system: string;
+    prompt: string;
+    // The conversation so far, sent instead of `prompt` once tools have been called.
+    messages?: any[];
+    tools?: any[];
+    toolChoice?: any;
+}
+
+/**
+ * Talks to the Anthropic Messages API. The base URL is configurable, so it can also be pointed at a mock server.
+ */
+export class AnthropicService implements LLMProvider {
+    public readonly capabilities: ProviderCapabilities = { search: false, chunking: false };
+    private apiBase: string;
+    private headers: HeadersInit;
+
+    constructor(apiKey: string, baseUrl: string = DEFAULT_ANTHROPIC_BASE_URL) {
+        this.apiBase = (baseUrl || DEFAULT_ANTHROPIC_BASE_URL).trim().replace(/\/+$/, '');
+        this.headers = {
+            'x-api-key': apiKey,
+            'anthropic-version': ANTHROPIC_VERSION,
+            // Required for calls made directly from the browser.
+            'anthropic-dangerous-direct-browser-access': 'true',
+            'Content-Type': 'application/json',
+        };
+    }
+
+    async listModels(): Promise<ModelInfo[]> {
+        return ANTHROPIC_MODELS;
+    }
+
+    private reportUsage(options: ProviderOptions, model: string, inputTokens: number, outputTokens: number): void {
+        options.onUsage?.({ provider: 'anthropic', model, promptTokens: inputTokens, completionTokens: outputTokens } as TokenUsage);
+    }
+
+    // `options.system_prompt` (see `parseDynamicParameters`) is appended to the stage's own system prompt.
+    private buildSystem(system: string, options: ProviderOptions): string {
+        return options.system_prompt ? `${system}\n\n${options.system_prompt}` : system;
+    }
+
+    /**
+     * Sends a single-turn request to `/v1/messages` and returns the content blocks of the reply.
+     * When `options.onToken` is given the response is streamed and text deltas are forwarded as they arrive.
+     */
+    private async createMessage(
+        model: string,
+        request: MessageRequest,
+        errorLabel: string,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<any[]> {
+        throwIfCancelled(isCancelledRef);
+        const onToken: ((delta: string) => void) | undefined = options.onToken;
+        const body: { [key: string]: any } = {
+            model,
+            max_tokens: MAX_OUTPUT_TOKENS,
+            system: this.buildSystem(request.system, options),
+            messages: request.messages ?? [{ role: 'user', content: request.prompt }],
+            ...(onToken ? { stream: true } : {}),
+        };
+        if (options.temperature) body.temperature = Number(options.temperature);
+        if (request.tools) body.tools = request.tools;
+        if (request.toolChoice) body.tool_choice = request.toolChoice;
+
+        const response = await fetchWithRetry(`${this.apiBase}/v1/messages`, {
+            method: 'POST',
+            headers: this.headers,
+            body: JSON.stringify(body),
+        }, { ...httpOptionsFor('anthropic', options, isCancelledRef), cacheable: hasMessageContent });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            console.error(`Anthropic ${errorLabel} Error:`, errorBody);
+            throw new Error(`Anthropic API error (${response.status}): ${response.statusText}`);
+        }
+
+        if (onToken) {
+            const content = await this.readMessageStream(response, model, options, onToken);
+            throwIfCancelled(isCancelledRef);
+            return content;
+        }
+
+        const data = await response.json();
+        throwIfCancelled(isCancelledRef);
+        if (data.usage) {
+            this.reportUsage(options, model, data.usage.input_tokens ?? 0, data.usage.output_tokens ?? 0);
+        }
+        return data.content || [];
+    }
+
+    // Collects the content blocks of a streamed message, forwarding text as it arrives; tool inputs arrive as JSON
+    // fragments. Input tokens arrive with `message_start`, output tokens with `message_delta`. A tool input that is
+    // not valid JSON once complete (e.g. a stream cut short) fails like a stream error, so the next model is tried.
+    private async readMessageStream(response: Response, model: string, options: ProviderOptions, onToken: (delta: string) => void): Promise<any[]> {
+        const content: any[] = [];
+        const partialInputs: string[] = [];
+        let inputTokens = 0;
+        let outputTokens = 0;
+        for await (const evt of readServerSentEvents(response)) {
+            let payload: any;
+            try {
+                payload = JSON.parse(evt.data);
+            } catch (e) {
+                console.warn('Skipping malformed stream event:', evt.data);
+                continue;
+            }
+            switch (payload.type) {
+                case 'message_start':
+                    inputTokens = payload.message?.usage?.input_tokens ?? 0;
+                    outputTokens = payload.message?.usage?.output_tokens ?? 0;
+                    break;
+                case 'content_block_start':
+                    content[payload.index] = { ...payload.content_block };
+                    break;
+                case 'content_block_delta':
+                    if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+                        const block = content[payload.index] ??= { type: 'text', text: '' };
+                        block.text += payload.delta.text;
+                        onToken(payload.delta.text);
+                    } else if (payload.delta?.type === 'input_json_delta') {
+                        partialInputs[payload.index] = (partialInputs[payload.index] ?? '') + payload.delta.partial_json;
+                    }
+                    break;
+                case 'content_block_stop':
+                    if (partialInputs[payload.index] !== undefined && content[payload.index]) {
+                        const block = content[payload.index];
+                        try {
+                            block.input = partialInputs[payload.index] ? JSON.parse(partialInputs[payload.index]) : {};
+                        } catch (e) {
+                            console.error('Anthropic tool input is not valid JSON:', partialInputs[payload.index]);
+                            throw new Error(`Stream error: the input of tool "${block.name}" is not valid JSON.`);
+                        }
+                    }
+                    break;
+                case 'message_delta':
+                    outputTokens = payload.usage?.output_tokens ?? outputTokens;
+                    break;
+                case 'error':
+                    throw new Error(`Stream error: ${payload.error?.message || JSON.stringify(payload.error)}`);
+            }
+        }
+        this.reportUsage(options, model, inputTokens, outputTokens);
+        return content.filter(Boolean);
+    }
+
+    /**
+     * Sends the task prompt with the toolbox's tools and answers every `tool_use` block with a `tool_result`
+     * until the model replies without calling tools. After `MAX_TOOL_ROUNDS` tool use is switched off.
+     * @returns The content blocks of the final reply.
+     */
+    private async runToolLoop(
+        model: string,
+        request: MessageRequest,
+        toolbox: TaskToolbox,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<any[]> {
+        const tools = toolbox.definitions.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }));
+        let messages: any[] = [{ role: 'user', content: request.prompt }];
+        for (let round = 0; ; round++) {
+            const allowTools = round < MAX_TOOL_ROUNDS;
+            const content = await this.createMessage(model, {
+                ...request,
+                messages,
+                tools,
+                ...(allowTools ? {} : { toolChoice: { type: 'none' } }),
+            }, 'Task Execution', options, isCancelledRef);
+            const toolUses = content.filter(block => block.type === 'tool_use');
+            if (!allowTools || toolUses.length === 0) {
+                return content;
+            }
+            const results = toolUses.map(block => {
+                const result = toolbox.run(block.name, block.input);
+                return { type: 'tool_result', tool_use_id: block.id, content: result, ...(toolbox.calls.at(-1)?.isError ? { is_error: true } : {}) };
+            });
+            messages = [...messages, { role: 'assistant', content }, { role: 'user', content: results }];
+        }
+    }
+
+    private textOf(content: any[]): string {
+        return content.filter(block => block.type === 'text').map(block => block.text).join('');
+    }
+
+    // Condenses prompt sections that exceed the model's input budget through this provider.
+    private promptBudget(options: ProviderOptions, isCancelledRef?: React.RefObject<boolean>): PromptBudget {
+        return {
+            provider: 'anthropic',
+            condense: async (callModel, messages, callOptions) =>
+                this.textOf(await this.createMessage(callModel, splitSystemMessages(messages), 'Context Condensing', callOptions, isCancelledRef)),
+            options,
+            isCancelledRef,
+        };
+    }
+
+    async breakDownGoalIntoTasks(
+        model: string,
+        goal: string,
+        files: StoredFile[],
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<Task[]> {
+        const { system, prompt } = await fitPlanningPrompt(this.promptBudget(options, isCancelledRef), model, goal, files);
+        // The plan is parsed as a whole, so it is never streamed.
+        const { onToken, ...planningOptions } = options;
+        // Returns the tool input as JSON text, or the plain text reply of servers that ignore forced tool use.
+        const requestPlan = async (planPrompt: string): Promise<string> => {
+            const content = await this.createMessage(model, {
+                system,
+                prompt: planPrompt,
+                tools: [TASK_PLAN_TOOL],
+                toolChoice: { type: 'tool', name: TASK_PLAN_TOOL.name },
+            }, 'Plan Generation', planningOptions, isCancelledRef);
+            const toolUse = content.find(block => block.type === 'tool_use' && block.name === TASK_PLAN_TOOL.name);
+            return toolUse ? JSON.stringify(toolUse.input) : this.textOf(content);
+        };
+
+        const rawContent = await requestPlan(prompt);
+        if (!rawContent) {
+            throw new EmptyResponseError("Anthropic returned an empty response. The selected model may not be suitable for this task.");
+        }
+        return resolveTaskPlan(rawContent, (repairPrompt) => requestPlan(`${prompt}\n${repairPrompt}`), { providerName: 'Anthropic' });
+    }
+
+    async executeTask(
+        model: string,
+        task: Task,
+        goal: string,
+        completedTasks: TaskOutput[],
+        files: StoredFile[],
+        useSearch: boolean,
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<TaskOutput> {
+        // Web search is not wired up for Anthropic; useSearch is accepted for signature parity and ignored.
+        const toolbox = createToolbox(files, completedTasks, options);
+
+        const { system, prompt, refs } = await fitExecutionPrompt(this.promptBudget(options, isCancelledRef), model, goal, task, files, completedTasks,
+            { tools: toolbox ? 'yes' : '' });
+        const content = toolbox
+            ? await this.runToolLoop(model, { system, prompt }, toolbox, options, isCancelledRef)
+            : await this.createMessage(model, { system, prompt }, 'Task Execution', options, isCancelledRef);
+        const rawContent = this.textOf(content);
+
+        if (!rawContent) {
+          throw new EmptyResponseError();
+        }
+
+        return {
+            taskId: task.id,
+            taskDescription: task.description,
+            output: stripMarkdown(rawContent),
+            citations: [],
+            promptTemplates: refs,
+            toolCalls: toolbox?.calls.length ? toolbox.calls : undefined,
+        };
+    }
+
+    async synthesizeFinalResult(
+        model: string,
+        goal: string,
+        completedTasks: TaskOutput[],
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        const { system, prompt } = await fitSynthesisPrompt(this.promptBudget(options, isCancelledRef), model, goal, completedTasks);
+        const content = await this.createMessage(model, { system, prompt }, 'Synthesis', options, isCancelledRef);
+        const result = this.textOf(content);
+        if (!result) {
+            throw new EmptyResponseError("The model could not synthesize a final result.");
+        }
+        return result;
+    }
+
+    async verifyTaskOutput(
+        model: string,
+        goal: string,
+        taskDescription: string,
+        output: string,
+        options: ProviderOptions = {},
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        const rendered = await fitVerificationPrompt(this.promptBudget(options, isCancelledRef), model, goal, taskDescription, output);
+        // The verdict is parsed as a whole, so it is never streamed.
+        const { onToken, ...verificationOptions } = options;
+        return this.textOf(await this.createMessage(model, rendered, 'Verification', verificationOptions, isCancelledRef));
+    }
+}
@@ -1,6 +1,8 @@
 // This service handles communication with the backend server.
 // Note: The backend server in `backend/server.ts` must be running for these calls to succeed.
 
+import { LLMCallTrace, RunUsage } from '../types';
+
 const API_BASE_URL = 'http://localhost:3001/api'; // Adjust if your backend runs elsewhere
 
 // --- Token Management ---
@@ -85,7 +87,7 @@ export const login = (credentials: { username: string, password: any }) => {
  * @param goal The user's primary goal.
  * @param result The final synthesized result from the AI.
  */
-export const saveChatHistory = async (goal: string, result: string): Promise<void> => {
+export const saveChatHistory = async (goal: string, result: string, usage?: RunUsage, trace?: LLMCallTrace[]): Promise<void> => {
   if (!getToken()) {
     console.log("User not logged in. Skipping history save.");
     return;
@@ -93,7 +95,7 @@ export const saveChatHistory = async (goal: string, result: string): Promise<voi
   try {
     await apiFetch('/save_history', {
       method: 'POST',
-      body: JSON.stringify({ goal, result }),
+      body: JSON.stringify({ goal, result, usage, trace }),
     });
     console.log('Successfully saved chat history.');
   } catch (error) {
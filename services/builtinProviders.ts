@@ -0,0 +1,60 @@
+import { registerProvider } from './providerRegistry';
+import { GeminiService } from './geminiService';
+import { OpenRouterService } from './openrouterService';
+import { PollinationsService } from './pollinationsService';
+import { LocalService, DEFAULT_LOCAL_BASE_URL } from './localService';
+import { AnthropicService, DEFAULT_ANTHROPIC_BASE_URL } from './anthropicService';
+
+// Providers bundled with the app. Additional providers can call `registerProvider` from their own module.
+
+registerProvider({
+    id: 'gemini',
+    name: 'Google Gemini',
+    apiKey: 'required',
+    searchLabel: 'Use Google Search for up-to-date information',
+    http: { maxConcurrent: 4 },
+    create: ({ apiKey }) => new GeminiService(apiKey),
+});
+
+registerProvider({
+    id: 'openrouter',
+    name: 'OpenRouter',
+    apiKey: 'required',
+    searchLabel: 'Use OpenRouter Web Search for up-to-date information',
+    http: { maxConcurrent: 4 },
+    create: ({ apiKey }) => new OpenRouterService(apiKey),
+});
+
+registerProvider({
+    id: 'anthropic',
+    name: 'Anthropic Claude',
+    apiKey: 'required',
+    defaultBaseUrl: DEFAULT_ANTHROPIC_BASE_URL,
+    baseUrlPlaceholder: 'e.g., https://api.anthropic.com, or a mock server such as http://localhost:8080',
+    searchLabel: 'Web search for Anthropic models needs a search backend',
+    http: { maxConcurrent: 4 },
+    create: ({ apiKey, baseUrl }) => new AnthropicService(apiKey, baseUrl || DEFAULT_ANTHROPIC_BASE_URL),
+});
+
+registerProvider({
+    id: 'pollinations',
+    name: 'Pollinations (Free)',
+    apiKey: 'none',
+    searchLabel: 'Web search for Pollinations models needs a search backend',
+    note: 'The free tier intelligently breaks down large documents to process complex goals, which may take longer.',
+    // The anonymous tier rate-limits aggressively, so requests are serialized and retried patiently.
+    http: { maxConcurrent: 1, retry: { maxRetries: 5, baseDelayMs: 3000, maxDelayMs: 60000 } },
+    create: () => new PollinationsService(),
+});
+
+registerProvider({
+    id: 'local',
+    name: 'Local (OpenAI-compatible)',
+    apiKey: 'optional',
+    defaultBaseUrl: DEFAULT_LOCAL_BASE_URL,
+    baseUrlPlaceholder: 'e.g., http://localhost:11434 (Ollama) or http://localhost:8080 (llama.cpp)',
+    // Local servers usually process one request at a time and do not rate-limit.
+    http: { maxConcurrent: 2, retry: { maxRetries: 1 } },
+    searchLabel: 'Web search for local models needs a search backend',
+    create: ({ apiKey, baseUrl }) => new LocalService(baseUrl || DEFAULT_LOCAL_BASE_URL, apiKey),
+});
@@ -0,0 +1,76 @@
+import { LLMCallTrace } from '../types';
+
+// What a provider knows about a call; the stage and task are added by whoever set `options.onTrace`.
+export type CallTrace = Omit<LLMCallTrace, 'stage' | 'taskId' | 'taskDescription'>;
+
+type RetryHandler = (event: { reason: string; delayMs: number }) => void;
+
+export interface TraceOptions {
+    onRetry?: RetryHandler;
+    // Receives the record of every call once its response has been read in full, or once it failed.
+    onTrace?: (call: CallTrace) => void;
+}
+
+const errorMessage = (error: unknown): string => (error as any)?.message || String(error);
+
+/**
+ * Runs `call` and reports it through `options.onTrace`. `call` receives the retry handler to use, which notes
+ * every retry in the record before passing it on to `options.onRetry`. Without `onTrace` it runs as it is.
+ * @param responseOf Reads the raw response from the result, without consuming anything the caller still needs.
+ */
+export const traceCall = async <T>(
+    request: Pick<CallTrace, 'provider' | 'model' | 'prompt' | 'chunk'>,
+    { onRetry, onTrace }: TraceOptions,
+    call: (onRetry?: RetryHandler) => Promise<T>,
+    responseOf: (result: T) => Promise<{ response: string; error?: string }>
+): Promise<T> => {
+    if (!onTrace) return call(onRetry);
+    const startedAt = Date.now();
+    const retries: CallTrace['retries'] = [];
+    const report = (outcome: { response?: string; error?: string }) =>
+        onTrace({ ...request, startedAt, latencyMs: Date.now() - startedAt, retries, ...outcome });
+    let result: T;
+    try {
+        result = await call(event => {
+            retries.push({ reason: event.reason, delayMs: event.delayMs });
+            onRetry?.(event);
+        });
+    } catch (err) {
+        report({ error: errorMessage(err) });
+        throw err;
+    }
+    responseOf(result).then(report, err => report({ error: errorMessage(err) }));
+    return result;
+};
+
+// The model named in a JSON request body, as all chat completion and message APIs do.
+const requestModelOf = (body: string): string => {
+    try {
+        return String(JSON.parse(body)?.model ?? '');
+    } catch (e) {
+        return '';
+    }
+};
+
+/**
+ * `traceCall` for an HTTP request. The body is read from a clone, so a streamed response still reaches the
+ * caller as it arrives and the latency covers the whole stream.
+ * @param limitKey The provider id the request is made for.
+ */
+export const traceFetch = (
+    url: string,
+    init: RequestInit,
+    options: TraceOptions & { limitKey?: string; chunk?: CallTrace['chunk'] },
+    live: (onRetry?: RetryHandler) => Promise<Response>
+): Promise<Response> => {
+    const prompt = typeof init.body === 'string' ? init.body : '';
+    return traceCall(
+        { provider: options.limitKey ?? new URL(url).host, model: requestModelOf(prompt), prompt, chunk: options.chunk },
+        options,
+        live,
+        async response => {
+            const body = await response.clone().text();
+            return { response: body, error: response.ok ? undefined : `HTTP ${response.status}: ${response.statusText}` };
+        }
+    );
+};
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Cassette, CassetteMissError, cassetteFetch, setActiveCassette } from './cassette';
+import { AnthropicService } from './anthropicService';
+import { Task, TaskStatus } from '../types';
+
+const task: Task = { id: 'summary', description: 'Summarize the notes.', status: TaskStatus.PENDING };
+
+const messageResponse = (text: string) =>
+    new Response(JSON.stringify({ content: [{ type: 'text', text }], usage: { input_tokens: 12, output_tokens: 3 } }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+    });
+
+// Lets the cassette finish reading the bodies it records.
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Cassette', () => {
+    afterEach(() => {
+        setActiveCassette(null);
+        vi.unstubAllGlobals();
+    });
+
+    it('replays a recorded provider call without touching the network', async () => {
+        const live = vi.fn(async () => messageResponse('The notes are short.'));
+        vi.stubGlobal('fetch', live);
+        const recorder = new Cassette('record');
+        setActiveCassette(recorder);
+        const provider = new AnthropicService('test-key');
+        const recorded = await provider.executeTask('claude-test', task, 'Read the notes', [], [], false);
+        await flush();
+        expect(live).toHaveBeenCalledTimes(1);
+        expect(recorder.size).toBe(1);
+
+        const offline = vi.fn(async () => { throw new Error('The network must not be used on replay.'); });
+        vi.stubGlobal('fetch', offline);
+        setActiveCassette(Cassette.fromJSON(JSON.parse(JSON.stringify(recorder.toJSON()))));
+        const usage = vi.fn();
+        const replayed = await provider.executeTask('claude-test', task, 'Read the notes', [], [], false, { onUsage: usage });
+
+        expect(offline).not.toHaveBeenCalled();
+        expect(replayed.output).toBe(recorded.output);
+        expect(replayed.output).toBe('The notes are short.');
+        expect(usage).toHaveBeenCalledWith(expect.objectContaining({ promptTokens: 12, completionTokens: 3 }));
+    });
+
+    it('replays identical requests in the order they were recorded', async () => {
+        const cassette = new Cassette('replay');
+        const request = { method: 'POST', url: 'https://example.com/v1', body: { prompt: 'again' } };
+        cassette.record(request, { status: 200, statusText: 'OK', headers: {}, body: 'first' });
+        cassette.record(request, { status: 200, statusText: 'OK', headers: {}, body: 'second' });
+        setActiveCassette(cassette);
+
+        const call = async () => (await cassetteFetch(request.url, { method: 'POST', body: JSON.stringify(request.body) }, () => {
+            throw new Error('The network must not be used on replay.');
+        })).text();
+        expect([await call(), await call(), await call()]).toEqual(['first', 'second', 'second']);
+    });
+
+    it('fails a request that was not recorded', async () => {
+        setActiveCassette(new Cassette('replay'));
+        await expect(cassetteFetch('https://example.com/v1', { method: 'POST', body: '{}' }, async () => messageResponse('live')))
+            .rejects.toBeInstanceOf(CassetteMissError);
+    });
+});
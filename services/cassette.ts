@@ -0,0 +1,165 @@
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteEntry {
+    // Hash of the normalized request, used to find the response on replay.
+    key: string;
+    request: unknown;
+    response: unknown;
+}
+
+export interface CassetteFile {
+    version: 1;
+    entries: CassetteEntry[];
+}
+
+// How an HTTP response is stored; `body` holds the raw text, including event-stream bodies.
+export interface RecordedHttpResponse {
+    status: number;
+    statusText: string;
+    headers: { [name: string]: string };
+    body: string;
+}
+
+/**
+ * Thrown in replay mode when the cassette has no response for a request.
+ */
+export class CassetteMissError extends Error {
+    constructor(key: string) {
+        super(`No recorded response for this request in the loaded cassette (key ${key}).`);
+        this.name = 'CassetteMissError';
+    }
+}
+
+// Serializes with sorted object keys so that equivalent requests produce the same string.
+const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.keys(value as object)
+            .filter(key => (value as any)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+        return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+// 53-bit string hash (cyrb53); collisions are irrelevant at the sizes it is used for.
+export const hashString = (input: string): string => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < input.length; i++) {
+        const ch = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+export const requestKey = (request: unknown): string => hashString(stableStringify(request));
+
+/**
+ * Records request/response pairs made through the LLM layer, or replays them without touching the network.
+ * Identical requests are replayed in the order they were recorded; once those are used up the last one is repeated.
+ */
+export class Cassette {
+    public readonly mode: CassetteMode;
+    private entries: CassetteEntry[];
+    private replayCounts = new Map<string, number>();
+
+    constructor(mode: CassetteMode, entries: CassetteEntry[] = []) {
+        this.mode = mode;
+        this.entries = [...entries];
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    record(request: unknown, response: unknown): void {
+        // Round-trip through JSON so later mutations by the caller do not leak into the recording.
+        this.entries.push(JSON.parse(JSON.stringify({ key: requestKey(request), request, response })));
+    }
+
+    replay(request: unknown): unknown {
+        const key = requestKey(request);
+        const matches = this.entries.filter(entry => entry.key === key);
+        if (matches.length === 0) {
+            throw new CassetteMissError(key);
+        }
+        const count = this.replayCounts.get(key) ?? 0;
+        this.replayCounts.set(key, count + 1);
+        return matches[Math.min(count, matches.length - 1)].response;
+    }
+
+    toJSON(): CassetteFile {
+        return { version: 1, entries: this.entries };
+    }
+
+    static fromJSON(data: CassetteFile, mode: CassetteMode = 'replay'): Cassette {
+        if (!data || data.version !== 1 || !Array.isArray(data.entries)) {
+            throw new Error('Invalid cassette file.');
+        }
+        return new Cassette(mode, data.entries);
+    }
+}
+
+let activeCassette: Cassette | null = null;
+
+/**
+ * Routes all provider traffic through `cassette`, or back to the network when `null`.
+ */
+export const setActiveCassette = (cassette: Cassette | null): void => {
+    activeCassette = cassette;
+};
+
+export const getActiveCassette = (): Cassette | null => activeCassette;
+
+export const normalizeHttpRequest = (url: string, init: RequestInit) => {
+    let body: unknown = init.body;
+    if (typeof body === 'string') {
+        try {
+            body = JSON.parse(body);
+        } catch (e) {
+            // Not JSON; keyed on the raw string.
+        }
+    }
+    // Headers are left out on purpose: they carry API keys and do not affect the response.
+    return { method: (init.method ?? 'GET').toUpperCase(), url, body };
+};
+
+/**
+ * Runs `live` unless a cassette is active: in replay mode the recorded response is returned instead,
+ * in record mode the response is stored once its body has been read. The body is read from a clone,
+ * so streamed responses still reach the caller as they arrive.
+ */
+export const cassetteFetch = async (url: string, init: RequestInit, live: () => Promise<Response>): Promise<Response> => {
+    const cassette = activeCassette;
+    const request = normalizeHttpRequest(url, init);
+    if (cassette?.mode === 'replay') {
+        return toResponse(cassette.replay(request) as RecordedHttpResponse);
+    }
+    const response = await live();
+    if (cassette) {
+        readRecordedResponse(response)
+            .then(recorded => cassette.record(request, recorded))
+            .catch(err => console.warn('Could not record response body:', err));
+    }
+    return response;
+};
+
+/**
+ * Reads the full body of `response` from a clone, leaving the original to the caller.
+ */
+export const readRecordedResponse = async (response: Response): Promise<RecordedHttpResponse> => {
+    const headers: { [name: string]: string } = {};
+    response.headers.forEach((value, name) => { headers[name] = value; });
+    const body = await response.clone().text();
+    return { status: response.status, statusText: response.statusText, headers, body };
+};
+
+export const toResponse = (recorded: RecordedHttpResponse): Response =>
+    new Response(recorded.body, { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers });
@@ -0,0 +1,81 @@
+import { Citation, TaskOutput } from '../types';
+
+// A `[n]` marker refers to `citations[n - 1]` of the text it appears in.
+export const CITATION_MARKER_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * Whether `uri` may be used as a link: citations come from model and search output, so anything but an http(s)
+ * URL, such as a `javascript:` URI, is shown without one.
+ */
+export const isWebUri = (uri: string): boolean => {
+    try {
+        const { protocol } = new URL(uri);
+        return protocol === 'http:' || protocol === 'https:';
+    } catch (e) {
+        return false;
+    }
+};
+
+// Where a cited statement ends, and which citations (0-based) support it.
+export interface CitationAnchor {
+    end: number;
+    citations: number[];
+}
+
+/**
+ * Inserts `[n]` markers after each anchored span. Anchors may come in any order and may overlap;
+ * a citation already marked at the same position is not repeated.
+ */
+export const insertCitationMarkers = (text: string, anchors: CitationAnchor[]): string => {
+    const markersAt = new Map<number, number[]>();
+    for (const anchor of anchors) {
+        const end = Math.max(0, Math.min(text.length, anchor.end));
+        const markers = markersAt.get(end) ?? [];
+        for (const index of anchor.citations) {
+            if (!markers.includes(index)) markers.push(index);
+        }
+        markersAt.set(end, markers);
+    }
+    let result = text;
+    // From the back, so earlier positions stay valid.
+    for (const end of [...markersAt.keys()].sort((a, b) => b - a)) {
+        const markers = markersAt.get(end)!.sort((a, b) => a - b).map(index => `[${index + 1}]`).join('');
+        result = result.slice(0, end) + markers + result.slice(end);
+    }
+    return result;
+};
+
+/**
+ * Rewrites every `[n]` marker through `renumber`; markers it returns `undefined` for are left as they are.
+ */
+export const renumberCitationMarkers = (text: string, renumber: (n: number) => number | undefined): string =>
+    text.replace(CITATION_MARKER_PATTERN, (marker, n: string) => {
+        const next = renumber(Number(n));
+        return next === undefined ? marker : `[${next}]`;
+    });
+
+/**
+ * Adds `citation` to `citations` unless a citation with the same URI is already there.
+ * @returns The 0-based index of the citation in `citations`.
+ */
+export const addCitation = (citations: Citation[], citation: Citation): number => {
+    const existing = citations.findIndex(c => c.uri === citation.uri);
+    if (existing !== -1) return existing;
+    citations.push(citation);
+    return citations.length - 1;
+};
+
+/**
+ * Numbers the citations of all task outputs in one sequence, so markers from different tasks no longer
+ * collide: the markers in the returned outputs point into the returned, de-duplicated list rather than into
+ * their own `citations`. Synthesis sees the rewritten outputs, so the markers it keeps resolve against that list.
+ */
+export const mergeTaskCitations = (outputs: TaskOutput[]): { outputs: TaskOutput[]; citations: Citation[] } => {
+    const citations: Citation[] = [];
+    const merged = outputs.map(output => {
+        if (output.citations.length === 0) return output;
+        const mapping = output.citations.map(citation => addCitation(citations, citation) + 1);
+        return { ...output, output: renumberCitationMarkers(output.output, n => mapping[n - 1]) };
+    });
+    return { outputs: merged, citations };
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { ProviderOptions } from './llmProvider';
+import { ApiCallFunction, processAndConcatenate } from './pollinationsProcessor';
+import { inputBudgetChars } from './modelCatalog';
+
+export interface PromptSection {
+    content: string;
+    // What the section is needed for; condensing keeps whatever is relevant to it.
+    focus: string;
+}
+
+export type ChatMessage = { role: string; content: string };
+
+// For APIs that take the system prompt separately from the conversation.
+export const splitSystemMessages = (messages: ChatMessage[]): { system: string; prompt: string } => ({
+    system: messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n'),
+    prompt: messages.filter(m => m.role !== 'system').map(m => m.content).join('\n\n'),
+});
+
+// Smallest share worth condensing into; below this the notes would be useless.
+const MIN_SECTION_CHARS = 500;
+const TRUNCATION_NOTICE = "\n[... truncated to fit the model's context window]";
+
+const CONDENSE_SYSTEM_PROMPT = "You condense reference material for another AI model. Keep every fact, figure, name, code snippet and quote that is relevant to the focus, and drop everything else. Respond with the condensed notes only.";
+
+/**
+ * Splits `budget` characters between sections of the given sizes. Sections smaller than an even share
+ * keep their full size and the remainder is shared among the larger ones.
+ */
+export const allocateBudget = (budget: number, sizes: number[]): number[] => {
+    const allocations = new Array<number>(sizes.length).fill(0);
+    let remaining = Math.max(0, budget);
+    let open = sizes.map((_, index) => index);
+    while (open.length > 0) {
+        const share = Math.floor(remaining / open.length);
+        const fitting = open.filter(index => sizes[index] <= share);
+        if (fitting.length === 0) {
+            open.forEach(index => { allocations[index] = share; });
+            break;
+        }
+        fitting.forEach(index => {
+            allocations[index] = sizes[index];
+            remaining -= sizes[index];
+        });
+        open = open.filter(index => sizes[index] > share);
+    }
+    return allocations;
+};
+
+/**
+ * Condenses `content` to roughly `targetChars` by summarizing it chunk by chunk with respect to `focus`.
+ * Whatever still exceeds the target afterwards is truncated.
+ */
+const condense = async (
+    apiCallFn: ApiCallFunction,
+    model: string,
+    options: ProviderOptions,
+    section: PromptSection,
+    targetChars: number,
+    requestBudgetChars: number,
+    isCancelledRef?: React.RefObject<boolean>
+): Promise<string> => {
+    // The processor gives half of each request to the content chunk and half to the focus.
+    const chunkCount = Math.ceil(section.content.length / Math.max(1, Math.floor(requestBudgetChars / 2)));
+    const charsPerChunk = Math.max(200, Math.floor(targetChars / chunkCount));
+    console.log(`Condensing ${section.content.length} chars into ~${targetChars} chars over ${chunkCount} calls.`);
+
+    const condensed = await processAndConcatenate(
+        apiCallFn,
+        model,
+        { ...options, maxInputChars: requestBudgetChars },
+        CONDENSE_SYSTEM_PROMPT,
+        (mainChunk, auxChunk) => `
+Focus:
+${auxChunk}
+
+Condense the following material to at most ${charsPerChunk} characters.
+
+Material:
+---
+${mainChunk}
+---
+`,
+        section.content,
+        section.focus,
+        () => {},
+        { doc: 0, aux: 0 },
+        isCancelledRef
+    );
+
+    return condensed.length <= targetChars
+        ? condensed
+        : condensed.substring(0, Math.max(0, targetChars - TRUNCATION_NOTICE.length)) + TRUNCATION_NOTICE;
+};
+
+/**
+ * Makes prompt sections (file contents, earlier task outputs, ...) fit into a single request to `model`.
+ * The model's input budget comes from the model catalog; `promptOverheadChars` of fixed prompt text are
+ * subtracted and the rest is shared between the sections. Sections that do not fit their share are
+ * condensed with extra calls through `apiCallFn`; sections that fit are returned unchanged.
+ * @returns The section contents, in the order given.
+ */
+export const fitSectionsToBudget = async (
+    apiCallFn: ApiCallFunction,
+    provider: string,
+    model: string,
+    options: ProviderOptions,
+    promptOverheadChars: number,
+    sections: PromptSection[],
+    isCancelledRef?: React.RefObject<boolean>
+): Promise<string[]> => {
+    const requestBudget = inputBudgetChars(provider, model);
+    const allocations = allocateBudget(requestBudget - promptOverheadChars, sections.map(s => s.content.length));
+    // Condensing calls are intermediate steps, so they are never streamed.
+    const { onToken, ...condenseOptions } = options;
+
+    const results: string[] = [];
+    for (let i = 0; i < sections.length; i++) {
+        const section = sections[i];
+        if (section.content.length <= allocations[i]) {
+            results.push(section.content);
+        } else {
+            const target = Math.max(MIN_SECTION_CHARS, allocations[i]);
+            results.push(await condense(apiCallFn, model, condenseOptions, section, target, requestBudget, isCancelledRef));
+        }
+    }
+    return results;
+};
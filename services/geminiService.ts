@@ -1,207 +1,379 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { StoredFile, Task, TaskStatus, TaskOutput, Citation } from '../types';
+import React from 'react';
+import { GoogleGenAI, Type, GroundingMetadata, GenerateContentResponseUsageMetadata, Content, FunctionCall, FunctionCallingConfigMode, Part } from "@google/genai";
+import { StoredFile, Task, TaskOutput, Citation } from '../types';
+import { LLMProvider, ProviderCapabilities, ProviderOptions, ChunkLimits, ModelInfo, EmptyResponseError, TokenUsage, throwIfCancelled, httpOptionsFor } from './llmProvider';
+import { withRetry } from './httpClient';
+import { traceCall } from './callTrace';
+import { getActiveCassette } from './cassette';
+import { getActiveResponseCache } from './responseCache';
+import { resolveTaskPlan } from './taskPlanValidator';
+import { splitSystemMessages } from './contextBudget';
+import { PromptBudget, fitExecutionPrompt, fitPlanningPrompt, fitSynthesisPrompt, fitVerificationPrompt, stripMarkdown } from './providerPrompts';
+import { registerModels } from './modelCatalog';
+import { MAX_TOOL_ROUNDS, TaskToolbox, createToolbox } from './taskTools';
+import { CitationAnchor, addCitation, insertCitationMarkers } from './citations';
 
-export class GeminiService {
+export const GEMINI_MODELS: ModelInfo[] = [
+    {
+        id: 'gemini-2.5-flash',
+        name: 'Gemini 2.5 Flash (speed/basic tasks)',
+        capabilities: { contextWindow: 1048576, maxOutputTokens: 65536, jsonMode: true, search: true, tools: true },
+    },
+    {
+        id: 'gemini-2.5-pro',
+        name: 'Gemini 2.5 Pro (complex reasoning)',
+        capabilities: { contextWindow: 1048576, maxOutputTokens: 65536, jsonMode: true, search: true, tools: true },
+    },
+];
+registerModels('gemini', GEMINI_MODELS);
+
+// Grounding segments are measured in UTF-8 bytes; converts such an offset into a string index.
+const byteOffsetToIndex = (text: string, byteOffset: number): number => {
+    let bytes = 0;
+    let index = 0;
+    while (index < text.length && bytes < byteOffset) {
+        const codePoint = text.codePointAt(index)!;
+        bytes += codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+        index += codePoint > 0xffff ? 2 : 1;
+    }
+    return index;
+};
+
+/**
+ * Turns grounding metadata into citations (one per distinct web source) and `[n]` markers placed after
+ * each grounded segment of `text`.
+ */
+const applyGrounding = (text: string, groundingMetadata?: GroundingMetadata): { text: string; citations: Citation[] } => {
+    const citations: Citation[] = [];
+    // Chunks without a web source (e.g. retrieved context) have no citation.
+    const chunkCitations = (groundingMetadata?.groundingChunks ?? []).map(chunk =>
+        chunk.web?.uri ? addCitation(citations, { uri: chunk.web.uri, title: chunk.web.title || 'Source' }) : undefined);
+    const anchors: CitationAnchor[] = (groundingMetadata?.groundingSupports ?? []).map(support => ({
+        end: byteOffsetToIndex(text, support.segment?.endIndex ?? 0),
+        citations: (support.groundingChunkIndices ?? [])
+            .map(index => chunkCitations[index])
+            .filter((index): index is number => index !== undefined),
+    })).filter(anchor => anchor.end > 0 && anchor.citations.length > 0);
+    return { text: insertCitationMarkers(text, anchors), citations };
+};
+
+interface GenerateResult {
+    text: string;
+    groundingMetadata?: GroundingMetadata;
+    usageMetadata?: GenerateContentResponseUsageMetadata;
+    functionCalls?: FunctionCall[];
+    // The model's turn as returned, to be sent back verbatim when the conversation continues after tool calls.
+    content?: Content;
+}
+
+export class GeminiService implements LLMProvider {
+    public readonly capabilities: ProviderCapabilities = { search: true, chunking: false };
     private ai: GoogleGenAI;
 
     constructor(apiKey: string) {
         this.ai = new GoogleGenAI({ apiKey });
     }
 
-    async breakDownGoalIntoTasks(
+    async listModels(): Promise<ModelInfo[]> {
+        return GEMINI_MODELS;
+    }
+
+    // Traced through `options.onTrace` as one call, whether it was made, replayed or served from the cache.
+    private generate(
         model: string,
-        goal: string,
-        files: StoredFile[]
-    ): Promise<Task[]> {
-        const fileContext = files.map(f => `File: ${f.name}\nContent:\n${f.content}`).join('\n\n---\n\n');
-        const prompt = `
-Based on the primary goal and the provided file contents, break down the goal into a series of smaller, actionable tasks.
-Each task should be a single, clear step towards achieving the main goal.
-Return the tasks as a JSON array of objects, where each object has an "id" (a short, unique, hyphenated string) and a "description".
-
-Primary Goal:
-${goal}
-
-${files.length > 0 ? `File Contents:\n${fileContext}` : ''}
-
-Provide a JSON array of tasks in the following format:
-[
-  {"id": "task-1", "description": "First task description..."},
-  {"id": "task-2", "description": "Second task description..."}
-]
-`;
-
-        const response = await this.ai.models.generateContent({
-            model: model,
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.ARRAY,
-                    items: {
-                        type: Type.OBJECT,
-                        properties: {
-                            id: { type: Type.STRING },
-                            description: { type: Type.STRING },
-                        },
-                        required: ['id', 'description'],
-                    }
+        contents: string | Content[],
+        config: any,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<GenerateResult> {
+        return traceCall(
+            { provider: 'gemini', model, prompt: JSON.stringify({ contents, config }), chunk: options.chunk },
+            options,
+            onRetry => this.generateCached(model, contents, config, { ...options, onRetry }, isCancelledRef),
+            async result => ({ response: JSON.stringify(result) })
+        );
+    }
+
+    // Goes through the active cassette and response cache, if any; a replayed or cached result is forwarded
+    // to `options.onToken` in one piece. Token usage is reported through `options.onUsage` in every case.
+    private async generateCached(
+        model: string,
+        contents: string | Content[],
+        config: any,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<GenerateResult> {
+        const onToken: ((delta: string) => void) | undefined = options.onToken;
+        const cassette = getActiveCassette();
+        // Streamed and non-streamed calls return the same result, so they share one cassette key.
+        const request = { provider: 'gemini', model, contents, config };
+        let result: GenerateResult;
+        if (cassette?.mode === 'replay') {
+            result = cassette.replay(request) as GenerateResult;
+            if (onToken && result.text) {
+                onToken(result.text);
+            }
+        } else {
+            const cache = getActiveResponseCache();
+            const cached = await cache?.get(request) as GenerateResult | undefined;
+            if (cached) {
+                result = cached;
+                if (onToken && result.text) {
+                    onToken(result.text);
+                }
+            } else {
+                result = await this.generateLive(model, contents, config, options, isCancelledRef);
+                // Empty answers trigger fallbacks, so they must not be served again.
+                if (cache && result.text) {
+                    cache.put(request, result).catch(err => console.warn('Could not cache response:', err));
                 }
             }
-        });
-
-        try {
-            const tasksJson = JSON.parse(response.text);
-            return tasksJson.map((task: any) => ({ ...task, status: TaskStatus.PENDING }));
-        } catch (e) {
-            console.error("Failed to parse task list JSON from Gemini:", e);
-            throw new Error("Gemini could not generate a valid task list from the model's response.");
+            cassette?.record(request, result);
         }
+        if (result.usageMetadata && options.onUsage) {
+            options.onUsage({
+                provider: 'gemini',
+                model,
+                promptTokens: result.usageMetadata.promptTokenCount ?? 0,
+                completionTokens: (result.usageMetadata.candidatesTokenCount ?? 0) + (result.usageMetadata.thoughtsTokenCount ?? 0),
+            } as TokenUsage);
+        }
+        return result;
     }
 
-    async executeTask(
+    // Uses the streaming endpoint when `options.onToken` is given, forwarding each text delta as it arrives.
+    // `options.signal` is handed to the SDK here rather than in `generate`, where `config` is part of the cache key.
+    private async generateLive(
         model: string,
-        task: Task,
-        goal: string,
-        completedTasks: TaskOutput[],
-        files: StoredFile[],
-        useSearch: boolean
-    ): Promise<TaskOutput> {
-        const fileContext = files.map(f => `File: ${f.name}\nContent:\n${f.content}`).join('\n\n---\n\n');
-        const completedTasksContext = completedTasks.map(t => `Completed Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n');
-        const prompt = `
-You are an expert developer assistant. Your task is to generate the output for a specific step in a larger project.
-
-Primary Goal:
-${goal}
-
-${files.length > 0 ? `File Contents:\n${fileContext}`: ''}
-
-${completedTasks.length > 0 ? `Context from previously completed tasks:\n${completedTasksContext}` : ''}
-
-Current Task to Execute:
-${task.description}
-
-Based on all the provided context, generate the precise output required to complete this task.
-Do not add any extra commentary, greetings, or explanations beyond what the task requires.
-
-**SPECIAL INSTRUCTIONS FOR OUTPUT FORMATTING:**
-Your output format depends on the nature of the task. Follow these rules precisely:
+        contents: string | Content[],
+        config: any,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<GenerateResult> {
+        const onToken: ((delta: string) => void) | undefined = options.onToken;
+        const httpOptions = httpOptionsFor('gemini', options, isCancelledRef);
+        const liveConfig = options.signal ? { ...config, abortSignal: options.signal } : config;
+        if (!onToken) {
+            const response = await withRetry(() => this.ai.models.generateContent({ model, contents, config: liveConfig }), httpOptions);
+            return {
+                text: response.text ?? '',
+                groundingMetadata: response.candidates?.[0]?.groundingMetadata,
+                usageMetadata: response.usageMetadata,
+                functionCalls: response.functionCalls,
+                content: response.candidates?.[0]?.content,
+            };
+        }
 
-1.  **For Calendar Events:** If the task is to create a calendar event, appointment, or meeting, you MUST format the output as a single JSON object with the following structure:
-    \`\`\`json
-    {
-      "@type": "CalendarEvent",
-      "summary": "Event Title",
-      "description": "A brief description of the event.",
-      "start": "YYYY-MM-DDTHH:mm:ss",
-      "end": "YYYY-MM-DDTHH:mm:ss",
-      "location": "Event Location"
+        const stream = await withRetry(() => this.ai.models.generateContentStream({ model, contents, config: liveConfig }), httpOptions);
+        let text = '';
+        let groundingMetadata: GroundingMetadata | undefined;
+        let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+        const functionCalls: FunctionCall[] = [];
+        const parts: Part[] = [];
+        for await (const chunk of stream) {
+            const delta = chunk.text;
+            if (delta) {
+                text += delta;
+                onToken(delta);
+            }
+            // Grounding metadata is attached to the final chunks of a streamed response.
+            groundingMetadata = chunk.candidates?.[0]?.groundingMetadata ?? groundingMetadata;
+            usageMetadata = chunk.usageMetadata ?? usageMetadata;
+            functionCalls.push(...(chunk.functionCalls ?? []));
+            parts.push(...(chunk.candidates?.[0]?.content?.parts ?? []));
+        }
+        return {
+            text,
+            groundingMetadata,
+            usageMetadata,
+            ...(functionCalls.length > 0 ? { functionCalls, content: { role: 'model', parts } } : {}),
+        };
     }
-    \`\`\`
 
-2.  **For Geographic Locations/Maps:** If the task involves finding a location or coordinates, you MUST format the output as a single JSON object:
-    \`\`\`json
-    {
-      "@type": "Map",
-      "latitude": 40.7128,
-      "longitude": -74.0060,
-      "label": "A descriptive label for the pin"
+    /**
+     * Sends `prompt` with the toolbox's functions and answers every function call with its result until the
+     * model replies without calling functions. After `MAX_TOOL_ROUNDS` function calling is switched off.
+     */
+    private async runToolLoop(
+        model: string,
+        prompt: string,
+        config: any,
+        toolbox: TaskToolbox,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<GenerateResult> {
+        const toolsConfig = {
+            ...config,
+            tools: [{
+                functionDeclarations: toolbox.definitions.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parametersJsonSchema: tool.parameters,
+                })),
+            }],
+        };
+        let contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+        for (let round = 0; ; round++) {
+            const allowTools = round < MAX_TOOL_ROUNDS;
+            const roundConfig = allowTools
+                ? toolsConfig
+                : { ...toolsConfig, toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } };
+            const response = await this.generate(model, contents, roundConfig, options, isCancelledRef);
+            const calls = response.functionCalls ?? [];
+            if (!allowTools || calls.length === 0) {
+                return response;
+            }
+            const results: Part[] = calls.map(call => {
+                const result = toolbox.run(call.name ?? '', call.args ?? {});
+                const failed = toolbox.calls.at(-1)?.isError;
+                return { functionResponse: { id: call.id, name: call.name, response: failed ? { error: result } : { output: result } } };
+            });
+            contents = [
+                ...contents,
+                response.content ?? { role: 'model', parts: calls.map(call => ({ functionCall: call })) },
+                { role: 'user', parts: results },
+            ];
+        }
     }
-    \`\`\`
 
-3.  **For Data Visualization/Charts:** If the task is to create a chart or graph, you MUST generate a self-contained SVG string representing that chart. Format the output as a single JSON object:
-    \`\`\`json
-    {
-      "@type": "Chart",
-      "title": "Title of the Chart",
-      "svg": "<svg width='400' height='200' xmlns='http://www.w3.org/2000/svg'>...</svg>"
+    // Condenses prompt sections that exceed the model's input budget through this provider.
+    private promptBudget(options: ProviderOptions, isCancelledRef?: React.RefObject<boolean>): PromptBudget {
+        return {
+            provider: 'gemini',
+            condense: async (callModel, messages, callOptions) => {
+                const { system, prompt } = splitSystemMessages(messages);
+                return (await this.generate(callModel, prompt, { systemInstruction: system }, callOptions, isCancelledRef)).text;
+            },
+            options,
+            isCancelledRef,
+        };
     }
-    \`\`\`
-    **IMPORTANT SVG REQUIREMENTS:** The SVG must be visually appealing on a dark background. Use light-colored text (e.g., white, #d1d5db) and vibrant, distinct colors for data elements. Include necessary labels and axes.
 
-4.  **For HTML UI Components:** If the task is to create a piece of UI, like a form or a button, you MUST format the output as a single JSON object.
-    \`\`\`json
-    {
-      "@type": "HtmlSnippet",
-      "html": "<div>Your HTML here</div>",
-      "css": "div { color: hotpink; }",
-      "js": "console.log('Hello from the snippet');"
+    async breakDownGoalIntoTasks(
+        model: string,
+        goal: string,
+        files: StoredFile[],
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<Task[]> {
+        throwIfCancelled(isCancelledRef);
+        const { system, prompt } = await fitPlanningPrompt(this.promptBudget(options, isCancelledRef), model, goal, files);
+
+        const planConfig = {
+            systemInstruction: system,
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.ARRAY,
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        id: { type: Type.STRING },
+                        description: { type: Type.STRING },
+                        dependsOn: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        complex: { type: Type.BOOLEAN },
+                    },
+                    required: ['id', 'description', 'dependsOn'],
+                }
+            }
+        };
+        // The plan is parsed as a whole, so it is never streamed.
+        const { onToken, ...planningOptions } = options;
+        const response = await this.generate(model, prompt, planConfig, planningOptions, isCancelledRef);
+        throwIfCancelled(isCancelledRef);
+
+        // The response schema guarantees the shape, but not unique ids, non-empty descriptions or the task count.
+        return resolveTaskPlan(
+            response.text,
+            async (repairPrompt) => (await this.generate(model, `${prompt}\n${repairPrompt}`, planConfig, planningOptions, isCancelledRef)).text,
+            { providerName: 'Gemini' }
+        );
     }
-    \`\`\`
 
-5.  **For ALL OTHER tasks (e.g., writing code, explaining concepts, creating a file):** Provide the output as plain text, markdown, or a code block. Do not wrap it in a JSON object.
-`;
-        const config: any = {};
+    async executeTask(
+        model: string,
+        task: Task,
+        goal: string,
+        completedTasks: TaskOutput[],
+        files: StoredFile[],
+        useSearch: boolean,
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<TaskOutput> {
+        throwIfCancelled(isCancelledRef);
+        // Gemini cannot combine Google Search grounding with function calling, so search wins.
+        const toolbox = useSearch ? null : createToolbox(files, completedTasks, options);
+        const { system, prompt, refs } = await fitExecutionPrompt(this.promptBudget(options, isCancelledRef), model, goal, task, files, completedTasks,
+            { tools: toolbox ? 'yes' : '' });
+        const config: any = { systemInstruction: system };
         if (useSearch) {
             config.tools = [{ googleSearch: {} }];
         }
 
-        const response = await this.ai.models.generateContent({
-            model: model,
-            contents: prompt,
-            config: config,
-        });
-
-        const output = response.text.replace(/```json\n?([\s\S]*?)\n?```/, '$1').trim();
-        const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
-        const citations: Citation[] = [];
-        if (groundingMetadata?.groundingChunks) {
-            for (const chunk of groundingMetadata.groundingChunks) {
-                if (chunk.web) {
-                    citations.push({
-                        uri: chunk.web.uri,
-                        title: chunk.web.title || 'Source',
-                    });
-                }
-            }
+        const response = toolbox
+            ? await this.runToolLoop(model, prompt, config, toolbox, options, isCancelledRef)
+            : await this.generate(model, prompt, config, options, isCancelledRef);
+        throwIfCancelled(isCancelledRef);
+        if (!response.text.trim()) {
+            throw new EmptyResponseError();
+        }
+
+        const stripped = stripMarkdown(response.text);
+        let isStructured = false;
+        try {
+            isStructured = !!JSON.parse(stripped)['@type'];
+        } catch (e) {
+            // Plain text, which gets citation markers.
         }
+        const { text: grounded, citations } = applyGrounding(response.text, response.groundingMetadata);
+        // Markers would break the special JSON outputs, so those only carry the source list.
+        const output = isStructured ? stripped : stripMarkdown(grounded);
 
         return {
             taskId: task.id,
             taskDescription: task.description,
             output: output,
             citations: citations,
+            promptTemplates: refs,
+            toolCalls: toolbox?.calls.length ? toolbox.calls : undefined,
         };
     }
 
     async synthesizeFinalResult(
         model: string,
         goal: string,
-        completedTasks: TaskOutput[]
+        completedTasks: TaskOutput[],
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
     ): Promise<string> {
-        const completedTasksContext = completedTasks
-            .map(t => `Task: ${t.taskDescription}\nOutput:\n${t.output}`)
-            .join('\n\n---\n\n');
-
-        const prompt = `
-You are a master synthesizer. Your job is to take a user's original goal and the raw outputs from a series of automated tasks, and transform them into a final, polished, and coherent result.
-
-**Primary Goal:**
-${goal}
-
-**Individual Task Outputs:**
----
-${completedTasksContext}
----
-
-**Your Instructions:**
-1.  Carefully review the Primary Goal. This is the ultimate objective.
-2.  Analyze the individual task outputs. These are the raw materials and building blocks.
-3.  Synthesize a single, final response that directly and completely fulfills the Primary Goal.
-4.  **DO NOT** simply list or repeat the task outputs. Integrate them intelligently. If an output is a JSON object like a CalendarEvent or Map, describe it in the final summary in a human-readable way. Do not include the raw JSON in the final result.
-5.  If the goal was to create a single artifact (e.g., a summary, a document, a piece of code), your response should be ONLY that artifact.
-6.  If the goal was a question, your response should be the final, complete answer.
-7.  The final output should be clean, well-formatted, and ready for the user. Eliminate any redundancy or intermediate steps present in the task outputs.
-
-Produce ONLY the final, synthesized result.
-`;
-
-        const response = await this.ai.models.generateContent({
-            model: model,
-            contents: prompt,
-        });
+        throwIfCancelled(isCancelledRef);
+        const { system, prompt } = await fitSynthesisPrompt(this.promptBudget(options, isCancelledRef), model, goal, completedTasks);
+
+        const response = await this.generate(model, prompt, { systemInstruction: system }, options, isCancelledRef);
+        throwIfCancelled(isCancelledRef);
+        if (!response.text.trim()) {
+            throw new EmptyResponseError("The model could not synthesize a final result.");
+        }
+
+        return response.text;
+    }
 
+    async verifyTaskOutput(
+        model: string,
+        goal: string,
+        taskDescription: string,
+        output: string,
+        options: ProviderOptions = {},
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        throwIfCancelled(isCancelledRef);
+        const { system, prompt } = await fitVerificationPrompt(this.promptBudget(options, isCancelledRef), model, goal, taskDescription, output);
+        // The verdict is parsed as a whole, so it is never streamed.
+        const { onToken, ...verificationOptions } = options;
+        const response = await this.generate(model, prompt, { systemInstruction: system }, verificationOptions, isCancelledRef);
+        throwIfCancelled(isCancelledRef);
         return response.text;
     }
-}
\ No newline at end of file
+}
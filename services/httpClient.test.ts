@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { configureHttpLimits, withRetry } from './httpClient';
+
+// An operation that stays running until `finish` is called, so a test controls when its slot frees up.
+const pending = () => {
+    let finish: () => void = () => {};
+    const done = new Promise<void>(resolve => { finish = resolve; });
+    return { finish, operation: () => done };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('withRetry concurrency limits', () => {
+    it('hands a freed slot to the next waiter without letting a newcomer in', async () => {
+        configureHttpLimits('limit-handoff', { maxConcurrent: 1 });
+        const first = pending();
+        const started: string[] = [];
+        const run = (name: string, operation: () => Promise<void>) =>
+            withRetry(() => { started.push(name); return operation(); }, { limitKey: 'limit-handoff' });
+
+        const calls = [run('first', first.operation), run('second', async () => {})];
+        await settle();
+        first.finish();
+        calls.push(run('third', async () => {}));
+        await Promise.all(calls);
+
+        expect(started).toEqual(['first', 'second', 'third']);
+    });
+
+    it('lets waiters in when the limit is raised', async () => {
+        configureHttpLimits('limit-raise', { maxConcurrent: 1 });
+        const first = pending();
+        const started: string[] = [];
+        const calls = ['a', 'b', 'c'].map(name =>
+            withRetry(() => { started.push(name); return first.operation(); }, { limitKey: 'limit-raise' }));
+        await settle();
+        expect(started).toEqual(['a']);
+
+        configureHttpLimits('limit-raise', { maxConcurrent: 3 });
+        await settle();
+        expect(started).toEqual(['a', 'b', 'c']);
+        first.finish();
+        await Promise.all(calls);
+    });
+
+    it('drops a waiter whose request is aborted', async () => {
+        configureHttpLimits('limit-abort', { maxConcurrent: 1 });
+        const first = pending();
+        const controller = new AbortController();
+        const started: string[] = [];
+        const holder = withRetry(first.operation, { limitKey: 'limit-abort' });
+        const aborted = withRetry(async () => { started.push('aborted'); }, { limitKey: 'limit-abort', signal: controller.signal });
+        const next = withRetry(async () => { started.push('next'); }, { limitKey: 'limit-abort' });
+        await settle();
+
+        controller.abort();
+        await expect(aborted).rejects.toThrow('Process stopped by user.');
+        first.finish();
+        await Promise.all([holder, next]);
+        expect(started).toEqual(['next']);
+    });
+});
@@ -0,0 +1,284 @@
+import { cassetteFetch } from './cassette';
+import { cachedFetch } from './responseCache';
+import { CallTrace, traceFetch } from './callTrace';
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    retryOnStatus: number[];
+}
+
+export interface RetryEvent {
+    // 1-based number of the retry about to be made.
+    attempt: number;
+    maxRetries: number;
+    delayMs: number;
+    reason: string;
+}
+
+export interface HttpLimits {
+    maxConcurrent?: number;
+    retry?: Partial<RetryPolicy>;
+}
+
+export interface HttpRequestOptions {
+    // Key used to look up concurrency limits and retry settings, usually the provider id.
+    limitKey?: string;
+    retry?: Partial<RetryPolicy>;
+    onRetry?: (event: RetryEvent) => void;
+    isCancelled?: () => boolean;
+    // Aborts the request in flight and any pending retry delay.
+    signal?: AbortSignal;
+    // Receives the record of the request once its response has been read; see `traceFetch`.
+    onTrace?: (call: CallTrace) => void;
+    // Where the request sits in a chunked step, for the trace.
+    chunk?: CallTrace['chunk'];
+    // Whether a successful response may be stored in the response cache, judged by its full body; without it every
+    // successful response is. Providers use it to keep empty answers and errors inside a stream out of the cache.
+    cacheable?: (body: string) => boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    retryOnStatus: [408, 425, 429, 500, 502, 503, 504],
+};
+
+/**
+ * Thrown for failures that carry an HTTP status, so the retry logic can decide whether to try again.
+ */
+export class HttpError extends Error {
+    public status: number;
+    public retryAfterMs?: number;
+
+    constructor(message: string, status: number, retryAfterMs?: number) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// #region Concurrency limiting
+class Semaphore {
+    private active = 0;
+    private queue: (() => void)[] = [];
+
+    constructor(private limit: number) {}
+
+    /**
+     * Waits for a free slot. A waiter whose `signal` is aborted leaves the queue and fails with `cancellationError()`.
+     * @returns A function that frees the slot; calling it more than once has no effect.
+     */
+    async acquire(signal?: AbortSignal): Promise<() => void> {
+        if (signal?.aborted) throw cancellationError();
+        if (this.active < this.limit) {
+            this.active++;
+        } else {
+            // A released slot is handed to the waiter as-is, so `active` already counts it.
+            await new Promise<void>((resolve, reject) => {
+                const grant = () => {
+                    signal?.removeEventListener('abort', abort);
+                    resolve();
+                };
+                const abort = () => {
+                    this.queue = this.queue.filter(waiter => waiter !== grant);
+                    reject(cancellationError());
+                };
+                this.queue.push(grant);
+                signal?.addEventListener('abort', abort, { once: true });
+            });
+        }
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            // After the limit was lowered, slots above it are dropped instead of handed on.
+            const next = this.active <= this.limit ? this.queue.shift() : undefined;
+            if (next) next();
+            else this.active--;
+        };
+    }
+
+    // Changes the limit; a raised limit lets waiters in right away.
+    setLimit(limit: number): void {
+        this.limit = limit;
+        while (this.active < this.limit && this.queue.length > 0) {
+            this.active++;
+            this.queue.shift()!();
+        }
+    }
+}
+
+const semaphores = new Map<string, Semaphore>();
+const retryOverrides = new Map<string, Partial<RetryPolicy>>();
+
+/**
+ * Sets the concurrency limit and default retry settings for all requests made with `limitKey`.
+ */
+export const configureHttpLimits = (limitKey: string, limits: HttpLimits): void => {
+    if (limits.maxConcurrent !== undefined) {
+        const existing = semaphores.get(limitKey);
+        if (existing) {
+            existing.setLimit(limits.maxConcurrent);
+        } else {
+            semaphores.set(limitKey, new Semaphore(limits.maxConcurrent));
+        }
+    }
+    if (limits.retry) {
+        retryOverrides.set(limitKey, { ...retryOverrides.get(limitKey), ...limits.retry });
+    }
+};
+
+const acquireSlot = async (limitKey?: string, signal?: AbortSignal): Promise<() => void> => {
+    const semaphore = limitKey ? semaphores.get(limitKey) : undefined;
+    return semaphore ? semaphore.acquire(signal) : () => {};
+};
+// #endregion
+
+const resolvePolicy = (options: HttpRequestOptions): RetryPolicy => ({
+    ...DEFAULT_RETRY_POLICY,
+    ...(options.limitKey ? retryOverrides.get(options.limitKey) : undefined),
+    ...options.retry,
+});
+
+/**
+ * Parses a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ */
+export const parseRetryAfter = (value: string | null): number | undefined => {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+    return undefined;
+};
+
+/**
+ * Exponential backoff with "equal jitter": half of the exponential delay is fixed, the other half random.
+ */
+export const computeBackoffDelay = (attempt: number, policy: RetryPolicy): number => {
+    const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+/**
+ * The error every cancelled call fails with, whether it was stopped between calls or aborted mid-request.
+ */
+export const cancellationError = (): Error => new Error('Process stopped by user.');
+
+const isCancelled = (options: HttpRequestOptions): boolean =>
+    !!options.signal?.aborted || !!options.isCancelled?.();
+
+// Resolves early when `signal` is aborted, so a cancelled run does not sit out its backoff delay.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+    }
+});
+
+const isRetryable = (error: unknown, policy: RetryPolicy): boolean => {
+    if (error instanceof HttpError) return policy.retryOnStatus.includes(error.status);
+    // The GenAI SDK and others attach the HTTP status to their error objects.
+    const status = (error as any)?.status;
+    if (typeof status === 'number') return policy.retryOnStatus.includes(status);
+    // fetch rejects with a TypeError on network failures.
+    return error instanceof TypeError;
+};
+
+const describeError = (error: unknown): string => {
+    const status = (error as any)?.status;
+    if (status === 429) return 'rate limited (429)';
+    if (typeof status === 'number') return `server error (${status})`;
+    return 'network error';
+};
+
+/**
+ * Runs `operation` and retries it with exponential backoff when it fails with a retryable error.
+ * A `retryAfterMs` on the error (from a `Retry-After` header) takes precedence over the computed delay.
+ * Once `options.signal` is aborted, no further attempt is made and the call fails with `cancellationError()`.
+ * @param operation The function to run; it is called again for every attempt.
+ * @param options Retry settings, the concurrency key and an optional retry callback for progress reporting.
+ * @returns The result of the first successful attempt.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: HttpRequestOptions = {}): Promise<T> {
+    const policy = resolvePolicy(options);
+    let attempt = 0;
+    while (true) {
+        const release = await acquireSlot(options.limitKey, options.signal);
+        try {
+            if (options.signal?.aborted) {
+                throw cancellationError();
+            }
+            return await operation();
+        } catch (error) {
+            // An aborted request rejects with an `AbortError`; report it like any other cancellation.
+            if (options.signal?.aborted) {
+                throw cancellationError();
+            }
+            if (attempt >= policy.maxRetries || !isRetryable(error, policy) || isCancelled(options)) {
+                throw error;
+            }
+            attempt++;
+            const retryAfterMs = (error as any)?.retryAfterMs;
+            const delayMs = typeof retryAfterMs === 'number'
+                ? Math.min(retryAfterMs, policy.maxDelayMs)
+                : computeBackoffDelay(attempt, policy);
+            console.warn(`Request failed (${describeError(error)}). Retry ${attempt}/${policy.maxRetries} in ${delayMs}ms.`);
+            options.onRetry?.({ attempt, maxRetries: policy.maxRetries, delayMs, reason: describeError(error) });
+            release();
+            await sleep(delayMs, options.signal);
+            if (isCancelled(options)) {
+                throw cancellationError();
+            }
+        } finally {
+            release();
+        }
+    }
+}
+
+/**
+ * `fetch` with retries for network errors and retryable statuses (429, 5xx, ...).
+ * Once retries are exhausted or the status is not retryable, the last response is returned as-is,
+ * so callers keep handling `!response.ok` with their own provider-specific error messages.
+ * The concurrency slot is held until the response headers arrive; streamed bodies are read outside it.
+ * `options.signal` is passed to `fetch`, so aborting it also stops a body that is still streaming.
+ * When a cassette is active, requests are recorded or replayed from it (see `cassette.ts`). Behind the
+ * cassette, the active response cache answers repeated requests (see `responseCache.ts`). Replayed and cached
+ * responses are traced like any other when `options.onTrace` is set.
+ */
+export const fetchWithRetry = (url: string, init: RequestInit = {}, options: HttpRequestOptions = {}): Promise<Response> =>
+    traceFetch(url, init, options, onRetry =>
+        cassetteFetch(url, init, () => cachedFetch(url, init, () => fetchFromNetwork(url, init, { ...options, onRetry }), options.cacheable)));
+
+const fetchFromNetwork = async (url: string, init: RequestInit, options: HttpRequestOptions): Promise<Response> => {
+    const policy = resolvePolicy(options);
+    let lastResponse: Response | undefined;
+    try {
+        return await withRetry(async () => {
+            // Discard the body of a previous attempt that is about to be retried.
+            lastResponse?.body?.cancel().catch(() => {});
+            const response = await fetch(url, { ...init, signal: options.signal });
+            if (!response.ok && policy.retryOnStatus.includes(response.status)) {
+                lastResponse = response;
+                throw new HttpError(
+                    `HTTP ${response.status}: ${response.statusText}`,
+                    response.status,
+                    parseRetryAfter(response.headers.get('Retry-After'))
+                );
+            }
+            return response;
+        }, options);
+    } catch (error) {
+        if (error instanceof HttpError && lastResponse) {
+            return lastResponse;
+        }
+        throw error;
+    }
+};
@@ -0,0 +1,157 @@
+import React from 'react';
+import { StoredFile, Task, TaskOutput } from '../types';
+import { HttpRequestOptions, cancellationError } from './httpClient';
+
+export type ProviderOptions = { [key: string]: any };
+
+export interface ChunkLimits {
+    doc: number;
+    aux: number;
+}
+
+// Prices in USD per token.
+export interface ModelPricing {
+    prompt: number;
+    completion: number;
+}
+
+// What a model supports, as far as its provider reports it. Unknown values are left undefined.
+export interface ModelCapabilities {
+    // In tokens, input and output combined.
+    contextWindow?: number;
+    maxOutputTokens?: number;
+    // Native JSON / structured output mode.
+    jsonMode?: boolean;
+    search?: boolean;
+    tools?: boolean;
+}
+
+export interface ModelInfo {
+    id: string;
+    name: string;
+    // Hard input limit reported by the provider; takes precedence over `capabilities.contextWindow`.
+    maxInputChars?: number;
+    capabilities?: ModelCapabilities;
+    pricing?: ModelPricing;
+}
+
+// Token counts reported by a single API call.
+export interface TokenUsage {
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface ProviderCapabilities {
+    // Native web search or grounding is used when `useSearch` is set.
+    search: boolean;
+    // Large inputs are split into chunks, so `limits`, `options.onProgress` and `estimateApiCalls` apply.
+    chunking: boolean;
+}
+
+/**
+ * The contract every LLM backend implements. All methods take the same arguments regardless of
+ * provider; providers that do not chunk their input simply receive `limits` and ignore them.
+ * When `options.onToken` is set, `executeTask` and `synthesizeFinalResult` stream their text through it
+ * as it is generated and still resolve with the complete result. `options.onRetry` is notified whenever
+ * a request is retried after a rate limit or transient failure. `options.onUsage` receives the
+ * `TokenUsage` of every API call that reports it, and `options.onTrace` the prompt and raw response of
+ * every call (see `callTrace.ts`). Aborting `options.signal` cancels requests in flight.
+ * With `options.useTools`, `executeTask` lets the model call the tools in `taskTools.ts` and reports each
+ * call through `options.onToolCall` as it completes; text streamed before a tool call is superseded by it.
+ */
+export interface LLMProvider {
+    readonly capabilities: ProviderCapabilities;
+
+    listModels(): Promise<ModelInfo[]>;
+
+    breakDownGoalIntoTasks(
+        model: string,
+        goal: string,
+        files: StoredFile[],
+        options: ProviderOptions,
+        limits: ChunkLimits,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<Task[]>;
+
+    executeTask(
+        model: string,
+        task: Task,
+        goal: string,
+        completedTasks: TaskOutput[],
+        files: StoredFile[],
+        useSearch: boolean,
+        options: ProviderOptions,
+        limits: ChunkLimits,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<TaskOutput>;
+
+    synthesizeFinalResult(
+        model: string,
+        goal: string,
+        completedTasks: TaskOutput[],
+        options: ProviderOptions,
+        limits: ChunkLimits,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string>;
+
+    // Reviews `output` of the task `taskDescription` and resolves with the model's raw verdict, which
+    // `parseVerification` in `taskVerifier.ts` reads. Never streamed.
+    verifyTaskOutput(
+        model: string,
+        goal: string,
+        taskDescription: string,
+        output: string,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string>;
+
+    // Only implemented by providers with `capabilities.chunking`.
+    estimateApiCalls?(
+        options: ProviderOptions,
+        mainContent: string,
+        auxiliaryContext: string
+    ): { mainCount: number; auxCount: number; total: number };
+}
+
+/**
+ * Thrown when a model answers successfully but with no content, so callers can fall back to another model.
+ */
+export class EmptyResponseError extends Error {
+    constructor(message: string = 'The model returned an empty response.') {
+        super(message);
+        this.name = 'EmptyResponseError';
+    }
+}
+
+export const throwIfCancelled = (isCancelledRef?: React.RefObject<boolean>): void => {
+    if (isCancelledRef?.current) {
+        throw cancellationError();
+    }
+};
+
+// Reports the `usage` object of an OpenAI-compatible response through `options.onUsage`.
+export const reportOpenAIUsage = (options: ProviderOptions, provider: string, model: string, usage: any): void => {
+    if (!usage || !options.onUsage) return;
+    options.onUsage({
+        provider,
+        model,
+        promptTokens: usage.prompt_tokens ?? 0,
+        completionTokens: usage.completion_tokens ?? 0,
+    } as TokenUsage);
+};
+
+// Options for the shared HTTP layer, derived from the per-call provider options.
+export const httpOptionsFor = (
+    limitKey: string,
+    options: ProviderOptions,
+    isCancelledRef?: React.RefObject<boolean>
+): HttpRequestOptions => ({
+    limitKey,
+    onRetry: options.onRetry,
+    isCancelled: () => !!isCancelledRef?.current,
+    signal: options.signal,
+    onTrace: options.onTrace,
+    chunk: options.chunk,
+});
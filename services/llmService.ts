@@ -1,50 +1,123 @@
-
 import React from 'react';
-import { StoredFile, Task, TaskOutput } from '../types';
-import { GeminiService } from './geminiService';
-import { OpenRouterService, OpenRouterModel, fetchOpenRouterModels } from './openrouterService';
-import { PollinationsService, PollinationsModel, fetchPollinationsModels, parseDynamicParameters } from './pollinationsService';
+import { StoredFile, Task, TaskOutput, TaskVerification, ModelRoute } from '../types';
+import { LLMProvider, ModelInfo, ChunkLimits, ProviderOptions, TokenUsage, EmptyResponseError } from './llmProvider';
+import { RetryEvent, cancellationError } from './httpClient';
+import { ProviderConfig, ProviderDefinition, createProvider, getProviderDefinition, listProviders, registerProvider, defaultProviderConfig } from './providerRegistry';
+import { parseDynamicParameters } from './pollinationsService';
+import { Cassette, CassetteFile, CassetteMode, setActiveCassette } from './cassette';
+import { UsageTracker } from './usageTracker';
+import { ResponseCache, ResponseCacheStats, setActiveResponseCache } from './responseCache';
+import { getModelInfo, inputBudgetChars } from './modelCatalog';
+import { renderPrompt } from './promptTemplates';
+import { VerificationSettings, parseVerification, specialTypeIssues } from './taskVerifier';
+import { mergeTaskCitations } from './citations';
+import { SearchBackend, searchResultsContext } from './webSearch';
+import './builtinProviders';
+
+export { parseDynamicParameters, createProvider, getProviderDefinition, listProviders, registerProvider, defaultProviderConfig, Cassette, setActiveCassette, UsageTracker, inputBudgetChars, ResponseCache, setActiveResponseCache, mergeTaskCitations };
+export type { LLMProvider, ModelInfo, ChunkLimits, ProviderOptions, ProviderConfig, ProviderDefinition, RetryEvent, CassetteFile, CassetteMode, TokenUsage, ResponseCacheStats };
 
-export { fetchOpenRouterModels, fetchPollinationsModels, parseDynamicParameters };
-export type { OpenRouterModel, PollinationsModel };
+export interface FallbackEntry extends ModelRoute {
+  config: ProviderConfig;
+}
+
+export interface FallbackEvent {
+  failed: ModelRoute;
+  next: ModelRoute;
+  error: Error;
+}
 
 export class LLMService {
-  public service: GeminiService | OpenRouterService | PollinationsService;
-  private provider: 'gemini' | 'openrouter' | 'pollinations';
+  public service: LLMProvider;
+  private provider: string;
+  private fallbacks: { route: ModelRoute; service: LLMProvider }[];
+  private search: SearchBackend | null;
 
-  constructor(provider: 'gemini' | 'openrouter' | 'pollinations', apiKey: string) {
+  /**
+   * @param provider The primary provider id.
+   * @param config API key and base URL for the primary provider.
+   * @param fallbacks Provider + model pairs tried in order when a stage fails on the primary model.
+   * @param search Answers `useSearch` in place of the providers' native search; null keeps native search.
+   */
+  constructor(provider: string, config: ProviderConfig, fallbacks: FallbackEntry[] = [], search: SearchBackend | null = null) {
     this.provider = provider;
-    switch (provider) {
-      case 'gemini':
-        this.service = new GeminiService(apiKey);
-        break;
-      case 'openrouter':
-        this.service = new OpenRouterService(apiKey);
-        break;
-      case 'pollinations':
-        this.service = new PollinationsService();
-        break;
-      default:
-        // This case should not be reachable with TypeScript, but it's good practice
-        throw new Error(`Unsupported LLM provider: ${provider}`);
+    this.search = search;
+    this.service = createProvider(provider, config);
+    this.fallbacks = fallbacks.map(({ provider, model, config }) => ({
+      route: { provider, model },
+      service: createProvider(provider, config),
+    }));
+  }
+
+  /**
+   * Runs `call` on the primary model, then on each fallback in order until one succeeds.
+   * Cancellation is never retried. `options.onFallback` is notified before switching models.
+   * Whatever a provider throws once `options.signal` is aborted (e.g. an `AbortError` from a stream
+   * that was cut off) is reported as the cancellation it is.
+   * @returns The result together with the route that produced it.
+   */
+  private async runWithFallbacks<T>(
+    model: string,
+    options: ProviderOptions,
+    isCancelledRef: React.RefObject<boolean> | undefined,
+    call: (service: LLMProvider, model: string) => Promise<T>
+  ): Promise<{ result: T; route: ModelRoute }> {
+    const chain = [{ route: { provider: this.provider, model }, service: this.service }, ...this.fallbacks];
+    for (let i = 0; ; i++) {
+      const { route, service } = chain[i];
+      try {
+        return { result: await call(service, route.model), route };
+      } catch (err: any) {
+        if (options.signal?.aborted) {
+          throw cancellationError();
+        }
+        const next = chain[i + 1];
+        if (!next || isCancelledRef?.current) {
+          throw err;
+        }
+        console.warn(`${route.provider}/${route.model} failed, falling back to ${next.route.provider}/${next.route.model}:`, err);
+        options.onFallback?.({ failed: route, next: next.route, error: err } as FallbackEvent);
+      }
+    }
+  }
+
+  /**
+   * Lists the models of every provider in the chain whose model (`model` for the primary) is not in the model
+   * catalog yet, which registers them there; input budgets and pricing of routed and fallback models depend on it.
+   * A provider that cannot list its models is skipped, so this never rejects.
+   */
+  async loadModelInfo(models: string[]): Promise<void> {
+    const chain = [
+      ...models.map(model => ({ route: { provider: this.provider, model }, service: this.service })),
+      ...this.fallbacks,
+    ];
+    const missing = new Map<string, LLMProvider>();
+    for (const { route, service } of chain) {
+      if (route.model && !getModelInfo(route.provider, route.model)) missing.set(route.provider, service);
     }
+    await Promise.all([...missing].map(([provider, service]) => service.listModels().catch(err => {
+      console.warn(`Could not load the models of ${provider}; their input budget and pricing are unknown:`, err);
+    })));
   }
 
   async breakDownGoalIntoTasks(
     model: string,
     goal: string,
     files: StoredFile[],
-    options: { [key: string]: any } = {},
-    limits: { doc: number, aux: number } = { doc: 0, aux: 0 },
+    options: ProviderOptions = {},
+    limits: ChunkLimits = { doc: 0, aux: 0 },
     isCancelledRef?: React.RefObject<boolean>
   ): Promise<Task[]> {
-    if (this.service instanceof PollinationsService) {
-      return this.service.breakDownGoalIntoTasks(model, goal, files, options, limits, isCancelledRef);
-    }
-    // For other services, call without the extra parameters
-    return this.service.breakDownGoalIntoTasks(model, goal, files);
+    const { result } = await this.runWithFallbacks(model, options, isCancelledRef,
+      (service, routeModel) => service.breakDownGoalIntoTasks(routeModel, goal, files, options, limits, isCancelledRef));
+    return result;
   }
 
+  /**
+   * Produces the output of `task`. With `options.verification` the output is scored and critiqued by the
+   * verifier, and produced again with the critique while it scores below the threshold and retries are left;
+   * `options.onVerification` receives every verdict together with whether the task is retried.
+   */
   async executeTask(
     model: string,
     task: Task,
@@ -52,28 +125,143 @@ export class LLMService {
     completedTasks: TaskOutput[],
     files: StoredFile[],
     useSearch: boolean,
-    options: { [key: string]: any } = {},
-    limits: { doc: number, aux: number } = { doc: 0, aux: 0 },
+    options: ProviderOptions = {},
+    limits: ChunkLimits = { doc: 0, aux: 0 },
+    isCancelledRef?: React.RefObject<boolean>
+  ): Promise<TaskOutput> {
+    let output = await this.executeTaskOnce(model, task, goal, completedTasks, files, useSearch, options, limits, isCancelledRef);
+    const settings: VerificationSettings | undefined = options.verification;
+    if (!settings) return output;
+
+    const verifications: TaskVerification[] = [];
+    for (let attempt = 0; ; attempt++) {
+      const verification = await this.verifyTaskOutput(model, task, goal, output, options, isCancelledRef);
+      if (!verification) break;
+      verifications.push(verification);
+      const retry = verification.score < settings.threshold && attempt < settings.maxRetries;
+      options.onVerification?.(verification, retry);
+      if (!retry) break;
+
+      const retryInstructions = renderPrompt('verification-retry', {
+        instructions: task.instructions?.trim() ?? '',
+        score: String(verification.score),
+        critique: verification.critique || 'The output does not complete the task.',
+      });
+      const retried = await this.executeTaskOnce(model, { ...task, instructions: retryInstructions.prompt }, goal, completedTasks, files, useSearch, options, limits, isCancelledRef);
+      output = { ...retried, promptTemplates: [...(retried.promptTemplates ?? []), ...retryInstructions.refs] };
+    }
+    return verifications.length > 0 ? { ...output, verifications } : output;
+  }
+
+  /**
+   * Scores `output` against its task and the goal. Special-type JSON that could not be rendered scores 0
+   * without asking the model. An unreadable verdict or a failed call leaves the output unverified.
+   */
+  private async verifyTaskOutput(
+    model: string,
+    task: Task,
+    goal: string,
+    output: TaskOutput,
+    options: ProviderOptions,
+    isCancelledRef?: React.RefObject<boolean>
+  ): Promise<TaskVerification | null> {
+    const issues = specialTypeIssues(output.output);
+    if (issues.length > 0) {
+      return { score: 0, critique: issues.join(' ') };
+    }
+    const taskDescription = task.instructions?.trim()
+      ? renderPrompt('task-instructions', { task: task.description, instructions: task.instructions.trim() }).prompt
+      : task.description;
+    try {
+      const { result } = await this.runWithFallbacks(model, options, isCancelledRef,
+        (service, routeModel) => service.verifyTaskOutput(routeModel, goal, taskDescription, output.output, options, isCancelledRef));
+      const verification = parseVerification(result);
+      if (!verification) {
+        console.warn(`Could not read the verification of task "${task.id}":`, result);
+      }
+      return verification;
+    } catch (err) {
+      if (options.signal?.aborted || isCancelledRef?.current) throw err;
+      console.warn(`Verifying task "${task.id}" failed:`, err);
+      return null;
+    }
+  }
+
+  // A failed search does not fail the task; it runs without results instead.
+  private async searchContextFor(task: Task, options: ProviderOptions, isCancelledRef?: React.RefObject<boolean>) {
+    try {
+      return searchResultsContext(task.description, await this.search!.search(task.description, options, isCancelledRef));
+    } catch (err) {
+      if (options.signal?.aborted || isCancelledRef?.current) throw cancellationError();
+      console.warn(`Search for task "${task.id}" failed; running it without search results:`, err);
+      return null;
+    }
+  }
+
+  private async executeTaskOnce(
+    model: string,
+    task: Task,
+    goal: string,
+    completedTasks: TaskOutput[],
+    files: StoredFile[],
+    useSearch: boolean,
+    options: ProviderOptions,
+    limits: ChunkLimits,
     isCancelledRef?: React.RefObject<boolean>
   ): Promise<TaskOutput> {
-     if (this.service instanceof PollinationsService) {
-      return this.service.executeTask(model, task, goal, completedTasks, files, useSearch, options, limits, isCancelledRef);
+    // With a search backend, the task gets the results as an extra file and the provider is not asked to search itself.
+    const searchContext = useSearch && this.search ? await this.searchContextFor(task, options, isCancelledRef) : null;
+    const taskFiles = searchContext ? [...files, searchContext.file] : files;
+    const nativeSearch = useSearch && !this.search;
+    // Instructions given on a re-run are part of the task the provider sees; the output keeps the plain description.
+    const instructed = task.instructions?.trim()
+      ? renderPrompt('task-instructions', { task: task.description, instructions: task.instructions.trim() })
+      : null;
+    const providerTask = instructed ? { ...task, description: instructed.prompt } : task;
+    try {
+      const { result, route } = await this.runWithFallbacks(model, options, isCancelledRef,
+        (service, routeModel) => service.executeTask(routeModel, providerTask, goal, completedTasks, taskFiles, nativeSearch, options, limits, isCancelledRef));
+      const output = instructed
+        ? { ...result, taskDescription: task.description, promptTemplates: [...(result.promptTemplates ?? []), ...instructed.refs] }
+        : result;
+      if (!searchContext) {
+        return { ...output, producedBy: route };
+      }
+      return {
+        ...output,
+        // The result numbers are the `[n]` markers, unless the model wrote and cited its own source list.
+        citations: output.citations.length > 0 ? output.citations : searchContext.citations,
+        producedBy: route,
+        promptTemplates: [...(output.promptTemplates ?? []), ...searchContext.refs],
+      };
+    } catch (err) {
+      // An empty answer from the last model in the chain is recorded rather than failing the run.
+      if (err instanceof EmptyResponseError) {
+        return { taskId: task.id, taskDescription: task.description, output: err.message, citations: [] };
+      }
+      throw err;
     }
-    // For other services, call without the extra parameters
-    return this.service.executeTask(model, task, goal, completedTasks, files, useSearch);
   }
 
   async synthesizeFinalResult(
     model: string,
     goal: string,
     completedTasks: TaskOutput[],
-    options: { [key: string]: any } = {},
-    limits: { doc: number, aux: number } = { doc: 0, aux: 0 },
+    options: ProviderOptions = {},
+    limits: ChunkLimits = { doc: 0, aux: 0 },
     isCancelledRef?: React.RefObject<boolean>
   ): Promise<string> {
-    if (this.service instanceof PollinationsService) {
-      return this.service.synthesizeFinalResult(model, goal, completedTasks, options, limits, isCancelledRef);
+    // Markers are renumbered across tasks first, so those kept in the result resolve against `mergeTaskCitations(completedTasks).citations`.
+    const { outputs } = mergeTaskCitations(completedTasks);
+    try {
+      const { result } = await this.runWithFallbacks(model, options, isCancelledRef,
+        (service, routeModel) => service.synthesizeFinalResult(routeModel, goal, outputs, options, limits, isCancelledRef));
+      return result;
+    } catch (err) {
+      if (err instanceof EmptyResponseError) {
+        return err.message;
+      }
+      throw err;
     }
-    return this.service.synthesizeFinalResult(model, goal, completedTasks);
   }
 }
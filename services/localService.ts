@@ -0,0 +1,253 @@
+import React from 'react';
+import { StoredFile, Task, TaskOutput } from '../types';
+import { LLMProvider, ProviderCapabilities, ProviderOptions, ChunkLimits, ModelInfo, EmptyResponseError, throwIfCancelled, httpOptionsFor, reportOpenAIUsage } from './llmProvider';
+import { ChatCompletionMessage, collectChatCompletionStream, hasChatCompletion } from './streaming';
+import { fetchWithRetry } from './httpClient';
+import { resolveTaskPlan } from './taskPlanValidator';
+import { toChatMessages } from './promptTemplates';
+import { ChatMessage } from './contextBudget';
+import { PromptBudget, fitExecutionPrompt, fitPlanningPrompt, fitSynthesisPrompt, fitVerificationPrompt, stripMarkdown } from './providerPrompts';
+import { ToolDefinition, createToolbox, promptToolInstructionsFor, runOpenAIToolLoop, runPromptToolLoop, toOpenAITools, withToolInstructions } from './taskTools';
+import { registerModels } from './modelCatalog';
+
+export type LocalModel = ModelInfo;
+
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434';
+
+// Accepts "http://host:port", "http://host:port/" or "http://host:port/v1" and returns the /v1 root.
+const toApiBase = (baseUrl: string): string => {
+    const trimmed = (baseUrl || DEFAULT_LOCAL_BASE_URL).trim().replace(/\/+$/, '');
+    return trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+};
+
+const buildHeaders = (apiKey?: string): HeadersInit => {
+    const headers: { [key: string]: string } = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+    return headers;
+};
+
+export const fetchLocalModels = async (baseUrl: string, apiKey?: string): Promise<LocalModel[]> => {
+    if (!baseUrl) return [];
+    try {
+        const response = await fetchWithRetry(`${toApiBase(baseUrl)}/models`, {
+            headers: buildHeaders(apiKey)
+        }, { limitKey: 'local', retry: { maxRetries: 0 } });
+        if (!response.ok) {
+            const errorBody = await response.text();
+            console.error("Local server API Error Body:", errorBody);
+            throw new Error(`Local server API error (${response.status}): ${response.statusText}`);
+        }
+        const { data } = await response.json();
+        // Only some servers report a context length (vLLM as `max_model_len`, LM Studio as `context_length`).
+        const models: LocalModel[] = (data || []).map((model: any) => ({
+            id: model.id,
+            name: model.id,
+            capabilities: { contextWindow: model.max_model_len || model.context_length || undefined },
+        })).sort((a: LocalModel, b: LocalModel) => a.name.localeCompare(b.name));
+        registerModels('local', models);
+        return models;
+    } catch (error) {
+        console.error("Failed to fetch local models:", error);
+        throw new Error(`Could not fetch models from ${toApiBase(baseUrl)}. Please check that the server is running and reachable.`);
+    }
+};
+
+/**
+ * Talks to any server exposing the OpenAI-compatible `/v1/chat/completions` API,
+ * such as Ollama, llama.cpp server, vLLM or LM Studio.
+ */
+export class LocalService implements LLMProvider {
+    public readonly capabilities: ProviderCapabilities = { search: false, chunking: false };
+    private baseUrl: string;
+    private apiKey?: string;
+    private apiBase: string;
+    private headers: HeadersInit;
+
+    constructor(baseUrl: string, apiKey?: string) {
+        this.baseUrl = baseUrl;
+        this.apiKey = apiKey;
+        this.apiBase = toApiBase(baseUrl);
+        this.headers = buildHeaders(apiKey);
+    }
+
+    async listModels(): Promise<ModelInfo[]> {
+        return fetchLocalModels(this.baseUrl, this.apiKey);
+    }
+
+    // Condenses prompt sections that exceed the model's input budget through this provider.
+    private promptBudget(options: ProviderOptions, isCancelledRef?: React.RefObject<boolean>): PromptBudget {
+        return {
+            provider: 'local',
+            condense: (callModel, messages, callOptions) => this.chat(callModel, messages, 'Context Condensing', callOptions, isCancelledRef),
+            options,
+            isCancelledRef,
+        };
+    }
+
+    // Accepts a prompt or a message list. When `options.onToken` is given the response is streamed and each delta is forwarded as it arrives.
+    private async chat(
+        model: string,
+        prompt: string | ChatMessage[],
+        errorLabel: string,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        return (await this.complete(model, prompt, errorLabel, options, isCancelledRef)).content;
+    }
+
+    // Like `chat`, but offers `tools` and returns any tool calls; `allowTools: false` sends `tool_choice: "none"`.
+    private async complete(
+        model: string,
+        prompt: string | any[],
+        errorLabel: string,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>,
+        tools?: ToolDefinition[],
+        allowTools: boolean = true
+    ): Promise<ChatCompletionMessage> {
+        throwIfCancelled(isCancelledRef);
+        const onToken: ((delta: string) => void) | undefined = options.onToken;
+        let response: Response;
+        try {
+            response = await fetchWithRetry(`${this.apiBase}/chat/completions`, {
+                method: 'POST',
+                headers: this.headers,
+                body: JSON.stringify({
+                    model: model,
+                    messages: typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt,
+                    ...(tools ? { tools: toOpenAITools(tools), tool_choice: allowTools ? 'auto' : 'none' } : {}),
+                    stream: !!onToken,
+                    ...(onToken ? { stream_options: { include_usage: true } } : {})
+                })
+            }, { ...httpOptionsFor('local', options, isCancelledRef), cacheable: hasChatCompletion });
+        } catch (error) {
+            throwIfCancelled(isCancelledRef);
+            console.error(`Local server ${errorLabel} request failed:`, error);
+            throw new Error(`Could not connect to the local server at ${this.apiBase}. Please check that it is running.`);
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            console.error(`Local server ${errorLabel} Error:`, errorBody);
+            throw new Error(`Local server API error (${response.status}): ${response.statusText}`);
+        }
+
+        const onUsage = (usage: any) => reportOpenAIUsage(options, 'local', model, usage);
+        if (onToken) {
+            const message = await collectChatCompletionStream(response, onToken, onUsage);
+            throwIfCancelled(isCancelledRef);
+            return message;
+        }
+
+        const data = await response.json();
+        onUsage(data.usage);
+        throwIfCancelled(isCancelledRef);
+        const message = data.choices?.[0]?.message;
+        return { content: message?.content || '', toolCalls: message?.tool_calls || [] };
+    }
+
+    async breakDownGoalIntoTasks(
+        model: string,
+        goal: string,
+        files: StoredFile[],
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<Task[]> {
+        const { system, prompt } = await fitPlanningPrompt(this.promptBudget(options, isCancelledRef), model, goal, files);
+        // The plan is parsed as a whole, so it is never streamed.
+        const { onToken, ...planningOptions } = options;
+        const rawContent = await this.chat(model, toChatMessages({ system, prompt }), 'Plan Generation', planningOptions, isCancelledRef);
+
+        if (!rawContent) {
+            throw new EmptyResponseError("The local model returned an empty response. The selected model may not be suitable for this task.");
+        }
+
+        return resolveTaskPlan(
+            rawContent,
+            (repairPrompt) => this.chat(model, toChatMessages({ system, prompt: `${prompt}\n${repairPrompt}` }), 'Plan Repair', planningOptions, isCancelledRef),
+            { providerName: 'The local model' }
+        );
+    }
+
+    async executeTask(
+        model: string,
+        task: Task,
+        goal: string,
+        completedTasks: TaskOutput[],
+        files: StoredFile[],
+        useSearch: boolean,
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<TaskOutput> {
+        // Local servers have no web search; useSearch is accepted for signature parity and ignored.
+
+        // Local servers rarely report tool support, so most models get the prompt-based protocol.
+        const toolbox = createToolbox(files, completedTasks, options);
+        const toolInstructions = promptToolInstructionsFor('local', model, toolbox);
+
+        const rendered = await fitExecutionPrompt(this.promptBudget(options, isCancelledRef), model, goal, task, files, completedTasks,
+            { tools: toolbox ? 'yes' : '' }, toolInstructions?.system.length ?? 0);
+        const refs = toolInstructions ? [...rendered.refs, ...toolInstructions.refs] : rendered.refs;
+        const messages = toChatMessages({ system: withToolInstructions(rendered.system, toolInstructions), prompt: rendered.prompt });
+
+        const chat = (messages: ChatMessage[]) => this.chat(model, messages, 'Task Execution', options, isCancelledRef);
+        let rawContent: string;
+        if (!toolbox) {
+            rawContent = await chat(messages);
+        } else if (toolInstructions) {
+            rawContent = await runPromptToolLoop(chat, messages, toolbox);
+        } else {
+            rawContent = (await runOpenAIToolLoop(
+                (messages, allowTools) => this.complete(model, messages, 'Task Execution', options, isCancelledRef, toolbox.definitions, allowTools),
+                messages, toolbox
+            )).content;
+        }
+
+        if (!rawContent) {
+          throw new EmptyResponseError();
+        }
+
+        return {
+            taskId: task.id,
+            taskDescription: task.description,
+            output: stripMarkdown(rawContent),
+            citations: [],
+            promptTemplates: refs,
+            toolCalls: toolbox?.calls.length ? toolbox.calls : undefined,
+        };
+    }
+
+    async synthesizeFinalResult(
+        model: string,
+        goal: string,
+        completedTasks: TaskOutput[],
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        const { system, prompt } = await fitSynthesisPrompt(this.promptBudget(options, isCancelledRef), model, goal, completedTasks);
+        const result = await this.chat(model, toChatMessages({ system, prompt }), 'Synthesis', options, isCancelledRef);
+        if (!result) {
+            throw new EmptyResponseError("The model could not synthesize a final result.");
+        }
+        return result;
+    }
+
+    async verifyTaskOutput(
+        model: string,
+        goal: string,
+        taskDescription: string,
+        output: string,
+        options: ProviderOptions = {},
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        const rendered = await fitVerificationPrompt(this.promptBudget(options, isCancelledRef), model, goal, taskDescription, output);
+        // The verdict is parsed as a whole, so it is never streamed.
+        const { onToken, ...verificationOptions } = options;
+        return this.chat(model, toChatMessages(rendered), 'Verification', verificationOptions, isCancelledRef);
+    }
+}
@@ -0,0 +1,45 @@
+import { ModelInfo } from './llmProvider';
+
+// Rough average for English prose and code; budgets derived from it are deliberately conservative.
+export const CHARS_PER_TOKEN = 3.5;
+// Used for models whose context window is unknown, e.g. most local servers.
+export const DEFAULT_INPUT_BUDGET_CHARS = 12000;
+// Output space kept free when the model does not report its maximum output length.
+const DEFAULT_RESERVED_OUTPUT_TOKENS = 4096;
+// Headroom for tokenizer differences between models.
+const BUDGET_SAFETY_FACTOR = 0.85;
+
+const catalog = new Map<string, ModelInfo>();
+
+const catalogKey = (provider: string, model: string) => `${provider}:${model}`;
+
+/**
+ * Adds `models` to the catalog, replacing earlier entries with the same id. Providers call this when they
+ * list their models, so capabilities and pricing are known wherever the model is used, e.g. in a fallback chain.
+ */
+export const registerModels = (provider: string, models: ModelInfo[]): void => {
+    for (const model of models) {
+        catalog.set(catalogKey(provider, model.id), model);
+    }
+};
+
+export const getModelInfo = (provider: string, model: string): ModelInfo | undefined =>
+    catalog.get(catalogKey(provider, model));
+
+/**
+ * How many characters of input a single request to `model` may contain.
+ * An explicit `maxInputChars` wins; otherwise the context window minus the reserved output is converted
+ * to characters. Models without metadata get `DEFAULT_INPUT_BUDGET_CHARS`.
+ */
+export const inputBudgetChars = (provider: string, model: string): number => {
+    const info = getModelInfo(provider, model);
+    if (info?.maxInputChars) {
+        return info.maxInputChars;
+    }
+    const contextWindow = info?.capabilities?.contextWindow;
+    if (!contextWindow) {
+        return DEFAULT_INPUT_BUDGET_CHARS;
+    }
+    const reservedOutput = Math.min(info?.capabilities?.maxOutputTokens ?? DEFAULT_RESERVED_OUTPUT_TOKENS, Math.floor(contextWindow / 4));
+    return Math.floor((contextWindow - reservedOutput) * CHARS_PER_TOKEN * BUDGET_SAFETY_FACTOR);
+};
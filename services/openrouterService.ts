@@ -1,25 +1,60 @@
-import { StoredFile, Task, TaskStatus, TaskOutput, Citation } from '../types';
-
-export interface OpenRouterModel {
-    id: string;
-    name: string;
-}
+import React from 'react';
+import { StoredFile, Task, TaskOutput, Citation } from '../types';
+import { LLMProvider, ProviderCapabilities, ProviderOptions, ChunkLimits, ModelInfo, ModelPricing, ModelCapabilities, EmptyResponseError, throwIfCancelled, httpOptionsFor, reportOpenAIUsage } from './llmProvider';
+import { ChatCompletionMessage, UrlCitation, collectChatCompletionStream, urlCitationsOf, hasChatCompletion } from './streaming';
+import { fetchWithRetry } from './httpClient';
+import { registerModels } from './modelCatalog';
+import { resolveTaskPlan } from './taskPlanValidator';
+import { toChatMessages } from './promptTemplates';
+import { ChatMessage } from './contextBudget';
+import { PromptBudget, fitExecutionPrompt, fitPlanningPrompt, fitSynthesisPrompt, fitVerificationPrompt, stripMarkdown } from './providerPrompts';
+import { CitationAnchor, addCitation, insertCitationMarkers, renumberCitationMarkers } from './citations';
+import { ToolDefinition, createToolbox, promptToolInstructionsFor, runOpenAIToolLoop, runPromptToolLoop, toOpenAITools, withToolInstructions } from './taskTools';
+
+export type OpenRouterModel = ModelInfo;
 
 const OPENROUTER_API_BASE = 'https://openrouter.ai/api/v1';
 
+// OpenRouter lists prices as decimal strings in USD per token; "-1" marks variable pricing (e.g. the auto router).
+const parsePricing = (pricing: any): ModelPricing | undefined => {
+    const prompt = Number(pricing?.prompt);
+    const completion = Number(pricing?.completion);
+    if (isNaN(prompt) || isNaN(completion) || prompt < 0 || completion < 0) return undefined;
+    return { prompt, completion };
+};
+
+const parseCapabilities = (model: any): ModelCapabilities => {
+    const supported: string[] = Array.isArray(model.supported_parameters) ? model.supported_parameters : [];
+    return {
+        contextWindow: model.context_length || model.top_provider?.context_length || undefined,
+        maxOutputTokens: model.top_provider?.max_completion_tokens || undefined,
+        jsonMode: supported.includes('response_format') || supported.includes('structured_outputs'),
+        tools: supported.includes('tools'),
+        // Web search is available for every model through the `:online` suffix.
+        search: true,
+    };
+};
+
 export const fetchOpenRouterModels = async (apiKey: string): Promise<OpenRouterModel[]> => {
     if (!apiKey) return [];
     try {
-        const response = await fetch(`${OPENROUTER_API_BASE}/models`, {
+        const response = await fetchWithRetry(`${OPENROUTER_API_BASE}/models`, {
             headers: { 'Authorization': `Bearer ${apiKey}` }
-        });
+        }, { limitKey: 'openrouter', retry: { maxRetries: 1 } });
         if (!response.ok) {
             const errorBody = await response.text();
             console.error("OpenRouter API Error Body:", errorBody);
             throw new Error(`OpenRouter API error (${response.status}): ${response.statusText}`);
         }
         const { data } = await response.json();
-        return data.map((model: any) => ({ id: model.id, name: model.name || model.id })).sort((a:OpenRouterModel,b:OpenRouterModel) => a.name.localeCompare(b.name));
+        const models: OpenRouterModel[] = data.map((model: any) => ({
+            id: model.id,
+            name: model.name || model.id,
+            capabilities: parseCapabilities(model),
+            pricing: parsePricing(model.pricing),
+        })).sort((a:OpenRouterModel,b:OpenRouterModel) => a.name.localeCompare(b.name));
+        registerModels('openrouter', models);
+        return models;
     } catch (error) {
         console.error("Failed to fetch OpenRouter models:", error);
         if (error instanceof Error && error.message.includes("404")) {
@@ -32,7 +67,8 @@ export const fetchOpenRouterModels = async (apiKey: string): Promise<OpenRouterM
     }
 };
 
-export class OpenRouterService {
+export class OpenRouterService implements LLMProvider {
+    public readonly capabilities: ProviderCapabilities = { search: true, chunking: false };
     private apiKey: string;
     private headers: HeadersInit;
 
@@ -44,28 +80,120 @@ export class OpenRouterService {
         };
     }
     
-    private stripMarkdown(text: string): string {
-      return text.replace(/```json\n?([\s\S]*?)\n?```/, '$1').trim();
+    async listModels(): Promise<ModelInfo[]> {
+        return fetchOpenRouterModels(this.apiKey);
+    }
+
+    // Sends a chat completion for a prompt or message list. When `options.onToken` is given the response is streamed.
+    private async chat(
+        model: string,
+        prompt: string | ChatMessage[],
+        errorLabel: string,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        return (await this.complete(model, prompt, errorLabel, options, isCancelledRef)).content;
+    }
+
+    // Like `chat`, but offers `tools` and returns any tool calls and URL citations; `allowTools: false` sends `tool_choice: "none"`.
+    private async complete(
+        model: string,
+        prompt: string | any[],
+        errorLabel: string,
+        options: ProviderOptions,
+        isCancelledRef?: React.RefObject<boolean>,
+        tools?: ToolDefinition[],
+        allowTools: boolean = true
+    ): Promise<ChatCompletionMessage> {
+        const onToken: ((delta: string) => void) | undefined = options.onToken;
+        const response = await fetchWithRetry(`${OPENROUTER_API_BASE}/chat/completions`, {
+            method: 'POST',
+            headers: this.headers,
+            body: JSON.stringify({
+                model: model,
+                messages: typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt,
+                ...(tools ? { tools: toOpenAITools(tools), tool_choice: allowTools ? 'auto' : 'none' } : {}),
+                ...(onToken ? { stream: true, stream_options: { include_usage: true } } : {})
+            })
+        }, { ...httpOptionsFor('openrouter', options, isCancelledRef), cacheable: hasChatCompletion });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            console.error(`OpenRouter ${errorLabel} Error:`, errorBody);
+            throw new Error(`OpenRouter API error (${response.status}): ${response.statusText}`);
+        }
+
+        const onUsage = (usage: any) => reportOpenAIUsage(options, 'openrouter', model, usage);
+        if (onToken) {
+            return collectChatCompletionStream(response, onToken, onUsage);
+        }
+        const data = await response.json();
+        onUsage(data.usage);
+        const message = data.choices?.[0]?.message;
+        const annotations = urlCitationsOf(message?.annotations);
+        return {
+            content: message?.content || '',
+            toolCalls: message?.tool_calls || [],
+            ...(annotations.length > 0 ? { annotations } : {}),
+        };
+    }
+
+    // Condenses prompt sections that exceed the model's input budget through this provider.
+    private promptBudget(options: ProviderOptions, isCancelledRef?: React.RefObject<boolean>): PromptBudget {
+        return {
+            provider: 'openrouter',
+            condense: (callModel, messages, callOptions) => this.chat(callModel, messages, 'Context Condensing', callOptions, isCancelledRef),
+            options,
+            isCancelledRef,
+        };
+    }
+
+    // Marks the spans `annotations` cite with `[n]` markers. OpenRouter's `:online` models attach these.
+    private citeAnnotations(text: string, annotations: UrlCitation[]): { output: string, citations: Citation[] } {
+        const citations: Citation[] = [];
+        const anchors: CitationAnchor[] = [];
+        for (const annotation of annotations) {
+            let hostname: string;
+            try {
+                hostname = new URL(annotation.url).hostname;
+            } catch {
+                continue;
+            }
+            const index = addCitation(citations, { uri: annotation.url, title: annotation.title || hostname });
+            anchors.push({ end: annotation.end_index ?? text.length, citations: [index] });
+        }
+        return { output: insertCitationMarkers(text, anchors), citations };
     }
 
     private extractCitationsFromText(text: string): { output: string, citations: Citation[] } {
-        const urlRegex = /(https?:\/\/[^\s)]+)/g;
+        const urlRegex = /(https?:\/\/[^\s)>\]]+)/;
         const citations: Citation[] = [];
         let output = text;
 
         // Check for a "References" or "Sources" section to extract URLs from
-        const sourcesSectionMatch = text.match(/(sources|references|citations):?\s*\n((.|\n)*)/im);
+        const sourcesSectionMatch = text.match(/[#*_]*(sources|references|citations)[*_]*:?[*_]*\s*\n((.|\n)*)/im);
         if(sourcesSectionMatch) {
-            const urls = sourcesSectionMatch[2].match(urlRegex);
-            if(urls) {
-                urls.forEach(url => {
-                    citations.push({
-                        uri: url,
-                        title: new URL(url).hostname,
-                    });
-                });
+            // Entries numbered as "[2] Title - URL" or "2. URL" tie the `[n]` markers in the text to their source.
+            const numbering = new Map<number, number>();
+            for (const line of sourcesSectionMatch[2].split('\n')) {
+                const url = line.match(urlRegex)?.[1];
+                if (!url) continue;
+                let hostname: string;
+                try {
+                    hostname = new URL(url).hostname;
+                } catch {
+                    continue;
+                }
+                const label = line.match(/^\s*(?:[-*]\s*)?\[?(\d+)[\].):]/);
+                const title = line.slice(label ? label[0].length : 0, line.indexOf(url))
+                    .replace(/^[\s*_"-]+|[\s*_"(<\[:|\u2013\u2014-]+$/g, '');
+                const index = addCitation(citations, { uri: url, title: title || hostname });
+                if (label) numbering.set(Number(label[1]), index + 1);
+            }
+            if (citations.length > 0) {
                 // Clean the sources section from the main output
                 output = text.substring(0, sourcesSectionMatch.index).trim();
+                output = renumberCitationMarkers(output, n => numbering.get(n));
             }
         }
         
@@ -75,53 +203,27 @@ export class OpenRouterService {
     async breakDownGoalIntoTasks(
         model: string,
         goal: string,
-        files: StoredFile[]
+        files: StoredFile[],
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
     ): Promise<Task[]> {
-        const fileContext = files.map(f => `File: ${f.name}\nContent:\n${f.content}`).join('\n\n---\n\n');
-        const prompt = `
-Based on the primary goal and the provided file contents, break down the goal into a series of smaller, actionable tasks.
-Each task should be a single, clear step towards achieving the main goal.
-Return the tasks as a JSON array of objects, where each object has an "id" (a short, unique, hyphenated string) and a "description".
-
-Primary Goal:
-${goal}
-
-${files.length > 0 ? `File Contents:\n${fileContext}` : ''}
-
-Provide ONLY the JSON array of tasks. Do not include any other text, commentary, or markdown formatting.
-`;
-        const body = JSON.stringify({
-            model: model,
-            messages: [{ role: 'user', content: prompt }]
-        });
-
-        const response = await fetch(`${OPENROUTER_API_BASE}/chat/completions`, {
-            method: 'POST',
-            headers: this.headers,
-            body: body
-        });
-        
-        if (!response.ok) {
-            const errorBody = await response.text();
-            console.error("OpenRouter Plan Generation Error:", errorBody);
-            throw new Error(`OpenRouter API error (${response.status}): ${response.statusText}`);
-        }
-        
-        const data = await response.json();
-        const rawContent = data.choices[0]?.message?.content;
+        throwIfCancelled(isCancelledRef);
+        const { system, prompt } = await fitPlanningPrompt(this.promptBudget(options, isCancelledRef), model, goal, files);
+        // The plan is parsed as a whole, so it is never streamed.
+        const { onToken, ...planningOptions } = options;
+        const rawContent = await this.chat(model, toChatMessages({ system, prompt }), 'Plan Generation', planningOptions, isCancelledRef);
+        throwIfCancelled(isCancelledRef);
         
         if (!rawContent) {
-            throw new Error("OpenRouter returned an empty response. The selected model may not be suitable for this task.");
+            throw new EmptyResponseError("OpenRouter returned an empty response. The selected model may not be suitable for this task.");
         }
 
-        try {
-            const jsonString = this.stripMarkdown(rawContent);
-            const tasksJson = JSON.parse(jsonString);
-            return tasksJson.map((task: any) => ({ ...task, status: TaskStatus.PENDING }));
-        } catch (e) {
-            console.error("Failed to parse task list JSON from OpenRouter:", e, "\nRaw content:", rawContent);
-            throw new Error("OpenRouter could not generate a valid task list. Please try a different model.");
-        }
+        return resolveTaskPlan(
+            rawContent,
+            (repairPrompt) => this.chat(model, toChatMessages({ system, prompt: `${prompt}\n${repairPrompt}` }), 'Plan Repair', planningOptions, isCancelledRef),
+            { providerName: 'OpenRouter' }
+        );
     }
 
     async executeTask(
@@ -130,92 +232,43 @@ Provide ONLY the JSON array of tasks. Do not include any other text, commentary,
         goal: string,
         completedTasks: TaskOutput[],
         files: StoredFile[],
-        useSearch: boolean
+        useSearch: boolean,
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
     ): Promise<TaskOutput> {
-        
-        const fileContext = files.map(f => `File: ${f.name}\nContent:\n${f.content}`).join('\n\n---\n\n');
-        const completedTasksContext = completedTasks.map(t => `Completed Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n');
-        
-        const modelToUse = useSearch ? `${model}:online` : model;
-
-        const prompt = `
-You are an expert developer assistant. Your task is to generate the output for a specific step in a larger project.
-Base your answer ONLY on the context provided.
-Primary Goal: ${goal}
-File Contents: ${fileContext}
-Completed Tasks Context: ${completedTasksContext}
+        throwIfCancelled(isCancelledRef);
 
-Current Task: "${task.description}"
-
-Based on the provided context, generate the precise output for the task.
-Do not add any extra commentary, greetings, or explanations beyond what the task requires.
-
-**SPECIAL INSTRUCTIONS FOR OUTPUT FORMATTING:**
-Your output format depends on the nature of the task. Follow these rules precisely:
-
-1.  **For Calendar Events:** If the task is to create a calendar event, appointment, or meeting, you MUST format the output as a single, valid JSON object. Do not wrap it in markdown.
-    {
-      "@type": "CalendarEvent",
-      "summary": "Event Title",
-      "description": "A brief description of the event.",
-      "start": "YYYY-MM-DDTHH:mm:ss",
-      "end": "YYYY-MM-DDTHH:mm:ss",
-      "location": "Event Location"
-    }
-
-2.  **For Geographic Locations/Maps:** If the task involves finding a location or coordinates, you MUST format the output as a single, valid JSON object:
-    {
-      "@type": "Map",
-      "latitude": 40.7128,
-      "longitude": -74.0060,
-      "label": "A descriptive label for the pin"
-    }
-
-3.  **For Data Visualization/Charts:** If the task is to create a chart or graph, you MUST generate a self-contained SVG string representing that chart. Format the output as a single, valid JSON object:
-    {
-      "@type": "Chart",
-      "title": "Title of the Chart",
-      "svg": "<svg width='400' height='200' xmlns='http://www.w3.org/2000/svg'>...</svg>"
-    }
-    **IMPORTANT SVG REQUIREMENTS:** The SVG must be visually appealing on a dark background. Use light-colored text (e.g., white, #d1d5db) and vibrant, distinct colors for data elements.
-
-4.  **For HTML UI Components:** If the task is to create a piece of UI, you MUST format the output as a single, valid JSON object.
-    {
-      "@type": "HtmlSnippet",
-      "html": "<div>Your HTML here</div>",
-      "css": "div { color: hotpink; }",
-      "js": "console.log('Hello from the snippet');"
-    }
-
-5.  **For ALL OTHER tasks (e.g., writing code, explaining concepts):** Provide the output as plain text, markdown, or a code block. Do not wrap it in JSON.
-- If you use web search, please cite your sources with full URLs in a "References" section at the end.
-`;
-
-        const body = {
-            model: modelToUse,
-            messages: [{ role: 'user', content: prompt }]
-        };
-
-        const response = await fetch(`${OPENROUTER_API_BASE}/chat/completions`, {
-            method: 'POST',
-            headers: this.headers,
-            body: JSON.stringify(body)
-        });
-
-        if (!response.ok) {
-            const errorBody = await response.text();
-            console.error("OpenRouter Task Execution Error:", errorBody);
-            throw new Error(`OpenRouter API error (${response.status}): ${response.statusText}`);
+        const modelToUse = useSearch ? `${model}:online` : model;
+        const toolbox = createToolbox(files, completedTasks, options);
+        const toolInstructions = promptToolInstructionsFor('openrouter', model, toolbox);
+
+        const rendered = await fitExecutionPrompt(this.promptBudget(options, isCancelledRef), model, goal, task, files, completedTasks,
+            { citeSources: useSearch ? 'yes' : '', tools: toolbox ? 'yes' : '' }, toolInstructions?.system.length ?? 0);
+        const refs = toolInstructions ? [...rendered.refs, ...toolInstructions.refs] : rendered.refs;
+        const messages = toChatMessages({ system: withToolInstructions(rendered.system, toolInstructions), prompt: rendered.prompt });
+
+        const chat = (messages: ChatMessage[]) => this.chat(modelToUse, messages, 'Task Execution', options, isCancelledRef);
+        let reply: ChatCompletionMessage;
+        if (!toolbox) {
+            reply = await this.complete(modelToUse, messages, 'Task Execution', options, isCancelledRef);
+        } else if (toolInstructions) {
+            reply = { content: await runPromptToolLoop(chat, messages, toolbox), toolCalls: [] };
+        } else {
+            reply = await runOpenAIToolLoop(
+                (messages, allowTools) => this.complete(modelToUse, messages, 'Task Execution', options, isCancelledRef, toolbox.definitions, allowTools),
+                messages, toolbox
+            );
         }
-        
-        const data = await response.json();
-        const rawContent = data.choices[0]?.message?.content;
+        throwIfCancelled(isCancelledRef);
+        const rawContent = reply.content;
+        const toolCalls = toolbox?.calls.length ? toolbox.calls : undefined;
 
         if (!rawContent) {
-          return { taskId: task.id, taskDescription: task.description, output: "The model returned an empty response.", citations: [] };
+          throw new EmptyResponseError();
         }
         
-        const strippedContent = this.stripMarkdown(rawContent);
+        const strippedContent = stripMarkdown(rawContent);
         
         try {
             // Check if the output is one of our special JSON objects
@@ -226,72 +279,61 @@ Your output format depends on the nature of the task. Follow these rules precise
                     taskDescription: task.description,
                     output: strippedContent, // Return the clean JSON string
                     citations: [],
+                    promptTemplates: refs,
+                    toolCalls,
                 }
             }
         } catch (e) {
             // Not a JSON object, proceed as normal text
         }
 
-        const { output, citations } = this.extractCitationsFromText(rawContent);
+        const { output, citations } = reply.annotations
+            ? this.citeAnnotations(rawContent, reply.annotations)
+            : this.extractCitationsFromText(rawContent);
 
         return {
             taskId: task.id,
             taskDescription: task.description,
             output: output,
             citations: citations,
+            promptTemplates: refs,
+            toolCalls,
         };
     }
 
     async synthesizeFinalResult(
         model: string,
         goal: string,
-        completedTasks: TaskOutput[]
+        completedTasks: TaskOutput[],
+        options: ProviderOptions = {},
+        limits: ChunkLimits = { doc: 0, aux: 0 },
+        isCancelledRef?: React.RefObject<boolean>
     ): Promise<string> {
-        const completedTasksContext = completedTasks
-            .map(t => `Task: ${t.taskDescription}\nOutput:\n${t.output}`)
-            .join('\n\n---\n\n');
-
-        const prompt = `
-You are a master synthesizer. Your job is to take a user's original goal and the raw outputs from a series of automated tasks, and transform them into a final, polished, and coherent result.
+        throwIfCancelled(isCancelledRef);
+        const { system, prompt } = await fitSynthesisPrompt(this.promptBudget(options, isCancelledRef), model, goal, completedTasks);
 
-**Primary Goal:**
-${goal}
-
-**Individual Task Outputs:**
----
-${completedTasksContext}
----
-
-**Your Instructions:**
-1.  Carefully review the Primary Goal. This is the ultimate objective.
-2.  Analyze the individual task outputs. These are the raw materials and building blocks.
-3.  Synthesize a single, final response that directly and completely fulfills the Primary Goal.
-4.  **DO NOT** simply list or repeat the task outputs. Integrate them intelligently. If an output is a JSON object like a CalendarEvent or Map, describe it in the final summary in a human-readable way. Do not include the raw JSON in the final result.
-5.  If the goal was to create a single artifact (e.g., a summary, a document, a piece of code), your response should be ONLY that artifact.
-6.  If the goal was a question, your response should be the final, complete answer.
-7.  The final output should be clean, well-formatted, and ready for the user. Eliminate any redundancy or intermediate steps present in the task outputs.
-
-Produce ONLY the final, synthesized result.
-`;
-
-        const body = JSON.stringify({
-            model: model,
-            messages: [{ role: 'user', content: prompt }]
-        });
-
-        const response = await fetch(`${OPENROUTER_API_BASE}/chat/completions`, {
-            method: 'POST',
-            headers: this.headers,
-            body: body
-        });
-        
-        if (!response.ok) {
-            const errorBody = await response.text();
-            console.error("OpenRouter Synthesis Error:", errorBody);
-            throw new Error(`OpenRouter API error during synthesis (${response.status}): ${response.statusText}`);
+        const result = await this.chat(model, toChatMessages({ system, prompt }), 'Synthesis', options, isCancelledRef);
+        throwIfCancelled(isCancelledRef);
+        if (!result) {
+            throw new EmptyResponseError("The model could not synthesize a final result.");
         }
-        
-        const data = await response.json();
-        return data.choices[0]?.message?.content || "The model could not synthesize a final result.";
+        return result;
     }
-}
\ No newline at end of file
+
+    async verifyTaskOutput(
+        model: string,
+        goal: string,
+        taskDescription: string,
+        output: string,
+        options: ProviderOptions = {},
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        throwIfCancelled(isCancelledRef);
+        const rendered = await fitVerificationPrompt(this.promptBudget(options, isCancelledRef), model, goal, taskDescription, output);
+        // The verdict is parsed as a whole, so it is never streamed.
+        const { onToken, ...verificationOptions } = options;
+        const result = await this.chat(model, toChatMessages(rendered), 'Verification', verificationOptions, isCancelledRef);
+        throwIfCancelled(isCancelledRef);
+        return result;
+    }
+}
@@ -2,7 +2,7 @@ import React from 'react';
 import { ChunkPriority } from '../types';
 
 // A function signature for the API call to avoid circular dependencies
-type ApiCallFunction = (model: string, messages: { role: string; content: string }[], options: { [key: string]: any }) => Promise<string>;
+export type ApiCallFunction = (model: string, messages: { role: string; content: string }[], options: { [key: string]: any }) => Promise<string>;
 
 /**
  * Executes an array of promise-generating functions with a limited concurrency.
@@ -34,6 +34,33 @@ async function runPromisesInBatches<T>(
     return results;
 }
 
+/**
+ * Creates per-call token handlers for results that are streamed one after another and later joined.
+ * The separator is emitted before the first delta of every part except the first, so the streamed
+ * text matches the joined result.
+ * @param onToken The caller's token handler, if streaming was requested.
+ * @param separator The string the parts are joined with.
+ * @returns A function that returns a fresh token handler for each part.
+ */
+function createPartTokenStreams(
+    onToken: ((delta: string) => void) | undefined,
+    separator: string
+): () => ((delta: string) => void) | undefined {
+    let hasStreamedAnyPart = false;
+    return () => {
+        if (!onToken) return undefined;
+        let isFirstDelta = true;
+        return (delta: string) => {
+            if (isFirstDelta && hasStreamedAnyPart) {
+                onToken(separator);
+            }
+            isFirstDelta = false;
+            hasStreamedAnyPart = true;
+            onToken(delta);
+        };
+    };
+}
+
 /**
  * Makes a single API call to get priority scores for a list of text chunks.
  * @returns A promise that resolves to an array of chunk priorities.
@@ -56,7 +83,8 @@ ${concatenatedChunks}
 `;
 
     try {
-        const priorityModel = "google/gemma-2-9b-it"; // Use a fast model for this
+        // Scoring only needs a rough ranking, so a cheaper model can be routed to it.
+        const priorityModel = options.scoringModel || model;
         const result = await apiCallFn(priorityModel, [{ role: 'user', content: prompt }], { ...options, reasoning_effort: 'minimal' });
         const jsonResult = JSON.parse(result.replace(/```json\n?([\s\S]*?)\n?```/, '$1').trim());
         // Basic validation
@@ -87,7 +115,8 @@ async function processInChunks(
     auxiliaryContext: string,
     onProgress: (progress: { completed: number, total: number }) => void,
     limits: { doc: number, aux: number } = { doc: 0, aux: 0 },
-    isCancelledRef?: React.RefObject<boolean>
+    isCancelledRef?: React.RefObject<boolean>,
+    nextPartTokenStream?: () => ((delta: string) => void) | undefined
 ): Promise<string[]> {
     const maxInputChars = options.maxInputChars || 5000;
     const templateLength = promptTemplate('', '').length + systemPrompt.length;
@@ -108,17 +137,18 @@ async function processInChunks(
     const mainContentChunks = chunkContent(mainContent, mainChunkSize);
     const auxContentChunks = chunkContent(auxiliaryContext, auxChunkSize);
 
-    let selectedMainChunks = mainContentChunks;
-    let selectedAuxChunks = auxContentChunks;
+    // Chunks are kept by index, so the trace can tell which ones each call processed.
+    let selectedMainChunks = mainContentChunks.map((_, index) => index);
+    let selectedAuxChunks = auxContentChunks.map((_, index) => index);
     
     // Prioritize and slice main document chunks if a limit is set
     if (limits.doc > 0 && limits.doc < selectedMainChunks.length) {
         console.log(`Limiting document chunks from ${selectedMainChunks.length} to ${limits.doc}. Prioritizing...`);
-        const priorities = await _getChunkPriorities(apiCallFn, model, options, auxiliaryContext, selectedMainChunks);
+        const priorities = await _getChunkPriorities(apiCallFn, model, options, auxiliaryContext, mainContentChunks);
         selectedMainChunks = priorities
             .sort((a, b) => b.score - a.score)
             .slice(0, limits.doc)
-            .map(p => mainContentChunks[p.chunk_index]);
+            .map(p => p.chunk_index);
     }
 
     // Prioritize and slice auxiliary context chunks if a limit is set
@@ -126,11 +156,11 @@ async function processInChunks(
         console.log(`Limiting context chunks from ${selectedAuxChunks.length} to ${limits.aux}. Prioritizing...`);
         // When prioritizing context, the "goal" is the main content itself (or a summary)
         const mainContentSummary = mainContent.substring(0, 500);
-        const priorities = await _getChunkPriorities(apiCallFn, model, options, mainContentSummary, selectedAuxChunks);
+        const priorities = await _getChunkPriorities(apiCallFn, model, options, mainContentSummary, auxContentChunks);
         selectedAuxChunks = priorities
             .sort((a, b) => b.score - a.score)
             .slice(0, limits.aux)
-            .map(p => auxContentChunks[p.chunk_index]);
+            .map(p => p.chunk_index);
     }
     
     const finalTotalCalls = selectedMainChunks.length * selectedAuxChunks.length;
@@ -139,14 +169,16 @@ async function processInChunks(
     const promiseFactories: (() => Promise<string>)[] = [];
     
     // Create the N*M cross-product of API calls
-    for (const mainChunk of selectedMainChunks) {
-        for (const auxChunk of selectedAuxChunks) {
+    for (const doc of selectedMainChunks) {
+        for (const aux of selectedAuxChunks) {
             promiseFactories.push(() => {
                 const messages = [
                     { role: 'system', content: systemPrompt },
-                    { role: 'user', content: promptTemplate(mainChunk, auxChunk) }
+                    { role: 'user', content: promptTemplate(mainContentChunks[doc], auxContentChunks[aux]) }
                 ];
-                return apiCallFn(model, messages, options);
+                const onToken = nextPartTokenStream?.();
+                const chunkOptions = { ...options, chunk: { doc, aux } };
+                return apiCallFn(model, messages, onToken ? { ...chunkOptions, onToken } : chunkOptions);
             });
         }
     }
@@ -182,12 +214,14 @@ export async function processAndSynthesize(
     isCancelledRef?: React.RefObject<boolean>,
     finalJoinStrategy: 'string-concat' | 'json-array' = 'string-concat'
 ): Promise<string> {
+    // Only the calls that produce the final text are streamed; intermediate chunk calls are not.
+    const { onToken, ...callOptions } = options;
     
     // Step 1: Process content in chunks
     const partialResults = await processInChunks(
         apiCallFn,
         model,
-        options,
+        callOptions,
         processingSystemPrompt,
         processingPromptTemplate,
         mainContent,
@@ -229,14 +263,18 @@ export async function processAndSynthesize(
         synthesisChunks.push(combinedPartialResults.substring(i, i + availableCharsForSynth));
     }
     
-    const synthesisPromiseFactories = synthesisChunks.map(chunk => {
+    // JSON parts are merged after the fact, so only plain-text synthesis parts are streamed.
+    const nextPartTokenStream = createPartTokenStreams(finalJoinStrategy === 'string-concat' ? onToken : undefined, '\n\n');
+    const synthesisPromiseFactories = synthesisChunks.map((chunk, index) => {
         return () => {
             if (isCancelledRef?.current) throw new Error('Process stopped by user.');
             const synthesisMessages = [
                 { role: 'system', content: synthesisSystemPrompt },
                 { role: 'user', content: synthesisPromptTemplate(chunk) }
             ];
-            return apiCallFn(model, synthesisMessages, options);
+            const partOnToken = nextPartTokenStream();
+            const partOptions = { ...callOptions, chunk: { doc: index, aux: 0 } };
+            return apiCallFn(model, synthesisMessages, partOnToken ? { ...partOptions, onToken: partOnToken } : partOptions);
         };
     });
 
@@ -292,18 +330,21 @@ export async function processAndConcatenate(
     limits: { doc: number, aux: number } = { doc: 0, aux: 0 },
     isCancelledRef?: React.RefObject<boolean>
 ): Promise<string> {
+    // Every chunk result is part of the final output, so each call is streamed in turn.
+    const { onToken, ...callOptions } = options;
     
     const partialResults = await processInChunks(
         apiCallFn,
         model,
-        options,
+        callOptions,
         processingSystemPrompt,
         processingPromptTemplate,
         mainContent,
         auxiliaryContext,
         onProgress, // Pass the simplified progress handler directly
         limits,
-        isCancelledRef
+        isCancelledRef,
+        createPartTokenStreams(onToken, '\n\n---\n\n')
     );
 
     if (isCancelledRef?.current) throw new Error('Process stopped by user.');
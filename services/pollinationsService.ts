@@ -1,12 +1,15 @@
 import React from 'react';
-import { StoredFile, Task, TaskStatus, TaskOutput } from '../types';
+import { StoredFile, Task, TaskOutput } from '../types';
 import { processAndSynthesize, processAndConcatenate } from './pollinationsProcessor';
+import { LLMProvider, ProviderCapabilities, ModelInfo, EmptyResponseError, httpOptionsFor, reportOpenAIUsage } from './llmProvider';
+import { readChatCompletionStream, collectStream, hasChatCompletion } from './streaming';
+import { fetchWithRetry } from './httpClient';
+import { resolveTaskPlan } from './taskPlanValidator';
+import { renderPrompt } from './promptTemplates';
+import { registerModels, inputBudgetChars } from './modelCatalog';
+import { createToolbox, renderToolInstructions, runPromptToolLoop, withToolInstructions } from './taskTools';
 
-export interface PollinationsModel {
-    id: string;
-    name: string;
-    maxInputChars?: number;
-}
+export type PollinationsModel = ModelInfo;
 
 interface DynamicParams {
   temperature?: number;
@@ -15,6 +18,8 @@ interface DynamicParams {
 }
 
 const POLLINATIONS_API_HOST = 'https://text.pollinations.ai';
+// Anonymous-tier models that do not report a limit are conservatively budgeted.
+const DEFAULT_POLLINATIONS_INPUT_CHARS = 5000;
 
 
 export const parseDynamicParameters = (goal: string): DynamicParams => {
@@ -46,7 +51,7 @@ export const parseDynamicParameters = (goal: string): DynamicParams => {
 
 export const fetchPollinationsModels = async (): Promise<PollinationsModel[]> => {
     try {
-        const response = await fetch(`${POLLINATIONS_API_HOST}/models`);
+        const response = await fetchWithRetry(`${POLLINATIONS_API_HOST}/models`, {}, { limitKey: 'pollinations', retry: { maxRetries: 2 } });
         if (!response.ok) {
             throw new Error(`Failed to fetch models from Pollinations API (${response.status})`);
         }
@@ -57,9 +62,14 @@ export const fetchPollinationsModels = async (): Promise<PollinationsModel[]> =>
             .map(model => ({
                 id: model.name,
                 name: model.description,
-                maxInputChars: model.maxInputChars,
+                maxInputChars: model.maxInputChars || DEFAULT_POLLINATIONS_INPUT_CHARS,
+                capabilities: {
+                    tools: !!model.tools,
+                    search: !!model.search,
+                },
             }));
             
+        registerModels('pollinations', anonymousModels);
         return anonymousModels;
     } catch (error) {
         console.error("Failed to fetch or process Pollinations models:", error);
@@ -67,19 +77,22 @@ export const fetchPollinationsModels = async (): Promise<PollinationsModel[]> =>
     }
 };
 
-export class PollinationsService {
+export class PollinationsService implements LLMProvider {
+    public readonly capabilities: ProviderCapabilities = { search: false, chunking: true };
+
     constructor() {}
 
-    private stripMarkdown(text: string): string {
-      return text.replace(/```json\n?([\s\S]*?)\n?```/, '$1').trim();
+    async listModels(): Promise<ModelInfo[]> {
+        return fetchPollinationsModels();
     }
-    
+
     private async callApi(model: string, messages: { role: string; content: string }[], options: { [key: string]: any }): Promise<string> {
         try {
             const body: { [key: string]: any } = {
                 model,
                 messages,
-                stream: false
+                stream: !!options.onToken,
+                ...(options.onToken ? { stream_options: { include_usage: true } } : {})
             };
 
             if (options.temperature) body.temperature = options.temperature;
@@ -90,11 +103,11 @@ export class PollinationsService {
                 messages.unshift({ role: 'system', content: options.system_prompt });
             }
 
-            const response = await fetch(`${POLLINATIONS_API_HOST}/openai`, {
+            const response = await fetchWithRetry(`${POLLINATIONS_API_HOST}/openai`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(body)
-            });
+            }, { ...httpOptionsFor('pollinations', options, options.isCancelledRef), cacheable: hasChatCompletion });
 
             if (!response.ok) {
                 const errorBody = await response.text();
@@ -102,7 +115,13 @@ export class PollinationsService {
                 throw new Error(`Pollinations API error (${response.status}): ${response.statusText}`);
             }
 
+            const onUsage = (usage: any) => reportOpenAIUsage(options, 'pollinations', model, usage);
+            if (options.onToken) {
+                return await collectStream(readChatCompletionStream(response, onUsage), options.onToken);
+            }
+
             const data = await response.json();
+            onUsage(data.usage);
             return data.choices?.[0]?.message?.content || '';
         } catch (error) {
             console.error("Pollinations API call failed:", error);
@@ -160,48 +179,22 @@ export class PollinationsService {
     ): Promise<Task[]> {
         const fileContext = files.map(f => `File: ${f.name}\nContent:\n${f.content}`).join('\n\n');
         
-        const processingSystemPrompt = "You are an AI assistant that breaks down a goal into a list of smaller, actionable tasks based on provided context. You MUST respond with ONLY a valid JSON array of tasks, where each task has a unique 'id' and a 'description'.";
-
-        const processingPromptTemplate = (mainChunk: string, auxChunk: string) => `
-Based on the primary goal and the following chunk of file contents, suggest a list of actionable tasks.
-
-Primary Goal (from context chunk):
-${auxChunk}
-
-File Content Chunk:
----
-${mainChunk || 'No file content provided in this chunk.'}
----
-
-Respond with ONLY the JSON array of tasks.
-`;
-
-        const synthesisSystemPrompt = `You are a master synthesizer. Your job is to combine partial task lists from a previous step into a single, coherent, and de-duplicated final JSON task list.`;
-        
-        const synthesisPromptTemplate = (partialResults: string) => `
-The following are several lists of tasks generated from different parts of a document. 
-Combine them into a single, coherent, and de-duplicated final task list in the required JSON format.
-
-Primary Goal:
-${goal}
-
-Partial Task Lists (in JSON format):
----
-${partialResults}
----
-
-Provide ONLY the final, combined JSON array of tasks.
-`;
+        const processing = renderPrompt('planning-chunk', {});
+        const synthesis = renderPrompt('planning-merge', { goal });
+        const processingPromptTemplate = (mainChunk: string, auxChunk: string) =>
+            renderPrompt('planning-chunk', { mainChunk, auxChunk }).prompt;
+        const synthesisPromptTemplate = (partialResults: string) =>
+            renderPrompt('planning-merge', { goal, partialResults }).prompt;
         
         const onProgress = options.onProgress || (() => {});
 
         const rawContent = await processAndSynthesize(
             this.callApi.bind(this),
             model,
-            options,
-            processingSystemPrompt,
+            { ...options, maxInputChars: inputBudgetChars('pollinations', model), isCancelledRef }, // Lets callApi stop retrying once the user cancels
+            processing.system,
             processingPromptTemplate,
-            synthesisSystemPrompt,
+            synthesis.system,
             synthesisPromptTemplate,
             fileContext, // main content
             goal, // auxiliary context
@@ -212,17 +205,19 @@ Provide ONLY the final, combined JSON array of tasks.
         );
         
         if (!rawContent) {
-            throw new Error("Pollinations returned an empty response for task planning.");
+            throw new EmptyResponseError("Pollinations returned an empty response for task planning.");
         }
 
-        try {
-            const jsonString = this.stripMarkdown(rawContent);
-            const tasksJson = JSON.parse(jsonString);
-            return tasksJson.map((task: any) => ({ ...task, status: TaskStatus.PENDING }));
-        } catch (e) {
-            console.error("Failed to parse final task list JSON from Pollinations:", e, "\nRaw content:", rawContent);
-            throw new Error("Pollinations could not generate a valid final task list.");
-        }
+        // Repairs are single calls: the plan to fix already condenses the chunked context.
+        const { onToken, ...repairOptions } = options;
+        return resolveTaskPlan(
+            rawContent,
+            (repairPrompt) => this.callApi(model, [
+                { role: 'system', content: processing.system },
+                { role: 'user', content: `Primary Goal:\n${goal}\n${repairPrompt}` },
+            ], { ...repairOptions, isCancelledRef }),
+            { providerName: 'Pollinations' }
+        );
     }
 
     async executeTask(
@@ -239,50 +234,36 @@ Provide ONLY the final, combined JSON array of tasks.
         const fileContext = files.map(f => `File: ${f.name}\nContent:\n${f.content}`).join('\n\n');
         const completedTasksContext = completedTasks.map(t => `Completed Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n');
         
-        const processingSystemPrompt = `You are an expert assistant executing a single task. Your output MUST strictly follow the special formatting rules provided (JSON for specific types like CalendarEvent, Map, Chart, HtmlSnippet; raw text/code for all other tasks). Do not add any extra commentary or explanations.`;
-        
-        const processingPromptTemplate = (mainChunk: string, auxChunk: string) => `
-Context from previously completed tasks and Goal:
----
-${auxChunk}
----
-
-File Contents Chunk:
----
-${mainChunk || 'No file content provided in this chunk.'}
----
-
-Based on the provided context chunks, generate the precise output required to complete this task: "${task.description}". Or, provide a partial output if the context is incomplete. Adhere strictly to the special output formatting rules.
-`;
-
-        const synthesisSystemPrompt = `You are a master synthesizer. Your job is to combine partial outputs into one single, final, and complete output that directly addresses the task.`;
-        
-        const synthesisPromptTemplate = (partialResults: string) => `
-The following are several partial outputs generated to fulfill a single task. 
-The task was: "${task.description}". 
-
-Combine these partial outputs into one single, final, and complete output that directly addresses the task, maintaining all details and adhering strictly to the special output formatting rules.
-
-Partial Outputs:
----
-${partialResults}
----
-
-Produce ONLY the final, synthesized output.
-`;
+        const maxInputChars = inputBudgetChars('pollinations', model);
+        // Pollinations has no function calling, so tools go through the prompt-based protocol. Results are kept
+        // small because every chunk call is close to the input budget already.
+        const toolbox = createToolbox(files, completedTasks, options, Math.floor(maxInputChars / 4));
+        const toolInstructions = toolbox ? renderToolInstructions(toolbox) : null;
+        const processing = renderPrompt('execution-chunk', { task: task.description });
+        const synthesis = renderPrompt('execution-merge', { task: task.description });
+        const processingPromptTemplate = (mainChunk: string, auxChunk: string) =>
+            renderPrompt('execution-chunk', { task: task.description, mainChunk, auxChunk }).prompt;
+        const synthesisPromptTemplate = (partialResults: string) =>
+            renderPrompt('execution-merge', { task: task.description, partialResults }).prompt;
         
         const onProgress = options.onProgress || (() => {});
 
         // For task execution, the auxiliary context is a combination of previous tasks and the goal
         const fullAuxContext = `Goal: ${goal}\n\nCompleted Tasks Context:\n${completedTasksContext}`;
 
+        const callApi = this.callApi.bind(this);
+        const apiCallFn = toolbox
+            ? (model: string, messages: { role: string; content: string }[], callOptions: { [key: string]: any }) =>
+                runPromptToolLoop(conversation => callApi(model, conversation, callOptions), messages, toolbox)
+            : callApi;
+
         const rawContent = await processAndSynthesize(
-            this.callApi.bind(this),
+            apiCallFn,
             model,
-            options,
-            processingSystemPrompt,
+            { ...options, maxInputChars, isCancelledRef }, // Lets callApi stop retrying once the user cancels
+            withToolInstructions(processing.system, toolInstructions), // Counted against the chunk size
             processingPromptTemplate,
-            synthesisSystemPrompt,
+            synthesis.system,
             synthesisPromptTemplate,
             fileContext, // main content
             fullAuxContext, // auxiliary context
@@ -293,7 +274,7 @@ Produce ONLY the final, synthesized output.
         );
         
         if (!rawContent) {
-          return { taskId: task.id, taskDescription: task.description, output: "The model returned an empty response.", citations: [] };
+          throw new EmptyResponseError();
         }
         
         return {
@@ -301,6 +282,8 @@ Produce ONLY the final, synthesized output.
             taskDescription: task.description,
             output: rawContent,
             citations: [],
+            promptTemplates: [...new Set<string>([...processing.refs, ...synthesis.refs, ...(toolInstructions?.refs ?? [])])],
+            toolCalls: toolbox?.calls.length ? toolbox.calls : undefined,
         };
     }
 
@@ -316,26 +299,17 @@ Produce ONLY the final, synthesized output.
             .map(t => `Task: ${t.taskDescription}\nOutput:\n${t.output}`)
             .join('\n\n---\n\n');
 
-        const processingSystemPrompt = `You are a synthesizer. Your job is to create a polished, human-readable summary of the provided chunk of task outputs that contributes to the user's Primary Goal. Do not include raw JSON; describe it in a human-readable way.`;
-        
-        const processingPromptTemplate = (mainChunk: string, auxChunk: string) => `
-Primary Goal: ${auxChunk}
-
-Individual Task Outputs Chunk:
----
-${mainChunk}
----
-
-Based on this chunk of outputs, provide a partial synthesis that contributes to the final goal.
-`;
+        const processing = renderPrompt('synthesis-chunk', {});
+        const processingPromptTemplate = (mainChunk: string, auxChunk: string) =>
+            renderPrompt('synthesis-chunk', { mainChunk, auxChunk }).prompt;
         
         const onProgress = options.onProgress || (() => {});
 
         const result = await processAndConcatenate(
             this.callApi.bind(this),
             model,
-            options,
-            processingSystemPrompt,
+            { ...options, maxInputChars: inputBudgetChars('pollinations', model), isCancelledRef }, // Lets callApi stop retrying once the user cancels
+            processing.system,
             processingPromptTemplate,
             fullContext, // main content
             goal, // auxiliary context
@@ -344,6 +318,29 @@ Based on this chunk of outputs, provide a partial synthesis that contributes to
             isCancelledRef
         );
         
-        return result || "The model could not synthesize a final result.";
+        if (!result) {
+            throw new EmptyResponseError("The model could not synthesize a final result.");
+        }
+        return result;
+    }
+
+    async verifyTaskOutput(
+        model: string,
+        goal: string,
+        taskDescription: string,
+        output: string,
+        options: { [key: string]: any } = {},
+        isCancelledRef?: React.RefObject<boolean>
+    ): Promise<string> {
+        const { system, prompt } = renderPrompt('verification', { goal, task: taskDescription, output: '' });
+        // Outputs are not chunked for review; whatever does not fit the model is cut off.
+        const budget = Math.max(0, inputBudgetChars('pollinations', model) - system.length - prompt.length);
+        const { system: fittedSystem, prompt: fittedPrompt } = renderPrompt('verification', { goal, task: taskDescription, output: output.slice(0, budget) });
+        // The verdict is parsed as a whole, so it is never streamed.
+        const { onToken, ...verificationOptions } = options;
+        return this.callApi(model, [
+            { role: 'system', content: fittedSystem },
+            { role: 'user', content: fittedPrompt },
+        ], { ...verificationOptions, isCancelledRef });
     }
-}
\ No newline at end of file
+}
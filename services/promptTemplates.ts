@@ -0,0 +1,447 @@
+import { hashString } from './cassette';
+import { ChatMessage } from './contextBudget';
+
+export type PromptTemplateId =
+    | 'output-formats'
+    | 'planning'
+    | 'execution'
+    | 'synthesis'
+    | 'planning-chunk'
+    | 'planning-merge'
+    | 'execution-chunk'
+    | 'execution-merge'
+    | 'synthesis-chunk'
+    | 'tool-calls'
+    | 'search-results'
+    | 'task-instructions'
+    | 'verification'
+    | 'verification-retry';
+
+/**
+ * A prompt with `{{variable}}` placeholders. `{{#variable}}...{{/variable}}` is only rendered when the
+ * variable is non-empty and `{{^variable}}...{{/variable}}` only when it is empty. Every template can
+ * use `{{outputFormats}}`, the rendered `output-formats` template.
+ */
+export interface PromptTemplate {
+    id: PromptTemplateId;
+    // Bumped whenever the default text changes; overrides get a `custom-<hash>` suffix.
+    version: string;
+    description: string;
+    variables: string[];
+    system: string;
+    prompt: string;
+}
+
+export type PromptOverride = Pick<PromptTemplate, 'system' | 'prompt'>;
+export type PromptOverrides = { [id in PromptTemplateId]?: PromptOverride };
+
+export interface RenderedPrompt {
+    system: string;
+    prompt: string;
+    // `id@version` of the template and of the shared `output-formats` template if it was used;
+    // recorded with the output they produced.
+    refs: string[];
+}
+
+export type PromptVariables = { [name: string]: string | undefined };
+
+const OUTPUT_FORMATS = `**SPECIAL INSTRUCTIONS FOR OUTPUT FORMATTING:**
+Your output format depends on the nature of the task. Follow these rules precisely:
+
+1.  **For Calendar Events:** If the task is to create a calendar event, appointment, or meeting, you MUST format the output as a single, valid JSON object. Do not wrap it in markdown.
+    {
+      "@type": "CalendarEvent",
+      "summary": "Event Title",
+      "description": "A brief description of the event.",
+      "start": "YYYY-MM-DDTHH:mm:ss",
+      "end": "YYYY-MM-DDTHH:mm:ss",
+      "location": "Event Location"
+    }
+
+2.  **For Geographic Locations/Maps:** If the task involves finding a location or coordinates, you MUST format the output as a single, valid JSON object:
+    {
+      "@type": "Map",
+      "latitude": 40.7128,
+      "longitude": -74.0060,
+      "label": "A descriptive label for the pin"
+    }
+
+3.  **For Data Visualization/Charts:** If the task is to create a chart or graph, you MUST generate a self-contained SVG string representing that chart. Format the output as a single, valid JSON object:
+    {
+      "@type": "Chart",
+      "title": "Title of the Chart",
+      "svg": "<svg width='400' height='200' xmlns='http://www.w3.org/2000/svg'>...</svg>"
+    }
+    **IMPORTANT SVG REQUIREMENTS:** The SVG must be visually appealing on a dark background. Use light-colored text (e.g., white, #d1d5db) and vibrant, distinct colors for data elements. Include necessary labels and axes.
+
+4.  **For HTML UI Components:** If the task is to create a piece of UI, like a form or a button, you MUST format the output as a single, valid JSON object.
+    {
+      "@type": "HtmlSnippet",
+      "html": "<div>Your HTML here</div>",
+      "css": "div { color: hotpink; }",
+      "js": "console.log('Hello from the snippet');"
+    }
+
+5.  **For ALL OTHER tasks (e.g., writing code, explaining concepts, creating a file):** Provide the output as plain text, markdown, or a code block. Do not wrap it in JSON.`;
+
+const SYNTHESIS_INSTRUCTIONS = `You are a master synthesizer. Your job is to take a user's original goal and the raw outputs from a series of automated tasks, and transform them into a final, polished, and coherent result.
+
+**Your Instructions:**
+1.  Carefully review the Primary Goal. This is the ultimate objective.
+2.  Analyze the individual task outputs. These are the raw materials and building blocks.
+3.  Synthesize a single, final response that directly and completely fulfills the Primary Goal.
+4.  **DO NOT** simply list or repeat the task outputs. Integrate them intelligently. If an output is a JSON object like a CalendarEvent or Map, describe it in the final summary in a human-readable way. Do not include the raw JSON in the final result.
+5.  If the goal was to create a single artifact (e.g., a summary, a document, a piece of code), your response should be ONLY that artifact.
+6.  If the goal was a question, your response should be the final, complete answer.
+7.  The final output should be clean, well-formatted, and ready for the user. Eliminate any redundancy or intermediate steps present in the task outputs.
+8.  Task outputs may contain numbered citation markers such as [3]. Keep each marker, exactly as written, right after the statement it supports. Do not renumber markers and do not add a list of sources.
+
+Produce ONLY the final, synthesized result.`;
+
+const DEFAULT_TEMPLATES: PromptTemplate[] = [
+    {
+        id: 'output-formats',
+        version: '1',
+        description: 'Formatting rules for calendar events, maps, charts and HTML snippets, shared by every execution prompt.',
+        variables: [],
+        system: '',
+        prompt: OUTPUT_FORMATS,
+    },
+    {
+        id: 'planning',
+        version: '3',
+        description: 'Breaks the goal down into tasks.',
+        variables: ['goal', 'fileContext'],
+        system: 'You are a meticulous project planner.',
+        prompt: `Based on the primary goal and the provided file contents, break down the goal into a series of smaller, actionable tasks.
+Each task should be a single, clear step towards achieving the main goal.
+Return the tasks as a JSON array of objects, where each object has an "id" (a short, unique, hyphenated string), a "description" and a "dependsOn" array.
+"dependsOn" lists the ids of the earlier tasks whose output the task needs; a task only sees the outputs of the tasks it depends on. Tasks that do not depend on each other run in parallel, so leave "dependsOn" empty for tasks that can start right away.
+Add "complex": true to a task that is too large to be done well in one step; it will be broken down into sub-tasks of its own.
+
+Primary Goal:
+{{goal}}
+{{#fileContext}}
+
+File Contents:
+{{fileContext}}
+{{/fileContext}}
+
+Provide ONLY a JSON array of tasks in the following format, without any other text, commentary, or markdown formatting:
+[
+  {"id": "task-1", "description": "First task description...", "dependsOn": []},
+  {"id": "task-2", "description": "Second task description...", "dependsOn": []},
+  {"id": "task-3", "description": "Large task that combines the first two...", "dependsOn": ["task-1", "task-2"], "complex": true}
+]`,
+    },
+    {
+        id: 'execution',
+        version: '3',
+        description: 'Produces the output of a single task.',
+        variables: ['goal', 'task', 'fileContext', 'completedTasksContext', 'citeSources', 'tools'],
+        system: `You are an expert developer assistant. Your task is to generate the output for a specific step in a larger project.
+Base your answer ONLY on the context provided.
+Do not add any extra commentary, greetings, or explanations beyond what the task requires.
+
+{{outputFormats}}
+{{#citeSources}}
+
+If you use web search, mark each statement that relies on a source with a numbered marker such as [1] right after it.
+List the sources at the end in a "References" section, one per line as "[1] Title - full URL".
+{{/citeSources}}
+{{#tools}}
+
+You can call tools to read an uploaded file in full, run a calculation, query a spreadsheet or look up the output of a previous task.
+Use them when the context above is incomplete or a result has to be exact, instead of guessing.
+{{/tools}}`,
+        prompt: `Primary Goal:
+{{goal}}
+{{#fileContext}}
+
+File Contents:
+{{fileContext}}
+{{/fileContext}}
+{{#completedTasksContext}}
+
+Context from previously completed tasks:
+{{completedTasksContext}}
+{{/completedTasksContext}}
+
+Current Task to Execute:
+{{task}}
+
+Based on all the provided context, generate the precise output required to complete this task.`,
+    },
+    {
+        id: 'synthesis',
+        version: '2',
+        description: 'Combines the task outputs into the final result.',
+        variables: ['goal', 'completedTasksContext'],
+        system: SYNTHESIS_INSTRUCTIONS,
+        prompt: `**Primary Goal:**
+{{goal}}
+
+**Individual Task Outputs:**
+---
+{{completedTasksContext}}
+---`,
+    },
+    {
+        id: 'planning-chunk',
+        version: '3',
+        description: 'Chunked providers: suggests tasks from one chunk of the files.',
+        variables: ['mainChunk', 'auxChunk'],
+        system: "You are an AI assistant that breaks down a goal into a list of smaller, actionable tasks based on provided context. You MUST respond with ONLY a valid JSON array of tasks, where each task has a unique 'id', a 'description', a 'dependsOn' array with the ids of the earlier tasks whose output it needs (empty if it needs none) and, only if the task is too large to be done in one step, 'complex': true.",
+        prompt: `Based on the primary goal and the following chunk of file contents, suggest a list of actionable tasks.
+
+Primary Goal (from context chunk):
+{{auxChunk}}
+
+File Content Chunk:
+---
+{{#mainChunk}}
+{{mainChunk}}
+{{/mainChunk}}
+{{^mainChunk}}
+No file content provided in this chunk.
+{{/mainChunk}}
+---
+
+Respond with ONLY the JSON array of tasks.`,
+    },
+    {
+        id: 'planning-merge',
+        version: '3',
+        description: 'Chunked providers: merges the partial task lists.',
+        variables: ['goal', 'partialResults'],
+        system: 'You are a master synthesizer. Your job is to combine partial task lists from a previous step into a single, coherent, and de-duplicated final JSON task list.',
+        prompt: `The following are several lists of tasks generated from different parts of a document.
+Combine them into a single, coherent, and de-duplicated final task list in the required JSON format.
+Keep each task's "dependsOn" ids pointing at tasks of the final list; when tasks are merged, point at the merged task. Keep "complex": true on tasks that are too large to be done in one step.
+
+Primary Goal:
+{{goal}}
+
+Partial Task Lists (in JSON format):
+---
+{{partialResults}}
+---
+
+Provide ONLY the final, combined JSON array of tasks.`,
+    },
+    {
+        id: 'execution-chunk',
+        version: '1',
+        description: 'Chunked providers: produces a (partial) task output from one pair of chunks.',
+        variables: ['task', 'mainChunk', 'auxChunk'],
+        system: `You are an expert assistant executing a single task. Do not add any extra commentary or explanations.
+
+{{outputFormats}}`,
+        prompt: `Context from previously completed tasks and Goal:
+---
+{{auxChunk}}
+---
+
+File Contents Chunk:
+---
+{{#mainChunk}}
+{{mainChunk}}
+{{/mainChunk}}
+{{^mainChunk}}
+No file content provided in this chunk.
+{{/mainChunk}}
+---
+
+Based on the provided context chunks, generate the precise output required to complete this task: "{{task}}". Or, provide a partial output if the context is incomplete. Adhere strictly to the special output formatting rules.`,
+    },
+    {
+        id: 'execution-merge',
+        version: '1',
+        description: 'Chunked providers: merges the partial outputs of a task.',
+        variables: ['task', 'partialResults'],
+        system: `You are a master synthesizer. Your job is to combine partial outputs into one single, final, and complete output that directly addresses the task.
+
+{{outputFormats}}`,
+        prompt: `The following are several partial outputs generated to fulfill a single task.
+The task was: "{{task}}".
+
+Combine these partial outputs into one single, final, and complete output that directly addresses the task, maintaining all details and adhering strictly to the special output formatting rules.
+
+Partial Outputs:
+---
+{{partialResults}}
+---
+
+Produce ONLY the final, synthesized output.`,
+    },
+    {
+        id: 'synthesis-chunk',
+        version: '2',
+        description: 'Chunked providers: synthesizes one chunk of the task outputs.',
+        variables: ['mainChunk', 'auxChunk'],
+        system: "You are a synthesizer. Your job is to create a polished, human-readable summary of the provided chunk of task outputs that contributes to the user's Primary Goal. Do not include raw JSON; describe it in a human-readable way. Keep numbered citation markers such as [3] exactly as written, next to the statements they support.",
+        prompt: `Primary Goal: {{auxChunk}}
+
+Individual Task Outputs Chunk:
+---
+{{mainChunk}}
+---
+
+Based on this chunk of outputs, provide a partial synthesis that contributes to the final goal.`,
+    },
+    {
+        id: 'tool-calls',
+        version: '1',
+        description: 'Models without native function calling: the tool protocol (system) and the message returning tool results (prompt).',
+        variables: ['tools', 'results', 'finalRound'],
+        system: `You can call the following tools. To call one, reply with one or more blocks of this exact form and nothing else:
+<tool_call>{"name": "tool_name", "arguments": {"parameter": "value"}}</tool_call>
+The results are sent back to you in the next message. Once you have what you need, reply with the final output only, without any <tool_call> blocks.
+
+Available tools:
+{{tools}}`,
+        prompt: `Tool results:
+{{results}}
+{{#finalRound}}
+
+You cannot call any more tools. Produce the final output now.
+{{/finalRound}}`,
+    },
+    {
+        id: 'search-results',
+        version: '1',
+        description: 'Search backends: the web search results given to a task as an extra context file (prompt).',
+        variables: ['query', 'results'],
+        system: '',
+        prompt: `Web search results for: {{query}}
+Cite a result by its number in square brackets, e.g. [2], right after each statement that relies on it. Do not add a list of sources.
+
+{{results}}`,
+    },
+    {
+        id: 'task-instructions',
+        version: '1',
+        description: 'Task re-runs: the task description given to the provider when the user adds instructions (prompt).',
+        variables: ['task', 'instructions'],
+        system: '',
+        prompt: `{{task}}
+
+Additional instructions for this task: {{instructions}}`,
+    },
+    {
+        id: 'verification',
+        version: '1',
+        description: 'Verifier: scores a task output against its task and the goal and critiques it.',
+        variables: ['goal', 'task', 'output'],
+        system: `You review the output of one task of a larger plan. Judge whether it completes the task as described and serves the primary goal: is it correct, complete, specific and in the form the task asks for?
+Respond with ONLY a JSON object of the form {"score": 7, "critique": "..."}, where "score" is an integer from 0 (unusable) to 10 (nothing to improve) and "critique" names the concrete problems to fix, or is empty if there are none.`,
+        prompt: `Primary Goal:
+{{goal}}
+
+Task:
+{{task}}
+
+Output to review:
+{{output}}`,
+    },
+    {
+        id: 'verification-retry',
+        version: '1',
+        description: 'Verifier: the instructions a task is retried with when its output scored below the threshold (prompt).',
+        variables: ['instructions', 'score', 'critique'],
+        system: '',
+        prompt: `{{#instructions}}{{instructions}}
+
+{{/instructions}}A previous answer to this task was reviewed and scored {{score}}/10. Produce a new answer that fixes these problems:
+{{critique}}`,
+    },
+];
+
+let overrides: PromptOverrides = {};
+
+/**
+ * Replaces the active template overrides. Overridden templates keep their variables and get a
+ * version derived from the default version and the overriding text.
+ */
+export const setPromptOverrides = (next: PromptOverrides): void => {
+    overrides = next;
+};
+
+export const listDefaultTemplates = (): PromptTemplate[] => DEFAULT_TEMPLATES;
+
+export const getDefaultTemplate = (id: PromptTemplateId): PromptTemplate => {
+    const template = DEFAULT_TEMPLATES.find(t => t.id === id);
+    if (!template) {
+        throw new Error(`Unknown prompt template: ${id}`);
+    }
+    return template;
+};
+
+// The template as it will be rendered, i.e. with the active override applied.
+export const getTemplate = (id: PromptTemplateId): PromptTemplate => {
+    const template = getDefaultTemplate(id);
+    const override = overrides[id];
+    if (!override) {
+        return template;
+    }
+    return {
+        ...template,
+        ...override,
+        version: `${template.version}-custom-${hashString(`${override.system}\u0000${override.prompt}`).slice(-8)}`,
+    };
+};
+
+// A line break right after an opening or closing tag belongs to the tag, so omitted sections leave no blank lines.
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}\n?([\s\S]*?)\{\{\/\2\}\}\n?/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+// Sections are resolved before variables, so a variable's value is never parsed as template syntax.
+const fill = (text: string, variables: PromptVariables): string =>
+    text
+        .replace(SECTION_PATTERN, (_, kind: string, name: string, body: string) =>
+            (kind === '#') === !!variables[name]?.trim() ? body : '')
+        .replace(VARIABLE_PATTERN, (_, name: string) => variables[name] ?? '');
+
+/**
+ * Renders the active version of template `id`. Variables that are not given render as empty strings.
+ */
+export const renderPrompt = (id: PromptTemplateId, variables: PromptVariables): RenderedPrompt => {
+    const template = getTemplate(id);
+    const refs = [`${template.id}@${template.version}`];
+    let allVariables = variables;
+    if (id !== 'output-formats' && `${template.system}${template.prompt}`.includes('{{outputFormats}}')) {
+        const outputFormats = renderPrompt('output-formats', {});
+        allVariables = { outputFormats: outputFormats.prompt, ...variables };
+        refs.push(...outputFormats.refs);
+    }
+    return {
+        system: fill(template.system, allVariables).trim(),
+        prompt: fill(template.prompt, allVariables).trim(),
+        refs,
+    };
+};
+
+// Characters of fixed prompt text, for budgeting the variable parts.
+export const promptLength = (rendered: RenderedPrompt): number => rendered.system.length + rendered.prompt.length;
+
+// Messages for OpenAI-compatible chat APIs; an empty system part is left out.
+export const toChatMessages = ({ system, prompt }: Pick<RenderedPrompt, 'system' | 'prompt'>): ChatMessage[] => [
+    ...(system ? [{ role: 'system', content: system }] : []),
+    { role: 'user', content: prompt },
+];
+
+const STORAGE_KEY = 'prompt_template_overrides';
+
+export const loadPromptOverrides = (): PromptOverrides => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.error("Failed to load prompt template overrides:", error);
+        return {};
+    }
+};
+
+export const savePromptOverrides = (next: PromptOverrides): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+};
@@ -0,0 +1,98 @@
+import React from 'react';
+import { StoredFile, Task, TaskOutput } from '../types';
+import { ProviderOptions } from './llmProvider';
+import { PromptSection, fitSectionsToBudget } from './contextBudget';
+import { ApiCallFunction } from './pollinationsProcessor';
+import { PromptVariables, RenderedPrompt, promptLength, renderPrompt } from './promptTemplates';
+
+/**
+ * How a provider fits prompts into a model's input budget: its id in the model catalog and the call that
+ * condenses sections which do not fit (see `fitSectionsToBudget`).
+ */
+export interface PromptBudget {
+    provider: string;
+    condense: ApiCallFunction;
+    options: ProviderOptions;
+    isCancelledRef?: React.RefObject<boolean>;
+}
+
+export const buildFileContext = (files: StoredFile[]): string =>
+    files.map(f => `File: ${f.name}\nContent:\n${f.content}`).join('\n\n---\n\n');
+
+// The outputs a task builds on.
+export const buildCompletedTasksContext = (completedTasks: TaskOutput[]): string =>
+    completedTasks.map(t => `Completed Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n');
+
+// The outputs the final result is synthesized from.
+export const buildSynthesisContext = (completedTasks: TaskOutput[]): string =>
+    completedTasks.map(t => `Task: ${t.taskDescription}\nOutput:\n${t.output}`).join('\n\n---\n\n');
+
+// Unwraps a reply that fenced its JSON in a ```json block.
+export const stripMarkdown = (text: string): string => text.replace(/```json\n?([\s\S]*?)\n?```/, '$1').trim();
+
+// Shrinks prompt sections that exceed the model's input budget (see `fitSectionsToBudget`).
+const fitToBudget = (
+    { provider, condense, options, isCancelledRef }: PromptBudget,
+    model: string,
+    promptOverheadChars: number,
+    sections: PromptSection[]
+): Promise<string[]> =>
+    fitSectionsToBudget(condense, provider, model, options, promptOverheadChars, sections, isCancelledRef);
+
+// The planning prompt, with the files fitted into the budget.
+export const fitPlanningPrompt = async (budget: PromptBudget, model: string, goal: string, files: StoredFile[]): Promise<RenderedPrompt> => {
+    const render = (fileContext: string) => renderPrompt('planning', { goal, fileContext });
+    const [fittedFileContext] = await fitToBudget(budget, model, promptLength(render('')), [
+        { content: buildFileContext(files), focus: goal },
+    ]);
+    return render(fittedFileContext);
+};
+
+/**
+ * The execution prompt, with the files and the outputs the task builds on fitted into the budget.
+ * @param variables Template variables that depend on the provider, e.g. `tools` or `citeSources`.
+ * @param extraOverheadChars Prompt text the provider adds to the rendered prompt, e.g. tool instructions.
+ */
+export const fitExecutionPrompt = async (
+    budget: PromptBudget,
+    model: string,
+    goal: string,
+    task: Task,
+    files: StoredFile[],
+    completedTasks: TaskOutput[],
+    variables: PromptVariables = {},
+    extraOverheadChars = 0
+): Promise<RenderedPrompt> => {
+    const render = (fileContext: string, completedTasksContext: string) => renderPrompt('execution', {
+        goal, task: task.description, fileContext, completedTasksContext, ...variables,
+    });
+    const [fittedFileContext, fittedTasksContext] = await fitToBudget(budget, model, promptLength(render('', '')) + extraOverheadChars, [
+        { content: buildFileContext(files), focus: `${goal}\nCurrent task: ${task.description}` },
+        { content: buildCompletedTasksContext(completedTasks), focus: task.description },
+    ]);
+    return render(fittedFileContext, fittedTasksContext);
+};
+
+// The synthesis prompt, with the task outputs fitted into the budget.
+export const fitSynthesisPrompt = async (budget: PromptBudget, model: string, goal: string, completedTasks: TaskOutput[]): Promise<RenderedPrompt> => {
+    const render = (completedTasksContext: string) => renderPrompt('synthesis', { goal, completedTasksContext });
+    const [fittedTasksContext] = await fitToBudget(budget, model, promptLength(render('')), [
+        { content: buildSynthesisContext(completedTasks), focus: goal },
+    ]);
+    return render(fittedTasksContext);
+};
+
+// The verification prompt, with the output under review fitted into the budget.
+export const fitVerificationPrompt = async (
+    budget: PromptBudget,
+    model: string,
+    goal: string,
+    taskDescription: string,
+    output: string
+): Promise<RenderedPrompt> => {
+    const render = (output: string) => renderPrompt('verification', { goal, task: taskDescription, output });
+    const [fittedOutput] = await fitToBudget(budget, model, promptLength(render('')), [
+        { content: output, focus: taskDescription },
+    ]);
+    return render(fittedOutput);
+};
@@ -0,0 +1,55 @@
+import { LLMProvider } from './llmProvider';
+import { HttpLimits, configureHttpLimits } from './httpClient';
+
+export interface ProviderConfig {
+    apiKey: string;
+    baseUrl?: string;
+}
+
+export interface ProviderDefinition {
+    id: string;
+    name: string;
+    // How the API key field is presented in the UI.
+    apiKey: 'required' | 'optional' | 'none';
+    // When set, the provider talks to a user-configurable server and this is the initial URL.
+    defaultBaseUrl?: string;
+    baseUrlPlaceholder?: string;
+    searchLabel: string;
+    // Optional hint shown below the model selector.
+    note?: string;
+    // Concurrency and retry settings for this provider's HTTP requests, keyed by the provider id.
+    http?: HttpLimits;
+    create: (config: ProviderConfig) => LLMProvider;
+}
+
+const providers = new Map<string, ProviderDefinition>();
+
+/**
+ * Registers a provider so it shows up in the provider selector and can be instantiated by `LLMService`.
+ * Registering an id twice replaces the earlier definition.
+ */
+export const registerProvider = (definition: ProviderDefinition): void => {
+    providers.set(definition.id, definition);
+    if (definition.http) {
+        configureHttpLimits(definition.id, definition.http);
+    }
+};
+
+export const listProviders = (): ProviderDefinition[] => Array.from(providers.values());
+
+export const getProviderDefinition = (id: string): ProviderDefinition => {
+    const definition = providers.get(id);
+    if (!definition) {
+        throw new Error(`Unsupported LLM provider: ${id}`);
+    }
+    return definition;
+};
+
+export const createProvider = (id: string, config: ProviderConfig): LLMProvider => {
+    return getProviderDefinition(id).create(config);
+};
+
+export const defaultProviderConfig = (id: string): ProviderConfig => {
+    const definition = getProviderDefinition(id);
+    return { apiKey: '', baseUrl: definition.defaultBaseUrl };
+};
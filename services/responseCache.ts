@@ -0,0 +1,219 @@
+import { normalizeHttpRequest, readRecordedResponse, requestKey, toResponse, RecordedHttpResponse } from './cassette';
+
+export interface ResponseCacheOptions {
+    // Entries older than this are treated as misses and deleted.
+    ttlMs?: number;
+    // Once the stored bodies exceed this size, the oldest entries are evicted.
+    maxBytes?: number;
+}
+
+export interface ResponseCacheStats {
+    hits: number;
+    misses: number;
+}
+
+interface CacheEntry {
+    key: string;
+    value: unknown;
+}
+
+// Kept in a separate store so that eviction can scan sizes and ages without loading response bodies.
+interface CacheEntryMeta {
+    key: string;
+    storedAt: number;
+    size: number;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const DEFAULT_CACHE_MAX_BYTES = 100 * 1024 * 1024;
+
+const DB_NAME = 'llm-response-cache';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const META_STORE = 'meta';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available.'));
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+        db.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('storedAt', 'storedAt');
+    };
+    return promisify(request);
+};
+
+/**
+ * Persists successful LLM responses in IndexedDB, keyed by a hash of the normalized request (provider
+ * endpoint or id, model, options and messages). Where IndexedDB is unavailable every lookup is a miss.
+ * With `bypass` set, lookups are skipped but fresh responses are still stored.
+ */
+export class ResponseCache {
+    public bypass = false;
+    private readonly ttlMs: number;
+    private readonly maxBytes: number;
+    private db: Promise<IDBDatabase | null> | null = null;
+    private hits = 0;
+    private misses = 0;
+
+    /**
+     * @param onStatsChange Called with the current hit/miss counts after every lookup.
+     */
+    constructor(options: ResponseCacheOptions = {}, private onStatsChange?: (stats: ResponseCacheStats) => void) {
+        this.ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+        this.maxBytes = options.maxBytes ?? DEFAULT_CACHE_MAX_BYTES;
+    }
+
+    get stats(): ResponseCacheStats {
+        return { hits: this.hits, misses: this.misses };
+    }
+
+    resetStats(): void {
+        this.hits = 0;
+        this.misses = 0;
+        this.onStatsChange?.(this.stats);
+    }
+
+    private database(): Promise<IDBDatabase | null> {
+        if (!this.db) {
+            this.db = openDatabase().catch(err => {
+                console.warn('Response cache disabled:', err);
+                return null;
+            });
+        }
+        return this.db;
+    }
+
+    private countLookup(hit: boolean): void {
+        if (hit) this.hits++;
+        else this.misses++;
+        this.onStatsChange?.(this.stats);
+    }
+
+    async get(request: unknown): Promise<unknown | undefined> {
+        if (this.bypass) return undefined;
+        const db = await this.database();
+        if (!db) return undefined;
+        const key = requestKey(request);
+        try {
+            const transaction = db.transaction([ENTRY_STORE, META_STORE], 'readonly');
+            const [entry, meta] = await Promise.all([
+                promisify<CacheEntry | undefined>(transaction.objectStore(ENTRY_STORE).get(key)),
+                promisify<CacheEntryMeta | undefined>(transaction.objectStore(META_STORE).get(key)),
+            ]);
+            if (entry && meta && Date.now() - meta.storedAt <= this.ttlMs) {
+                this.countLookup(true);
+                return entry.value;
+            }
+            if (entry || meta) {
+                this.delete([key]).catch(err => console.warn('Could not delete expired cache entry:', err));
+            }
+        } catch (err) {
+            console.warn('Response cache lookup failed:', err);
+        }
+        this.countLookup(false);
+        return undefined;
+    }
+
+    async put(request: unknown, value: unknown): Promise<void> {
+        const db = await this.database();
+        if (!db) return;
+        const key = requestKey(request);
+        const size = JSON.stringify(value).length;
+        if (size > this.maxBytes) return;
+        const transaction = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+        transaction.objectStore(ENTRY_STORE).put({ key, value } as CacheEntry);
+        transaction.objectStore(META_STORE).put({ key, storedAt: Date.now(), size } as CacheEntryMeta);
+        await transactionDone(transaction);
+        await this.evict(db);
+    }
+
+    async clear(): Promise<void> {
+        const db = await this.database();
+        if (!db) return;
+        const transaction = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+        transaction.objectStore(ENTRY_STORE).clear();
+        transaction.objectStore(META_STORE).clear();
+        await transactionDone(transaction);
+    }
+
+    private async delete(keys: string[]): Promise<void> {
+        const db = await this.database();
+        if (!db || keys.length === 0) return;
+        const transaction = db.transaction([ENTRY_STORE, META_STORE], 'readwrite');
+        for (const key of keys) {
+            transaction.objectStore(ENTRY_STORE).delete(key);
+            transaction.objectStore(META_STORE).delete(key);
+        }
+        await transactionDone(transaction);
+    }
+
+    // Drops expired entries, then the oldest ones until the total size is within `maxBytes`.
+    private async evict(db: IDBDatabase): Promise<void> {
+        const metas = await promisify<CacheEntryMeta[]>(
+            db.transaction(META_STORE, 'readonly').objectStore(META_STORE).index('storedAt').getAll()
+        );
+        const now = Date.now();
+        let total = metas.reduce((sum, meta) => sum + meta.size, 0);
+        const doomed: string[] = [];
+        for (const meta of metas) {
+            if (now - meta.storedAt <= this.ttlMs && total <= this.maxBytes) break;
+            doomed.push(meta.key);
+            total -= meta.size;
+        }
+        await this.delete(doomed);
+    }
+}
+
+let activeCache: ResponseCache | null = null;
+
+/**
+ * Serves provider requests from `cache` where possible, or always goes to the network when `null`.
+ */
+export const setActiveResponseCache = (cache: ResponseCache | null): void => {
+    activeCache = cache;
+};
+
+export const getActiveResponseCache = (): ResponseCache | null => activeCache;
+
+/**
+ * Returns the cached response for a POST request if there is one, otherwise runs `live` and caches
+ * its response once the body has been read in full. Other methods (e.g. model lists), unsuccessful
+ * responses and bodies that `cacheable` rejects are never cached.
+ */
+export const cachedFetch = async (
+    url: string,
+    init: RequestInit,
+    live: () => Promise<Response>,
+    cacheable: (body: string) => boolean = () => true
+): Promise<Response> => {
+    const cache = activeCache;
+    const request = normalizeHttpRequest(url, init);
+    if (!cache || request.method !== 'POST') {
+        return live();
+    }
+    const cached = await cache.get(request) as RecordedHttpResponse | undefined;
+    if (cached) {
+        return toResponse(cached);
+    }
+    const response = await live();
+    if (response.ok) {
+        readRecordedResponse(response)
+            .then(recorded => cacheable(recorded.body) ? cache.put(request, recorded) : undefined)
+            .catch(err => console.warn('Could not cache response:', err));
+    }
+    return response;
+};
@@ -0,0 +1,30 @@
+import { RoutingPreset } from '../types';
+
+const STORAGE_KEY = 'stage_routing_presets';
+
+export const loadRoutingPresets = (): RoutingPreset[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const presets = stored ? JSON.parse(stored) : [];
+        return Array.isArray(presets) ? presets : [];
+    } catch (error) {
+        console.error("Failed to load routing presets:", error);
+        return [];
+    }
+};
+
+const storeRoutingPresets = (presets: RoutingPreset[]): RoutingPreset[] => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    return presets;
+};
+
+/**
+ * Saves `preset`, replacing an existing preset with the same name.
+ * @returns The updated preset list.
+ */
+export const saveRoutingPreset = (preset: RoutingPreset): RoutingPreset[] =>
+    storeRoutingPresets([...loadRoutingPresets().filter(p => p.name !== preset.name), preset]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+
+export const deleteRoutingPreset = (name: string): RoutingPreset[] =>
+    storeRoutingPresets(loadRoutingPresets().filter(p => p.name !== name));
@@ -0,0 +1,199 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { LLMService, registerProvider, LLMProvider, ModelInfo, TokenUsage } from './llmService';
+import { RunEngine, RunEvent, StageServices } from './runEngine';
+import { SavedRun } from './runStore';
+import { getModelInfo, registerModels } from './modelCatalog';
+import { Task, TaskOutput, TaskStatus } from '../types';
+
+const PROVIDER = 'engine-test-stub';
+
+const PLAN: Task[] = [
+    { id: 'collect', description: 'Collect the offers.', status: TaskStatus.PENDING, dependsOn: [] },
+    { id: 'price', description: 'Price each offer.', status: TaskStatus.PENDING, dependsOn: ['collect'] },
+    { id: 'compare', description: 'Compare the offers.', status: TaskStatus.PENDING, dependsOn: ['collect', 'price'] },
+];
+
+// Answers from fixed data and records what it was asked, so a run needs neither a network nor a model.
+class StubProvider implements LLMProvider {
+    public readonly capabilities = { search: false, chunking: false };
+    public executed: { taskId: string; dependencies: string[] }[] = [];
+    public plans = 0;
+    public listings = 0;
+    public models: ModelInfo[] = [];
+    public plan: Task[] = PLAN;
+    // Returned for every plan after the first, i.e. for the sub-tasks of complex tasks.
+    public subplan: Task[] = [];
+    public running = 0;
+    public maxRunning = 0;
+
+    // Registers its models as the real providers do.
+    async listModels() {
+        this.listings++;
+        registerModels(PROVIDER, this.models);
+        return this.models;
+    }
+
+    private use(options: any, model: string) {
+        options.onUsage?.({ provider: PROVIDER, model, promptTokens: 10, completionTokens: 2 } as TokenUsage);
+    }
+
+    async breakDownGoalIntoTasks(model: string, goal: string, files: any, options: any): Promise<Task[]> {
+        this.use(options, model);
+        return (this.plans++ === 0 ? this.plan : this.subplan).map(task => ({ ...task }));
+    }
+
+    async executeTask(model: string, task: Task, goal: string, completedTasks: TaskOutput[], files: any, useSearch: boolean, options: any): Promise<TaskOutput> {
+        this.executed.push({ taskId: task.id, dependencies: completedTasks.map(output => output.taskId) });
+        this.maxRunning = Math.max(this.maxRunning, ++this.running);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        this.running--;
+        this.use(options, model);
+        const output = `done: ${task.id}`;
+        options.onToken?.(output);
+        return { taskId: task.id, taskDescription: task.description, output, citations: [] };
+    }
+
+    async synthesizeFinalResult(model: string, goal: string, completedTasks: TaskOutput[], options: any): Promise<string> {
+        this.use(options, model);
+        return `Result of "${goal}": ${completedTasks.map(output => output.output).join(', ')}`;
+    }
+
+    async verifyTaskOutput(): Promise<string> {
+        return '{"score": 10, "critique": ""}';
+    }
+}
+
+let provider: StubProvider;
+
+registerProvider({ id: PROVIDER, name: 'Stub', apiKey: 'none', searchLabel: '', create: () => provider });
+
+const createEngine = (reviewPlan = false, model = 'stub-model') => {
+    const llm = new LLMService(PROVIDER, { apiKey: '' });
+    const stage = { route: { provider: PROVIDER, model }, llm };
+    const stages: StageServices = { planning: stage, execution: stage, synthesis: stage };
+    const engine = new RunEngine({ stages, useSearch: false, useTools: false, maxParallelTasks: 2, reviewPlan });
+    const events: RunEvent[] = [];
+    engine.subscribe(event => events.push(event));
+    return { engine, events };
+};
+
+const newRun = (goal = 'Pick an offer'): SavedRun => ({ goal, files: [], tasks: [], outputs: [], limits: {}, updatedAt: 0 });
+
+const phasesOf = (events: RunEvent[]) => events.flatMap(event => event.type === 'phaseChanged' ? [event.phase] : []);
+
+describe('RunEngine', () => {
+    beforeEach(() => {
+        provider = new StubProvider();
+    });
+
+    it('plans, executes the tasks after their dependencies and synthesizes the result', async () => {
+        const { engine, events } = createEngine();
+
+        await engine.start(newRun());
+
+        expect(phasesOf(events)).toEqual(['planning', 'executing', 'synthesizing', 'completed']);
+        expect(provider.executed).toEqual([
+            { taskId: 'collect', dependencies: [] },
+            { taskId: 'price', dependencies: ['collect'] },
+            { taskId: 'compare', dependencies: ['collect', 'price'] },
+        ]);
+        const completed = events.find(event => event.type === 'runCompleted');
+        expect(completed).toMatchObject({
+            type: 'runCompleted',
+            result: 'Result of "Pick an offer": done: collect, done: price, done: compare',
+        });
+        if (completed?.type !== 'runCompleted') return;
+        // One planning, three execution and one synthesis call.
+        expect(completed.usage.total.calls).toBe(5);
+        expect(completed.run.outputs.map(output => output.taskId)).toEqual(['collect', 'price', 'compare']);
+        expect(events.filter(event => event.type === 'taskToken')).toHaveLength(3);
+        expect(engine.currentPhase).toBe('completed');
+    });
+
+    it('lists the models of a routed provider whose model the catalog does not know yet', async () => {
+        const { engine } = createEngine(false, 'listed-model');
+        provider.models = [{ id: 'listed-model', name: 'Listed model', capabilities: { contextWindow: 200000 } }];
+        expect(getModelInfo(PROVIDER, 'listed-model')).toBeUndefined();
+
+        await engine.start(newRun());
+
+        expect(provider.listings).toBeGreaterThan(0);
+        expect(getModelInfo(PROVIDER, 'listed-model')?.capabilities?.contextWindow).toBe(200000);
+    });
+
+    it('checkpoints at every step but not at usage changes', async () => {
+        const { engine, events } = createEngine();
+
+        await engine.start(newRun());
+
+        const checkpoints = events.flatMap(event => event.type === 'checkpoint' ? [event.run] : []);
+        expect(checkpoints.map(run => run.outputs.length)).toEqual([0, 0, 1, 2, 3]);
+        expect(events.filter(event => event.type === 'usageChanged')).toHaveLength(5);
+    });
+
+    it('resumes a saved run with the tasks that have no output yet', async () => {
+        const { engine, events } = createEngine();
+        const saved: SavedRun = {
+            ...newRun(),
+            tasks: PLAN,
+            outputs: [{ taskId: 'collect', taskDescription: PLAN[0].description, output: 'done earlier: collect', citations: [] }],
+        };
+
+        await engine.start(saved);
+
+        expect(provider.plans).toBe(0);
+        expect(provider.executed.map(call => call.taskId)).toEqual(['price', 'compare']);
+        expect(phasesOf(events)).toEqual(['executing', 'synthesizing', 'completed']);
+    });
+
+    it('executes the plan as edited during the review', async () => {
+        const { engine, events } = createEngine(true);
+        engine.subscribe(event => {
+            if (event.type === 'approvalRequired' && event.approval.kind === 'plan') {
+                engine.approvePlan(event.approval.tasks.filter(task => task.id === 'collect'));
+            }
+        });
+
+        await engine.start(newRun());
+
+        expect(phasesOf(events)).toEqual(['planning', 'reviewing', 'executing', 'synthesizing', 'completed']);
+        expect(provider.executed.map(call => call.taskId)).toEqual(['collect']);
+    });
+
+    it('ends as cancelled when stopped during the review', async () => {
+        const { engine, events } = createEngine(true);
+        engine.subscribe(event => {
+            if (event.type === 'approvalRequired') engine.stop();
+        });
+
+        await engine.start(newRun());
+
+        expect(engine.currentPhase).toBe('cancelled');
+        expect(events.at(-1)).toMatchObject({ type: 'runFailed', cancelled: true });
+        expect(provider.executed).toEqual([]);
+    });
+
+    it('runs sub-tasks within the same parallel limit as the plan', async () => {
+        const { engine } = createEngine();
+        provider.plan = [
+            { id: 'north', description: 'Survey the north shore.', status: TaskStatus.PENDING, complex: true },
+            { id: 'south', description: 'Survey the south shore.', status: TaskStatus.PENDING, complex: true },
+        ];
+        provider.subplan = ['beach', 'cliffs', 'harbour'].map(id => ({ id, description: `Survey the ${id}.`, status: TaskStatus.PENDING }));
+
+        await engine.start(newRun());
+
+        expect(engine.currentPhase).toBe('completed');
+        expect(provider.executed).toHaveLength(6);
+        expect(provider.maxRunning).toBe(2);
+    });
+
+    it('rejects re-running a task whose dependency has no output', async () => {
+        const { engine } = createEngine();
+        const run: SavedRun = { ...newRun(), tasks: PLAN, outputs: [] };
+
+        await expect(engine.rerunTask(run, PLAN[1], '')).rejects.toThrow('"collect"');
+        expect(engine.currentPhase).toBe('failed');
+        expect(provider.executed).toEqual([]);
+    });
+});
@@ -0,0 +1,514 @@
+import { LLMCallTrace, ModelRoute, RunUsage, Task, TaskOutput, TaskStatus, TaskVerification, ToolCallRecord, UsageStage } from '../types';
+import { LLMService, ChunkLimits, FallbackEvent, ProviderOptions, RetryEvent, UsageTracker, inputBudgetChars, parseDynamicParameters } from './llmService';
+import { UsageScope } from './usageTracker';
+import { CallTrace } from './callTrace';
+import { cancellationError } from './httpClient';
+import { TaskSlots, dependenciesOf, runTaskGraph } from './taskGraph';
+import { buildSubtaskGoal, executeWithSubtasks } from './subtasks';
+import { buildPlanFeedbackGoal, validateTaskPlan } from './taskPlanValidator';
+import { SavedRun } from './runStore';
+import { VerificationSettings } from './taskVerifier';
+import { buildCompletedTasksContext, buildSynthesisContext } from './providerPrompts';
+
+// A step estimated at more API calls than this waits for its chunk limits to be confirmed.
+const MAX_UNCONFIRMED_CALLS = 5;
+const NO_LIMITS: ChunkLimits = { doc: 0, aux: 0 };
+
+export type StageServices = { [stage in UsageStage]: { route: ModelRoute; llm: LLMService } };
+
+export interface RunEngineConfig {
+    // One service per stage, each on the stage's routed model.
+    stages: StageServices;
+    // Scores chunks in place of the model of the stage that chunks them; only used by stages on its provider.
+    scoringRoute?: ModelRoute;
+    useSearch: boolean;
+    useTools: boolean;
+    maxParallelTasks: number;
+    // Waits for the plan to be approved with `approvePlan` before it is executed.
+    reviewPlan: boolean;
+    // Has every task output checked by the verifier; unset when verification is off.
+    verification?: VerificationSettings;
+}
+
+export type RunPhase = 'idle' | 'planning' | 'reviewing' | 'executing' | 'synthesizing' | 'completed' | 'failed' | 'cancelled';
+
+// The phases each phase can move on to. A resumed run that was already planned starts executing right away.
+const PHASE_TRANSITIONS: { [phase in RunPhase]: RunPhase[] } = {
+    idle: ['planning', 'executing'],
+    planning: ['reviewing', 'executing', 'failed', 'cancelled'],
+    reviewing: ['executing', 'failed', 'cancelled'],
+    executing: ['synthesizing', 'completed', 'failed', 'cancelled'],
+    synthesizing: ['completed', 'failed', 'cancelled'],
+    completed: [],
+    failed: [],
+    cancelled: [],
+};
+
+// What the run waits for before it goes on; see `approvePlan` and `confirmLimits`.
+export type RunApproval =
+    | { kind: 'plan'; tasks: Task[] }
+    // `step` is `planning`, `synthesis` or `execution:<task id>`, as in `SavedRun.limits`.
+    | { kind: 'limits'; step: string; docChunks: number; auxChunks: number };
+
+// API calls of a run on a chunking provider: made so far, estimated in total and the chunks of the current step.
+export interface CallProgress {
+    completed: number;
+    total: number;
+    docChunks?: number;
+    auxChunks?: number;
+}
+
+export type RunEvent =
+    | { type: 'phaseChanged'; phase: RunPhase }
+    // A plan came back from the planner, also when it was regenerated during the review.
+    | { type: 'planCreated'; tasks: Task[] }
+    // The plan that is executed, once it has been reviewed if review is on.
+    | { type: 'planApproved'; tasks: Task[] }
+    | { type: 'approvalRequired'; approval: RunApproval }
+    // The approval was given, or the run was stopped while waiting for it.
+    | { type: 'approvalResolved'; approval: RunApproval }
+    | { type: 'subtasksCreated'; parent: Task; subtasks: Task[] }
+    | { type: 'taskStarted'; task: Task }
+    // `outputs` are those of the run so far, in plan order; sub-task outputs are rolled up into their parent's.
+    | { type: 'taskCompleted'; task: Task; output: TaskOutput; outputs: TaskOutput[] }
+    // `status` is `FAILED`, or `BLOCKED` when a task it depends on failed.
+    | { type: 'taskFailed'; task: Task; status: TaskStatus }
+    | { type: 'executionProgress'; completed: number; total: number; running: number }
+    // The model starts producing the output of a task; sent for every attempt, not for tasks split into sub-tasks.
+    | { type: 'taskStreamStarted'; task: Task }
+    | { type: 'taskToken'; task: Task; delta: string }
+    // Text streamed before a tool call was the model's request for it, not part of the answer.
+    | { type: 'taskToolCall'; task: Task; call: ToolCallRecord }
+    // With `retrying`, the output is produced again and the text streamed so far is discarded.
+    | { type: 'taskVerified'; task: Task; verification: TaskVerification; retrying: boolean }
+    | { type: 'taskStreamEnded'; task: Task }
+    | { type: 'finalResultStreamStarted' }
+    | { type: 'finalResultToken'; delta: string }
+    | { type: 'retry'; event: RetryEvent }
+    // The text streamed by the model that failed is discarded: that of `task`, or the final result without one.
+    | { type: 'fallback'; event: FallbackEvent; task?: Task }
+    // Only sent when a stage runs on a chunking provider.
+    | { type: 'callProgress'; progress: CallProgress }
+    | { type: 'usageChanged'; usage: RunUsage }
+    // An LLM call ended. Traces are not part of the checkpoints; the whole trace comes with `runCompleted`.
+    | { type: 'callTraced'; call: LLMCallTrace }
+    // What a stopped or failed run needs to be resumed; sent whenever it changes.
+    | { type: 'checkpoint'; run: SavedRun }
+    | { type: 'runCompleted'; result: string; usage: RunUsage; trace: LLMCallTrace[]; run: SavedRun }
+    | { type: 'runFailed'; error: string; cancelled: boolean; run: SavedRun };
+
+export type RunListener = (event: RunEvent) => void;
+
+/**
+ * The plan of a saved run with its completed tasks marked as such; the others run again.
+ */
+export const restoredPlan = (run: SavedRun): Task[] => {
+    const completed = new Set(run.outputs.map(output => output.taskId));
+    return run.tasks.map(task => ({ ...task, status: completed.has(task.id) ? TaskStatus.COMPLETED : TaskStatus.PENDING }));
+};
+
+/**
+ * Runs the pipeline of one run: plans the goal, waits for approvals, executes the tasks as a dependency graph and
+ * synthesizes the final result. It knows nothing about how it is shown; everything that happens is reported to
+ * the listeners as a `RunEvent`, and approvals are given through `approvePlan` and `confirmLimits`. An engine
+ * runs once, either `start` or `rerunTask`; its phase only moves along `PHASE_TRANSITIONS`.
+ */
+export class RunEngine {
+    private listeners = new Set<RunListener>();
+    private phase: RunPhase = 'idle';
+    private cancelled = { current: false };
+    // Aborted by `stop`, so requests still in flight are cut off instead of running (and billing) to the end.
+    private abortController = new AbortController();
+    private run: SavedRun | null = null;
+    // Only a started run sends checkpoints; a re-run task is not resumable.
+    private sendsCheckpoints = false;
+    private chunked = false;
+    private usageTracker = new UsageTracker();
+    private trace: LLMCallTrace[] = [];
+    private calls: CallProgress = { completed: 0, total: 0 };
+    private pendingApproval: { approval: RunApproval; resolve: (answer: any) => void } | null = null;
+    // Approvals are asked for one at a time, even for tasks that run in parallel.
+    private approvals: Promise<unknown> = Promise.resolve();
+
+    constructor(private config: RunEngineConfig) {}
+
+    get currentPhase(): RunPhase {
+        return this.phase;
+    }
+
+    /**
+     * @returns A function that removes the listener again.
+     */
+    subscribe(listener: RunListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Runs `run` to its final result: a new run is planned first, a resumed one continues with the tasks that have
+     * no output yet and keeps the chunk limits confirmed before. Never rejects; the run ends with `runCompleted` or
+     * `runFailed`.
+     * @param trace The calls made by earlier attempts at the run; the trace of `runCompleted` continues it.
+     */
+    async start(run: SavedRun, trace: LLMCallTrace[] = []): Promise<void> {
+        this.begin(run);
+        this.trace = [...trace];
+        this.sendsCheckpoints = true;
+        this.record({ error: undefined });
+        try {
+            await this.loadModelInfo();
+            let plan = restoredPlan(run);
+            if (plan.length === 0) {
+                plan = await this.planAndReview();
+            }
+            this.transition('executing');
+            this.addExecutionAndSynthesisEstimate(plan, run.outputs);
+            const outputs = await this.executePlan(plan, run.outputs);
+
+            this.transition('synthesizing');
+            const result = await this.synthesize(outputs);
+            this.throwIfCancelled();
+            this.transition('completed');
+            this.emit({ type: 'runCompleted', result, usage: this.usageTracker.snapshot(), trace: this.trace, run: this.run! });
+        } catch (err: any) {
+            console.error(err);
+            const cancelled = this.cancelled.current;
+            const error = cancelled ? cancellationError().message : (err.message || 'An unexpected error occurred.');
+            this.record({ error });
+            this.transition(cancelled ? 'cancelled' : 'failed');
+            this.emit({ type: 'runFailed', error, cancelled, run: this.run! });
+        }
+    }
+
+    /**
+     * Runs one task of a finished run again, with optional extra instructions, on the outputs of its dependencies.
+     * Nothing else is run; marking what used the old output is left to the caller.
+     * @returns The new output of the task.
+     * @throws Error if a task it depends on has no output in `run`.
+     */
+    async rerunTask(run: SavedRun, task: Task, instructions: string): Promise<TaskOutput> {
+        this.begin(run);
+        this.transition('executing');
+        const rerunTask: Task = { ...task, instructions: instructions.trim() || undefined };
+        try {
+            const dependencies = dependenciesOf(task);
+            const missing = dependencies.filter(id => !run.outputs.some(output => output.taskId === id));
+            if (missing.length > 0) {
+                throw new Error(`Task "${task.id}" cannot be re-run: tasks ${missing.map(id => `"${id}"`).join(', ')} it depends on have no output.`);
+            }
+            await this.loadModelInfo();
+            this.emit({ type: 'taskStarted', task: rerunTask });
+            const dependencyOutputs = dependencies
+                .map(id => run.outputs.find(output => output.taskId === id))
+                .filter((o): o is TaskOutput => !!o);
+            const output = await this.executeTask(rerunTask, dependencyOutputs);
+            this.throwIfCancelled();
+            const outputs = run.tasks
+                .map(t => t.id === task.id ? output : run.outputs.find(o => o.taskId === t.id))
+                .filter((o): o is TaskOutput => !!o);
+            this.record({ outputs });
+            this.emit({ type: 'taskCompleted', task: rerunTask, output, outputs });
+            this.transition('completed');
+            return output;
+        } catch (err) {
+            this.transition(this.cancelled.current ? 'cancelled' : 'failed');
+            throw this.cancelled.current ? cancellationError() : err;
+        }
+    }
+
+    /**
+     * Executes the reviewed plan; `tasks` is the plan as edited during the review.
+     * @throws TaskPlanValidationError if the edited plan is not valid; the review goes on.
+     */
+    approvePlan(tasks: Task[]): void {
+        const pending = this.pendingApproval;
+        if (pending?.approval.kind !== 'plan') throw new Error('No plan is waiting for approval.');
+        pending.resolve(validateTaskPlan(tasks));
+    }
+
+    /**
+     * Plans again during the review, from the user's feedback and the plan as they edited it. The new plan is sent
+     * as `planCreated` and is reviewed in turn.
+     */
+    async regeneratePlan(feedback: string, tasks: Task[]): Promise<Task[]> {
+        if (this.pendingApproval?.approval.kind !== 'plan') throw new Error('No plan is waiting for approval.');
+        const revised = await this.planTasks(buildPlanFeedbackGoal(this.run!.goal, tasks, feedback), { onProgress: this.callProgressHandler() });
+        this.throwIfCancelled();
+        this.emit({ type: 'planCreated', tasks: revised });
+        return revised;
+    }
+
+    confirmLimits(limits: ChunkLimits): void {
+        const pending = this.pendingApproval;
+        if (pending?.approval.kind !== 'limits') throw new Error('No API calls are waiting for confirmation.');
+        pending.resolve(limits);
+    }
+
+    // Stops the run: requests in flight are aborted, no further task is started and a pending approval is refused.
+    stop(): void {
+        this.cancelled.current = true;
+        this.abortController.abort();
+        this.pendingApproval?.resolve(null);
+    }
+
+    private begin(run: SavedRun) {
+        if (this.phase !== 'idle') throw new Error('A run engine can only run once.');
+        this.run = run;
+        // The chunked pipeline also drives providers that do not chunk, so it is used as soon as one stage needs it.
+        this.chunked = Object.values(this.config.stages).some(stage => stage.llm.service.capabilities.chunking);
+        this.usageTracker = new UsageTracker(usage => {
+            this.emit({ type: 'usageChanged', usage });
+            this.record({ usage }, false);
+        }, run.usage);
+    }
+
+    private emit(event: RunEvent) {
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    private transition(phase: RunPhase) {
+        if (!PHASE_TRANSITIONS[this.phase].includes(phase)) {
+            throw new Error(`A run cannot go from ${this.phase} to ${phase}.`);
+        }
+        this.phase = phase;
+        this.emit({ type: 'phaseChanged', phase });
+    }
+
+    private throwIfCancelled() {
+        if (this.cancelled.current) throw cancellationError();
+    }
+
+    /**
+     * Saves what the run has done so far, so it can be resumed after a failure, a stop or a reload. Changes made
+     * with `checkpoint` off, such as usage, are only sent with the next step of the run. Once the run is over,
+     * late changes (of requests that were still finishing) are ignored.
+     */
+    private record(changes: Partial<SavedRun>, checkpoint = true) {
+        if (PHASE_TRANSITIONS[this.phase].length === 0) return;
+        this.run = { ...this.run!, ...changes };
+        if (checkpoint && this.sendsCheckpoints) this.emit({ type: 'checkpoint', run: this.run });
+    }
+
+    private addTrace(call: LLMCallTrace) {
+        this.trace = [...this.trace, call];
+        this.emit({ type: 'callTraced', call });
+    }
+
+    private updateCalls(changes: Partial<CallProgress>) {
+        this.calls = { ...this.calls, ...changes };
+        if (this.chunked) this.emit({ type: 'callProgress', progress: this.calls });
+    }
+
+    // Progress is reported per call; each report adds what the call completed since its last one.
+    private callProgressHandler() {
+        let reported = 0;
+        return (progress: { completed: number; total: number }) => {
+            if (this.cancelled.current) return;
+            this.updateCalls({ completed: this.calls.completed + progress.completed - reported });
+            reported = progress.completed;
+        };
+    }
+
+    // Options shared by every call of a stage, sized to the stage's model when the run is chunked.
+    private stageOptions(stage: UsageStage, scope: UsageScope = { stage }): ProviderOptions {
+        const options: ProviderOptions = {
+            onRetry: (event: RetryEvent) => this.emit({ type: 'retry', event }),
+            onFallback: (event: FallbackEvent) => this.emit({ type: 'fallback', event }),
+            onUsage: this.usageTracker.handlerFor(scope),
+            onTrace: (call: CallTrace) => this.addTrace({ ...call, ...scope }),
+            signal: this.abortController.signal,
+        };
+        if (!this.chunked) return options;
+        const { route } = this.config.stages[stage];
+        const { scoringRoute } = this.config;
+        return {
+            ...options,
+            maxInputChars: inputBudgetChars(route.provider, route.model),
+            // The scoring model is called through the stage's provider, so it only applies there.
+            scoringModel: scoringRoute?.provider === route.provider ? scoringRoute.model : undefined,
+            ...parseDynamicParameters(this.run!.goal),
+        };
+    }
+
+    // Input budgets and prices are looked up in the model catalog, which only knows the models of listed providers.
+    private async loadModelInfo() {
+        const { scoringRoute } = this.config;
+        await Promise.all(Object.values(this.config.stages).map(({ route, llm }) =>
+            llm.loadModelInfo(scoringRoute?.provider === route.provider ? [route.model, scoringRoute.model] : [route.model])));
+    }
+
+    private estimateApiCalls(stage: UsageStage, mainContent: string, auxiliaryContext: string) {
+        return this.config.stages[stage].llm.service.estimateApiCalls?.(this.stageOptions(stage), mainContent, auxiliaryContext)
+            ?? { mainCount: 1, auxCount: 1, total: 1 };
+    }
+
+    private fileContext(): string {
+        return this.run!.files.map(f => f.content).join('\n\n');
+    }
+
+    // Adds the calls needed to execute the tasks of `plan` that have no output yet and to synthesize the result.
+    private addExecutionAndSynthesisEstimate(plan: Task[], completedOutputs: TaskOutput[]) {
+        if (!this.chunked) return;
+        const estimatedOutputs: TaskOutput[] = plan.map(task => completedOutputs.find(output => output.taskId === task.id)
+            ?? { taskId: task.id, taskDescription: task.description, output: '[ESTIMATED_OUTPUT]', citations: [] });
+        let estimate = 0;
+        for (const task of plan.filter(t => !completedOutputs.some(output => output.taskId === t.id))) {
+            const dependencyOutputs = estimatedOutputs.filter(t => task.dependsOn?.includes(t.taskId));
+            estimate += this.estimateApiCalls('execution', this.fileContext(), buildCompletedTasksContext(dependencyOutputs)).total;
+        }
+        estimate += this.estimateApiCalls('synthesis', buildSynthesisContext(estimatedOutputs), this.run!.goal).total;
+        this.updateCalls({ total: this.calls.total + estimate });
+    }
+
+    /**
+     * The chunk limits of a step: those confirmed earlier in the run, also before it was resumed, none when the step
+     * needs few calls, and otherwise the ones confirmed now.
+     */
+    private async limitsFor(step: string, estimates: { mainCount: number; auxCount: number; total: number }): Promise<ChunkLimits> {
+        const saved = this.run!.limits[step];
+        if (saved) return saved;
+        if (estimates.total <= MAX_UNCONFIRMED_CALLS) return NO_LIMITS;
+        const limits = await this.requestApproval<ChunkLimits>({ kind: 'limits', step, docChunks: estimates.mainCount, auxChunks: estimates.auxCount });
+        if (!limits) throw cancellationError();
+        this.record({ limits: { ...this.run!.limits, [step]: limits } });
+        return limits;
+    }
+
+    // Resolves with the answer, or null if the run was stopped while waiting for it.
+    private requestApproval<T>(approval: RunApproval): Promise<T | null> {
+        const answer = this.approvals.then(() => new Promise<T | null>(resolve => {
+            if (this.cancelled.current) return resolve(null);
+            this.pendingApproval = {
+                approval,
+                resolve: (value: T | null) => {
+                    this.pendingApproval = null;
+                    this.emit({ type: 'approvalResolved', approval });
+                    resolve(value);
+                },
+            };
+            this.emit({ type: 'approvalRequired', approval });
+        }));
+        this.approvals = answer;
+        return answer;
+    }
+
+    private planTasks(planningGoal: string, options: ProviderOptions = {}): Promise<Task[]> {
+        const { planning } = this.config.stages;
+        return planning.llm.breakDownGoalIntoTasks(planning.route.model, planningGoal, this.run!.files,
+            { ...this.stageOptions('planning'), ...options }, this.run!.limits.planning ?? NO_LIMITS, this.cancelled);
+    }
+
+    // Reviewing matters most for chunked runs: a bad plan can cost dozens of chunk calls.
+    private async planAndReview(): Promise<Task[]> {
+        this.transition('planning');
+        const { goal } = this.run!;
+        const estimates = this.estimateApiCalls('planning', this.fileContext(), goal);
+        this.updateCalls({ total: estimates.total });
+        const limits = await this.limitsFor('planning', estimates);
+        this.updateCalls({ total: limits.doc * limits.aux || estimates.total, docChunks: estimates.mainCount, auxChunks: estimates.auxCount });
+
+        let plan = await this.planTasks(goal, { onProgress: this.callProgressHandler() });
+        this.throwIfCancelled();
+        this.emit({ type: 'planCreated', tasks: plan });
+        if (this.config.reviewPlan) {
+            this.transition('reviewing');
+            const approved = await this.requestApproval<Task[]>({ kind: 'plan', tasks: plan });
+            if (!approved) throw cancellationError();
+            plan = approved;
+        }
+        this.emit({ type: 'planApproved', tasks: plan });
+        return plan;
+    }
+
+    /**
+     * Runs the tasks of `plan` that have no output yet: each starts as soon as its dependencies have completed, up to
+     * `maxParallelTasks` at a time, sub-tasks included, and complex tasks are split into sub-tasks.
+     * @returns The outputs of all tasks, in plan order.
+     */
+    private executePlan(plan: Task[], completedOutputs: TaskOutput[]): Promise<TaskOutput[]> {
+        const { goal } = this.run!;
+        const slots = new TaskSlots(this.config.maxParallelTasks);
+        const isCancelled = () => this.cancelled.current;
+        const completed = new Map(completedOutputs.map(output => [output.taskId, output]));
+        const running = new Set<string>();
+        const reportProgress = () => this.emit({ type: 'executionProgress', completed: completed.size, total: plan.length, running: running.size });
+        const reportStatus = (task: Task, status: TaskStatus) => this.emit(status === TaskStatus.IN_PROGRESS
+            ? { type: 'taskStarted', task }
+            : { type: 'taskFailed', task, status });
+
+        this.record({ tasks: plan.map(task => ({ ...task, status: TaskStatus.PENDING })), outputs: completedOutputs });
+        reportProgress();
+        const execute = executeWithSubtasks(
+            (task, dependencyOutputs) => this.executeTask(task, dependencyOutputs),
+            (task, dependencyOutputs) => this.planTasks(buildSubtaskGoal(goal, task, dependencyOutputs)),
+            {
+                slots,
+                isCancelled,
+                taskCount: plan.length,
+                onSubtasks: (parent, subtasks) => this.emit({ type: 'subtasksCreated', parent, subtasks }),
+                onStatusChange: reportStatus,
+                onOutput: (task, output) => this.emit({ type: 'taskCompleted', task, output, outputs: this.run!.outputs }),
+            }
+        );
+        return runTaskGraph(plan, execute, {
+            slots,
+            isCancelled,
+            completedOutputs,
+            onStatusChange: (task, status) => {
+                if (status === TaskStatus.IN_PROGRESS) running.add(task.id);
+                else running.delete(task.id);
+                reportStatus(task, status);
+                reportProgress();
+            },
+            onOutput: (task, output) => {
+                running.delete(task.id);
+                completed.set(task.id, output);
+                const outputs = plan.filter(t => completed.has(t.id)).map(t => completed.get(t.id)!);
+                this.record({ outputs });
+                this.emit({ type: 'taskCompleted', task, output, outputs });
+                reportProgress();
+            },
+        });
+    }
+
+    private async executeTask(task: Task, dependencyOutputs: TaskOutput[]): Promise<TaskOutput> {
+        const { goal, files } = this.run!;
+        const estimates = this.estimateApiCalls('execution', this.fileContext(), buildCompletedTasksContext(dependencyOutputs));
+        const limits = await this.limitsFor(`execution:${task.id}`, estimates);
+        this.throwIfCancelled();
+        this.updateCalls({ docChunks: estimates.mainCount, auxChunks: estimates.auxCount });
+
+        const { execution } = this.config.stages;
+        this.emit({ type: 'taskStreamStarted', task });
+        try {
+            return await execution.llm.executeTask(execution.route.model, task, goal, dependencyOutputs, files, this.config.useSearch, {
+                ...this.stageOptions('execution', { stage: 'execution', taskId: task.id, taskDescription: task.description }),
+                onProgress: this.callProgressHandler(),
+                onToken: (delta: string) => this.emit({ type: 'taskToken', task, delta }),
+                useTools: this.config.useTools,
+                onToolCall: (call: ToolCallRecord) => this.emit({ type: 'taskToolCall', task, call }),
+                onFallback: (event: FallbackEvent) => this.emit({ type: 'fallback', event, task }),
+                verification: this.config.verification,
+                onVerification: (verification: TaskVerification, retrying: boolean) => this.emit({ type: 'taskVerified', task, verification, retrying }),
+            }, limits, this.cancelled);
+        } finally {
+            this.emit({ type: 'taskStreamEnded', task });
+        }
+    }
+
+    private async synthesize(outputs: TaskOutput[]): Promise<string> {
+        const { goal } = this.run!;
+        const estimates = this.estimateApiCalls('synthesis', buildSynthesisContext(outputs), goal);
+        const limits = await this.limitsFor('synthesis', estimates);
+        this.throwIfCancelled();
+        this.updateCalls({ docChunks: estimates.mainCount, auxChunks: estimates.auxCount });
+
+        const { synthesis } = this.config.stages;
+        this.emit({ type: 'finalResultStreamStarted' });
+        return synthesis.llm.synthesizeFinalResult(synthesis.route.model, goal, outputs, {
+            ...this.stageOptions('synthesis'),
+            onProgress: this.callProgressHandler(),
+            onToken: (delta: string) => this.emit({ type: 'finalResultToken', delta }),
+        }, limits, this.cancelled);
+    }
+}
@@ -0,0 +1,80 @@
+import { ChunkLimits } from './llmProvider';
+import { RunUsage, StoredFile, Task, TaskOutput } from '../types';
+
+/**
+ * What is needed to continue a run that failed, was stopped or was interrupted by a reload.
+ */
+export interface SavedRun {
+    goal: string;
+    files: StoredFile[];
+    // The approved plan; empty until planning has finished.
+    tasks: Task[];
+    // Outputs of the tasks that completed, in plan order.
+    outputs: TaskOutput[];
+    // Chunk limits confirmed in the API call dialog, keyed by `planning`, `synthesis` or `execution:<task id>`,
+    // so a resumed run does not ask again.
+    limits: { [step: string]: ChunkLimits };
+    usage?: RunUsage;
+    // Why the run ended early; unset while it is running.
+    error?: string;
+    updatedAt: number;
+}
+
+const DB_NAME = 'saved-runs';
+const DB_VERSION = 1;
+const RUN_STORE = 'runs';
+// Only the latest run is kept.
+const RUN_KEY = 'latest';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available.'));
+    }
+    if (!database) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(RUN_STORE);
+        };
+        database = promisify(request);
+        database.catch(() => { database = null; });
+    }
+    return database;
+};
+
+const runStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> =>
+    (await openDatabase()).transaction(RUN_STORE, mode).objectStore(RUN_STORE);
+
+export const loadSavedRun = async (): Promise<SavedRun | null> => {
+    try {
+        return (await promisify((await runStore('readonly')).get(RUN_KEY))) ?? null;
+    } catch (err) {
+        console.warn('Could not load the saved run:', err);
+        return null;
+    }
+};
+
+/**
+ * Replaces the saved run. Failures are logged rather than thrown, so a run never fails because it could not be saved.
+ */
+export const saveRun = async (run: SavedRun): Promise<void> => {
+    try {
+        await promisify((await runStore('readwrite')).put({ ...run, updatedAt: Date.now() }, RUN_KEY));
+    } catch (err) {
+        console.warn('Could not save the run:', err);
+    }
+};
+
+export const clearSavedRun = async (): Promise<void> => {
+    try {
+        await promisify((await runStore('readwrite')).delete(RUN_KEY));
+    } catch (err) {
+        console.warn('Could not delete the saved run:', err);
+    }
+};
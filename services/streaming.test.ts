@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { hasChatCompletion } from './streaming';
+
+const stream = (...payloads: unknown[]) =>
+    payloads.map(payload => `data: ${typeof payload === 'string' ? payload : JSON.stringify(payload)}\n\n`).join('');
+
+describe('hasChatCompletion', () => {
+    it('accepts a completion with text or a tool call, streamed or not', () => {
+        expect(hasChatCompletion(JSON.stringify({ choices: [{ message: { content: 'Offer B.' } }] }))).toBe(true);
+        expect(hasChatCompletion(JSON.stringify({ choices: [{ message: { content: null, tool_calls: [{ id: 'call_1' }] } }] }))).toBe(true);
+        expect(hasChatCompletion(stream({ choices: [{ delta: { role: 'assistant' } }] }, { choices: [{ delta: { content: 'B.' } }] }, '[DONE]'))).toBe(true);
+    });
+
+    it('rejects empty completions and streams that report an error', () => {
+        expect(hasChatCompletion(JSON.stringify({ choices: [{ message: { content: '' } }] }))).toBe(false);
+        expect(hasChatCompletion(stream({ choices: [{ delta: { role: 'assistant' } }] }, '[DONE]'))).toBe(false);
+        expect(hasChatCompletion(stream({ choices: [{ delta: { content: 'Off' } }] }, { error: { message: 'Upstream timeout.' } }))).toBe(false);
+        expect(hasChatCompletion('not json')).toBe(false);
+    });
+});
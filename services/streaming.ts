@@ -0,0 +1,216 @@
+export interface ServerSentEvent {
+    event?: string;
+    data: string;
+}
+
+/**
+ * Parses a `text/event-stream` response body into individual events.
+ * Multi-line `data:` fields are joined with newlines, as the SSE specification requires.
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<ServerSentEvent> {
+    if (!response.body) {
+        throw new Error('The response does not contain a readable stream.');
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventName: string | undefined;
+    let dataLines: string[] = [];
+
+    const flush = (): ServerSentEvent | null => {
+        if (dataLines.length === 0) {
+            eventName = undefined;
+            return null;
+        }
+        const evt = { event: eventName, data: dataLines.join('\n') };
+        eventName = undefined;
+        dataLines = [];
+        return evt;
+    };
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+                const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+                buffer = buffer.slice(newlineIndex + 1);
+
+                if (line === '') {
+                    const evt = flush();
+                    if (evt) yield evt;
+                } else if (line.startsWith('data:')) {
+                    dataLines.push(line.slice(5).replace(/^ /, ''));
+                } else if (line.startsWith('event:')) {
+                    eventName = line.slice(6).trim();
+                }
+                // Comment lines (":") and unknown fields are ignored.
+            }
+
+            if (done) {
+                if (buffer.startsWith('data:')) {
+                    dataLines.push(buffer.slice(5).replace(/^ /, ''));
+                }
+                const evt = flush();
+                if (evt) yield evt;
+                return;
+            }
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Yields the text deltas of an OpenAI-compatible streaming chat completion
+ * (`choices[0].delta.content`), stopping at the `[DONE]` sentinel.
+ * `onUsage` receives the `usage` object sent when the request set `stream_options.include_usage`.
+ */
+export async function* readChatCompletionStream(response: Response, onUsage?: (usage: any) => void): AsyncGenerator<string> {
+    for await (const evt of readServerSentEvents(response)) {
+        if (evt.data === '[DONE]') return;
+        let payload: any;
+        try {
+            payload = JSON.parse(evt.data);
+        } catch (e) {
+            console.warn('Skipping malformed stream event:', evt.data);
+            continue;
+        }
+        if (payload.error) {
+            throw new Error(`Stream error: ${payload.error.message || JSON.stringify(payload.error)}`);
+        }
+        if (payload.usage) {
+            onUsage?.(payload.usage);
+        }
+        const delta = payload.choices?.[0]?.delta?.content;
+        if (delta) {
+            yield delta;
+        }
+    }
+}
+
+// The JSON payloads of a body read in full: those of the `data:` events of an event stream, or the body itself.
+const payloadsOf = (body: string): any[] => {
+    const isStream = !body.trimStart().startsWith('{') && /^(data|event):/m.test(body);
+    const texts = isStream
+        ? body.split(/\r?\n\r?\n/).map(block => block.split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).replace(/^ /, ''))
+            .join('\n'))
+        : [body];
+    return texts.filter(text => text && text !== '[DONE]').flatMap(text => {
+        try {
+            return [JSON.parse(text)];
+        } catch (e) {
+            return [];
+        }
+    });
+};
+
+/**
+ * Whether a successful response body, streamed or not, holds an answer worth keeping: no payload reports an error
+ * and `hasContent` finds content in at least one. Used as `HttpRequestOptions.cacheable`.
+ */
+export const isCompleteResponse = (body: string, hasContent: (payload: any) => boolean): boolean => {
+    const payloads = payloadsOf(body);
+    return !payloads.some(payload => payload?.error || payload?.type === 'error') && payloads.some(hasContent);
+};
+
+// `isCompleteResponse` for OpenAI-compatible chat completions: some text or a tool call.
+export const hasChatCompletion = (body: string): boolean => isCompleteResponse(body, payload => {
+    const message = payload?.choices?.[0]?.message ?? payload?.choices?.[0]?.delta;
+    return !!message?.content || message?.tool_calls?.length > 0;
+});
+
+// A tool call requested by an OpenAI-compatible chat completion; `arguments` is a JSON string.
+export interface OpenAIToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+// A web source attached to a span of the reply, as OpenRouter reports them for `:online` models.
+export interface UrlCitation {
+    url: string;
+    title?: string;
+    // Character offsets into the reply's content.
+    start_index?: number;
+    end_index?: number;
+}
+
+// The assistant message of a chat completion, streamed or not.
+export interface ChatCompletionMessage {
+    content: string;
+    toolCalls: OpenAIToolCall[];
+    annotations?: UrlCitation[];
+}
+
+// Picks the URL citations out of a message's (or a delta's) `annotations`.
+export const urlCitationsOf = (annotations: any): UrlCitation[] =>
+    Array.isArray(annotations)
+        ? annotations.filter(a => a?.type === 'url_citation' && a.url_citation?.url).map(a => a.url_citation)
+        : [];
+
+/**
+ * Reads a streaming chat completion that may call tools. Text deltas are forwarded to `onToken`; tool calls
+ * arrive in fragments keyed by `index` (id and name first, then pieces of the arguments) and are reassembled.
+ * URL citations are collected from the deltas' `annotations`.
+ */
+export const collectChatCompletionStream = async (
+    response: Response,
+    onToken: (delta: string) => void,
+    onUsage?: (usage: any) => void
+): Promise<ChatCompletionMessage> => {
+    let content = '';
+    const toolCalls: OpenAIToolCall[] = [];
+    const annotations: UrlCitation[] = [];
+    for await (const evt of readServerSentEvents(response)) {
+        if (evt.data === '[DONE]') break;
+        let payload: any;
+        try {
+            payload = JSON.parse(evt.data);
+        } catch (e) {
+            console.warn('Skipping malformed stream event:', evt.data);
+            continue;
+        }
+        if (payload.error) {
+            throw new Error(`Stream error: ${payload.error.message || JSON.stringify(payload.error)}`);
+        }
+        if (payload.usage) {
+            onUsage?.(payload.usage);
+        }
+        const delta = payload.choices?.[0]?.delta;
+        if (delta?.content) {
+            content += delta.content;
+            onToken(delta.content);
+        }
+        annotations.push(...urlCitationsOf(delta?.annotations));
+        for (const fragment of delta?.tool_calls ?? []) {
+            const index = fragment.index ?? toolCalls.length;
+            const call = toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.function.name += fragment.function.name;
+            if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+        }
+    }
+    // Some servers leave out ids; they only have to be unique within the reply.
+    return {
+        content,
+        toolCalls: toolCalls.filter(Boolean).map((call, i) => ({ ...call, id: call.id || `call_${i}` })),
+        ...(annotations.length > 0 ? { annotations } : {}),
+    };
+};
+
+/**
+ * Drains a stream of text deltas, forwarding each one to `onToken`, and returns the full text.
+ */
+export const collectStream = async (deltas: AsyncIterable<string>, onToken: (delta: string) => void): Promise<string> => {
+    let text = '';
+    for await (const delta of deltas) {
+        text += delta;
+        onToken(delta);
+    }
+    return text;
+};
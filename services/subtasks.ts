@@ -0,0 +1,127 @@
+import { Task, TaskOutput, TaskStatus } from '../types';
+import { mergeTaskCitations } from './citations';
+import { TaskSlots, dependenciesOf, runTaskGraph } from './taskGraph';
+
+// Sub-tasks can be split once more; deeper tasks are executed as they are.
+export const MAX_SUBTASK_DEPTH = 2;
+// Tasks of a run, sub-tasks included. Complex tasks are executed as they are once it is reached.
+export const MAX_TOTAL_TASKS = 40;
+
+export const subtasksOf = (tasks: Task[], parentId: string): Task[] => tasks.filter(task => task.parentId === parentId);
+
+/**
+ * @returns The ids of the sub-tasks of `taskId`, their sub-tasks and so on.
+ */
+export const descendantsOf = (tasks: Task[], taskId: string): Set<string> => {
+    const descendants = new Set<string>();
+    const visit = (parentId: string) => {
+        for (const subtask of subtasksOf(tasks, parentId)) {
+            descendants.add(subtask.id);
+            visit(subtask.id);
+        }
+    };
+    visit(taskId);
+    return descendants;
+};
+
+/**
+ * The goal the planner is given to split `task` into sub-tasks: the task itself, the primary goal it serves
+ * and the outputs it builds on.
+ */
+export const buildSubtaskGoal = (goal: string, task: Task, dependencyOutputs: TaskOutput[]): string => `${task.description}
+
+This is one task of a larger plan for the primary goal:
+${goal}
+${dependencyOutputs.length > 0 ? `
+It builds on the outputs of these completed tasks, which every sub-task will see:
+${dependencyOutputs.map(output => `- ${output.taskDescription}`).join('\n')}
+` : ''}
+Break only this task down into a few sub-tasks that together complete it. Describe each sub-task so that it can be understood without this plan. Mark a sub-task as complex only if it is still too large to be done in one step.`;
+
+/**
+ * Turns the plan made for `parent` into its sub-tasks. Ids are prefixed with the parent's id, so they stay
+ * unique within the run, and dependencies on tasks that were dropped are removed.
+ * @param maxCount At most this many tasks are kept, in plan order.
+ */
+export const nestSubtasks = (parent: Task, plan: Task[], maxCount: number): Task[] => {
+    const kept = plan.slice(0, Math.max(0, maxCount));
+    const keptIds = new Set(kept.map(task => task.id));
+    const nestedId = (id: string) => `${parent.id}/${id}`;
+    return kept.map(task => ({
+        ...task,
+        id: nestedId(task.id),
+        status: TaskStatus.PENDING,
+        dependsOn: dependenciesOf(task).filter(id => keptIds.has(id)).map(nestedId),
+        parentId: parent.id,
+    }));
+};
+
+/**
+ * The output of a task that was split into sub-tasks: the sub-tasks' outputs in order, each under its
+ * description, with their citations numbered in one sequence.
+ */
+export const rollUpSubtaskOutputs = (parent: Task, subtaskOutputs: TaskOutput[]): TaskOutput => {
+    const { outputs, citations } = mergeTaskCitations(subtaskOutputs);
+    const toolCalls = subtaskOutputs.flatMap(output => output.toolCalls ?? []);
+    const promptTemplates = [...new Set(subtaskOutputs.flatMap(output => output.promptTemplates ?? []))];
+    return {
+        taskId: parent.id,
+        taskDescription: parent.description,
+        output: outputs.map(output => `### ${output.taskDescription}\n\n${output.output}`).join('\n\n'),
+        citations,
+        promptTemplates: promptTemplates.length > 0 ? promptTemplates : undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+};
+
+export interface SubtaskOptions {
+    // The slots of the run's task graph; sub-tasks take theirs from the same ones.
+    slots: TaskSlots;
+    isCancelled: () => boolean;
+    // Tasks in the run before any was split.
+    taskCount: number;
+    // Called with the sub-tasks of `parent` before they start.
+    onSubtasks?: (parent: Task, subtasks: Task[]) => void;
+    // Called when a sub-task starts (`IN_PROGRESS`), fails or is blocked.
+    onStatusChange?: (task: Task, status: TaskStatus) => void;
+    // Called with the output of every sub-task that completes.
+    onOutput?: (task: Task, output: TaskOutput) => void;
+}
+
+/**
+ * Wraps `execute` for `runTaskGraph` so that tasks marked `complex` are split into sub-tasks by `decompose`
+ * instead. The sub-tasks run as a graph of their own, see the outputs the parent depends on next to those of
+ * their sibling dependencies, and may be split again up to `MAX_SUBTASK_DEPTH` levels and as long as the run
+ * stays within `MAX_TOTAL_TASKS`. Their outputs are rolled up into the parent's output. A plan with fewer than
+ * two sub-tasks is not worth splitting, so the task is executed as it is. A parent frees its slot while its
+ * sub-tasks run, so that they can take it.
+ * @param decompose Plans the sub-tasks of a task; the result is passed through `nestSubtasks`.
+ */
+export const executeWithSubtasks = (
+    execute: (task: Task, dependencyOutputs: TaskOutput[]) => Promise<TaskOutput>,
+    decompose: (task: Task, dependencyOutputs: TaskOutput[]) => Promise<Task[]>,
+    { slots, isCancelled, taskCount, onSubtasks, onStatusChange, onOutput }: SubtaskOptions
+): ((task: Task, dependencyOutputs: TaskOutput[], releaseSlot: () => void) => Promise<TaskOutput>) => {
+    let totalTasks = taskCount;
+    const run = async (task: Task, dependencyOutputs: TaskOutput[], releaseSlot: () => void, depth: number): Promise<TaskOutput> => {
+        const room = MAX_TOTAL_TASKS - totalTasks;
+        if (!task.complex || depth >= MAX_SUBTASK_DEPTH || room < 2) {
+            return execute(task, dependencyOutputs);
+        }
+        const subtasks = nestSubtasks(task, await decompose(task, dependencyOutputs), room);
+        if (subtasks.length < 2) {
+            return execute(task, dependencyOutputs);
+        }
+        totalTasks += subtasks.length;
+        onSubtasks?.(task, subtasks);
+        releaseSlot();
+        const subtaskOutputs = await runTaskGraph(
+            subtasks,
+            (subtask, siblingOutputs, releaseSubtaskSlot) =>
+                run(subtask, [...dependencyOutputs, ...siblingOutputs], releaseSubtaskSlot, depth + 1),
+            { slots, isCancelled, onStatusChange, onOutput }
+        );
+        return rollUpSubtaskOutputs(task, subtaskOutputs);
+    };
+    return (task, dependencyOutputs, releaseSlot) => run(task, dependencyOutputs, releaseSlot, 0);
+};
@@ -0,0 +1,184 @@
+import { Task, TaskOutput, TaskStatus } from '../types';
+import { cancellationError } from './httpClient';
+
+export const DEFAULT_MAX_PARALLEL_TASKS = 3;
+
+export const dependenciesOf = (task: Task): string[] => task.dependsOn ?? [];
+
+/**
+ * Finds a dependency cycle, ignoring dependencies on ids that are not in `tasks`.
+ * @returns The ids along the cycle, starting and ending with the same id, or null if there is none.
+ */
+export const findDependencyCycle = (tasks: Pick<Task, 'id' | 'dependsOn'>[]): string[] | null => {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const done = new Set<string>();
+    const path: string[] = [];
+    const visit = (id: string): string[] | null => {
+        const onPath = path.indexOf(id);
+        if (onPath !== -1) return [...path.slice(onPath), id];
+        if (done.has(id) || !byId.has(id)) return null;
+        path.push(id);
+        for (const dependency of byId.get(id)!.dependsOn ?? []) {
+            const cycle = visit(dependency);
+            if (cycle) return cycle;
+        }
+        path.pop();
+        done.add(id);
+        return null;
+    };
+    for (const task of tasks) {
+        const cycle = visit(task.id);
+        if (cycle) return cycle;
+    }
+    return null;
+};
+
+/**
+ * @returns The ids of every task that depends on `taskId`, directly or through other tasks.
+ */
+export const dependentsOf = (tasks: Task[], taskId: string): Set<string> => {
+    const dependents = new Set<string>();
+    for (let grew = true; grew; ) {
+        grew = false;
+        for (const task of tasks) {
+            if (dependents.has(task.id)) continue;
+            if (dependenciesOf(task).some(id => id === taskId || dependents.has(id))) {
+                dependents.add(task.id);
+                grew = true;
+            }
+        }
+    }
+    return dependents;
+};
+
+/**
+ * The level of each task in the graph: 0 for tasks without dependencies, otherwise one more than the deepest
+ * task it depends on. Tasks on the same level never depend on each other.
+ */
+export const taskDepths = (tasks: Task[]): Map<string, number> => {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const depths = new Map<string, number>();
+    const depthOf = (task: Task, seen: Set<string>): number => {
+        const known = depths.get(task.id);
+        if (known !== undefined) return known;
+        seen.add(task.id);
+        const depth = Math.max(-1, ...dependenciesOf(task)
+            .map(id => byId.get(id))
+            .filter((dependency): dependency is Task => !!dependency && !seen.has(dependency.id))
+            .map(dependency => depthOf(dependency, seen))) + 1;
+        depths.set(task.id, depth);
+        return depth;
+    };
+    tasks.forEach(task => depthOf(task, new Set()));
+    return depths;
+};
+
+/**
+ * Slots for running tasks. A run's task graph and the sub-task graphs started from it share one, so that together
+ * they run at most `limit` tasks at a time.
+ */
+export class TaskSlots {
+    private active = 0;
+    private waiters: (() => void)[] = [];
+
+    constructor(private readonly limit: number) {}
+
+    /**
+     * Takes a slot if one is free.
+     * @returns A function that frees the slot again, calling it more than once has no effect; null if none is free.
+     */
+    tryAcquire(): (() => void) | null {
+        if (this.active >= Math.max(1, this.limit)) return null;
+        this.active++;
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            this.active--;
+            const waiters = this.waiters;
+            this.waiters = [];
+            waiters.forEach(resolve => resolve());
+        };
+    }
+
+    // Resolves the next time any slot is freed.
+    freed(): Promise<void> {
+        return new Promise(resolve => this.waiters.push(resolve));
+    }
+}
+
+export interface RunTaskGraphOptions {
+    // Every running task holds one of these until it settles or frees it early.
+    slots: TaskSlots;
+    isCancelled: () => boolean;
+    // Outputs of tasks that already completed; those tasks are not run again.
+    completedOutputs?: TaskOutput[];
+    // Called when a task starts (`IN_PROGRESS`), fails (`FAILED`) or is skipped because of a failure (`BLOCKED`).
+    onStatusChange?: (task: Task, status: TaskStatus) => void;
+    // Called with the output of every task that completes, in the order they complete.
+    onOutput?: (task: Task, output: TaskOutput) => void;
+}
+
+/**
+ * Runs `tasks` in dependency order, starting every task whose dependencies have completed as long as
+ * one of `slots` is free. Each task receives the outputs of its dependencies, in the order of its `dependsOn`,
+ * and a function that frees its slot before it settles, for a task that goes on to wait on other tasks. When a task fails, the tasks that depend on it are blocked but independent
+ * tasks still run; the first error is thrown once nothing is running any more. Once `isCancelled` returns
+ * true no further tasks are started and the run ends with a cancellation error.
+ * @returns The outputs of all tasks, in the order of `tasks`.
+ */
+export const runTaskGraph = async (
+    tasks: Task[],
+    execute: (task: Task, dependencyOutputs: TaskOutput[], releaseSlot: () => void) => Promise<TaskOutput>,
+    { slots, isCancelled, completedOutputs = [], onStatusChange, onOutput }: RunTaskGraphOptions
+): Promise<TaskOutput[]> => {
+    const outputs = new Map(completedOutputs.map(output => [output.taskId, output]));
+    const waiting = tasks.filter(task => !outputs.has(task.id));
+    const running = new Set<Promise<void>>();
+    let firstError: unknown = null;
+
+    const fail = (task: Task, error: unknown) => {
+        firstError ??= error;
+        onStatusChange?.(task, TaskStatus.FAILED);
+        const dependents = dependentsOf(tasks, task.id);
+        for (const blocked of waiting.filter(t => dependents.has(t.id))) {
+            waiting.splice(waiting.indexOf(blocked), 1);
+            onStatusChange?.(blocked, TaskStatus.BLOCKED);
+        }
+    };
+
+    const start = (task: Task, releaseSlot: () => void) => {
+        waiting.splice(waiting.indexOf(task), 1);
+        onStatusChange?.(task, TaskStatus.IN_PROGRESS);
+        const run: Promise<void> = execute(task, dependenciesOf(task).map(id => outputs.get(id)!), releaseSlot)
+            .then(output => {
+                outputs.set(task.id, output);
+                onOutput?.(task, output);
+            }, error => fail(task, error))
+            .finally(() => {
+                releaseSlot();
+                running.delete(run);
+            });
+        running.add(run);
+    };
+
+    const ready = () => isCancelled() ? [] : waiting.filter(t => dependenciesOf(t).every(id => outputs.has(id)));
+    for (;;) {
+        for (const task of ready()) {
+            const releaseSlot = slots.tryAcquire();
+            if (!releaseSlot) break;
+            start(task, releaseSlot);
+        }
+        // Tasks that are ready but found no free slot wait for one, which other graphs sharing `slots` may free too.
+        const waitForSlot = ready().length > 0;
+        if (running.size === 0 && !waitForSlot) break;
+        await Promise.race([...running, ...(waitForSlot ? [slots.freed()] : [])]);
+    }
+
+    if (isCancelled()) throw cancellationError();
+    if (firstError) throw firstError;
+    if (waiting.length > 0) {
+        throw new Error(`Tasks ${waiting.map(task => `"${task.id}"`).join(', ')} depend on tasks that never completed.`);
+    }
+    return tasks.map(task => outputs.get(task.id)!);
+};
@@ -0,0 +1,252 @@
+import { Task, TaskStatus } from '../types';
+import { findDependencyCycle } from './taskGraph';
+
+export const MAX_PLAN_TASKS = 20;
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Thrown when a model's task plan does not have the `Task[]` shape. `issues` lists every problem found,
+ * so they can be sent back to the model in a repair prompt.
+ */
+export class TaskPlanValidationError extends Error {
+    public issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid task plan: ${issues.join(' ')}`);
+        this.name = 'TaskPlanValidationError';
+        this.issues = issues;
+    }
+}
+
+const stripMarkdown = (text: string): string => text.replace(/```(?:json)?\n?([\s\S]*?)\n?```/, '$1').trim();
+
+// Accepts a bare array as well as the common `{ "tasks": [...] }` wrapper.
+const unwrapTaskArray = (value: any): unknown => (
+    value && !Array.isArray(value) && typeof value === 'object' && Array.isArray(value.tasks) ? value.tasks : value
+);
+
+// Plans without any `dependsOn` come from prompts written before task dependencies existed; their tasks
+// run in order and each sees every earlier output, as they always did.
+const dependOnEarlierTasks = <T extends { id: string }>(tasks: T[]): (T & { dependsOn: string[] })[] =>
+    tasks.map((task, index) => ({ ...task, dependsOn: tasks.slice(0, index).map(earlier => earlier.id) }));
+
+const hasDependencies = (plan: any[]): boolean => plan.some(task => task && typeof task === 'object' && 'dependsOn' in task);
+
+/**
+ * Checks that `value` is a non-empty array of at most `maxTasks` tasks with unique, non-empty `id`s,
+ * non-empty descriptions and `dependsOn` lists that name other tasks of the plan without forming a cycle.
+ * @returns The tasks with `status` set to pending.
+ */
+export const validateTaskPlan = (value: unknown, maxTasks: number = MAX_PLAN_TASKS): Task[] => {
+    const plan = unwrapTaskArray(value);
+    if (!Array.isArray(plan)) {
+        throw new TaskPlanValidationError(['The response must be a JSON array of task objects.']);
+    }
+
+    const issues: string[] = [];
+    if (plan.length === 0) {
+        issues.push('The task list is empty; it must contain at least one task.');
+    }
+    if (plan.length > maxTasks) {
+        issues.push(`The task list has ${plan.length} tasks; the maximum is ${maxTasks}.`);
+    }
+
+    const seenIds = new Set<string>();
+    plan.forEach((task: any, index: number) => {
+        const position = `Task ${index + 1}`;
+        if (!task || typeof task !== 'object' || Array.isArray(task)) {
+            issues.push(`${position} is not an object.`);
+            return;
+        }
+        if (typeof task.id !== 'string' || task.id.trim() === '') {
+            issues.push(`${position} is missing a non-empty string "id".`);
+        } else if (seenIds.has(task.id.trim())) {
+            // Ids are compared as they are saved, without surrounding whitespace.
+            issues.push(`${position} reuses the id "${task.id.trim()}"; ids must be unique.`);
+        } else {
+            seenIds.add(task.id.trim());
+        }
+        if (typeof task.description !== 'string' || task.description.trim() === '') {
+            issues.push(`${position} is missing a non-empty "description".`);
+        }
+        if (task.complex !== undefined && typeof task.complex !== 'boolean') {
+            issues.push(`${position} has a "complex" that is not true or false.`);
+        }
+    });
+
+    plan.forEach((task: any, index: number) => {
+        if (!task || typeof task !== 'object' || task.dependsOn === undefined) return;
+        const position = `Task ${index + 1}`;
+        if (!Array.isArray(task.dependsOn) || task.dependsOn.some((id: unknown) => typeof id !== 'string')) {
+            issues.push(`${position} has a "dependsOn" that is not an array of task ids.`);
+            return;
+        }
+        for (const id of task.dependsOn as string[]) {
+            if (id.trim() === task.id?.trim?.()) {
+                issues.push(`${position} depends on itself.`);
+            } else if (!seenIds.has(id.trim())) {
+                issues.push(`${position} depends on "${id}", which is not the id of a task in the list.`);
+            }
+        }
+    });
+    if (issues.length === 0) {
+        const cycle = findDependencyCycle(plan.map((task: any) => ({ id: task.id.trim(), dependsOn: task.dependsOn?.map((id: string) => id.trim()) })));
+        if (cycle) {
+            issues.push(`The tasks ${cycle.map(id => `"${id}"`).join(' -> ')} depend on each other in a cycle.`);
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new TaskPlanValidationError(issues);
+    }
+    const tasks = plan.map((task: any) => ({ ...task, id: task.id.trim(), description: task.description.trim(), status: TaskStatus.PENDING }));
+    if (!hasDependencies(plan)) {
+        return dependOnEarlierTasks(tasks);
+    }
+    return tasks.map(task => ({ ...task, dependsOn: [...new Set<string>((task.dependsOn ?? []).map((id: string) => id.trim()))] }));
+};
+
+/**
+ * Parses and validates a model's raw plan output.
+ */
+export const parseTaskPlan = (text: string, maxTasks: number = MAX_PLAN_TASKS): Task[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(stripMarkdown(text));
+    } catch (e) {
+        throw new TaskPlanValidationError(['The response is not valid JSON. Respond with only the JSON array, without any surrounding text.']);
+    }
+    return validateTaskPlan(parsed, maxTasks);
+};
+
+// Yields every balanced `[...]` substring of `text`, outermost first, ignoring brackets inside strings.
+function* findJsonArrays(text: string): Generator<string> {
+    for (let start = text.indexOf('['); start !== -1; start = text.indexOf('[', start + 1)) {
+        let depth = 0;
+        let inString = false;
+        for (let i = start; i < text.length; i++) {
+            const ch = text[i];
+            if (inString) {
+                if (ch === '\\') i++;
+                else if (ch === '"') inString = false;
+            } else if (ch === '"') {
+                inString = true;
+            } else if (ch === '[') {
+                depth++;
+            } else if (ch === ']' && --depth === 0) {
+                yield text.slice(start, i + 1);
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Last resort for output that never validated: pulls the first JSON array of task-like objects out of
+ * surrounding prose and repairs it by generating missing ids, de-duplicating ids, dropping tasks without
+ * a description, keeping only dependencies on earlier tasks and truncating to `maxTasks`.
+ * @returns The tasks, or `null` if no usable array was found.
+ */
+export const extractTaskPlanLeniently = (text: string, maxTasks: number = MAX_PLAN_TASKS): Task[] | null => {
+    for (const candidate of findJsonArrays(text)) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(candidate);
+        } catch (e) {
+            continue;
+        }
+        if (!Array.isArray(parsed)) continue;
+
+        const seenIds = new Set<string>();
+        const tasks: Task[] = [];
+        for (const item of parsed) {
+            const description = typeof item === 'string' ? item : item?.description ?? item?.task ?? item?.title;
+            if (typeof description !== 'string' || description.trim() === '') continue;
+
+            let id = typeof item?.id === 'string' && item.id.trim() ? item.id.trim() : `task-${tasks.length + 1}`;
+            for (let suffix = 2; seenIds.has(id); suffix++) {
+                id = `${id}-${suffix}`;
+            }
+            // Checked before `id` is added, so a task can neither depend on itself nor on a later task.
+            const dependsOn = Array.isArray(item?.dependsOn)
+                ? [...new Set<string>(item.dependsOn.filter((dep: unknown) => typeof dep === 'string' && seenIds.has(dep.trim())).map((dep: string) => dep.trim()))]
+                : [];
+            seenIds.add(id);
+            tasks.push({ id, description: description.trim(), status: TaskStatus.PENDING, dependsOn, ...(item?.complex === true ? { complex: true } : {}) });
+            if (tasks.length === maxTasks) break;
+        }
+        if (tasks.length > 0) {
+            return hasDependencies(parsed) ? tasks : dependOnEarlierTasks(tasks);
+        }
+    }
+    return null;
+};
+
+export const buildRepairPrompt = (previousOutput: string, issues: string[], maxTasks: number = MAX_PLAN_TASKS): string => `
+Your previous task list could not be used because of the following problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+---
+${previousOutput}
+---
+
+Fix these problems and respond again with ONLY a JSON array of at most ${maxTasks} objects, each with a unique, short, hyphenated "id", a non-empty "description", a "dependsOn" array with the ids of the earlier tasks whose output it needs and, for tasks too large to be done in one step, "complex": true.
+Do not include any other text, commentary, or markdown formatting.
+`;
+
+/**
+ * The goal to plan for when the user asks for a new plan: the original goal together with the plan they
+ * reviewed (including their edits) and their feedback on it.
+ */
+export const buildPlanFeedbackGoal = (goal: string, plan: Task[], feedback: string): string => `${goal}
+
+A previous plan for this goal was reviewed and needs to be revised:
+${plan.map((task, index) => `${index + 1}. [${task.id}] ${task.description}${task.dependsOn?.length ? ` (depends on ${task.dependsOn.join(', ')})` : ''}`).join('\n')}
+
+Feedback on that plan:
+${feedback.trim() || 'Produce a better plan.'}
+
+Create a new task plan for the goal that addresses this feedback.`;
+
+export interface ResolveTaskPlanOptions {
+    maxTasks?: number;
+    maxRepairAttempts?: number;
+    // Used in the error thrown when nothing usable was produced, e.g. "OpenRouter".
+    providerName: string;
+}
+
+/**
+ * Turns a model's raw plan output into validated tasks. Invalid output is sent back through `repair`
+ * together with the validation errors, up to `maxRepairAttempts` times; if no attempt validates, the
+ * lenient extractor is tried on every response, newest first.
+ * @param rawContent The model's first response.
+ * @param repair Sends a repair prompt to the model and resolves with its new raw response.
+ */
+export const resolveTaskPlan = async (
+    rawContent: string,
+    repair: (repairPrompt: string) => Promise<string>,
+    { maxTasks = MAX_PLAN_TASKS, maxRepairAttempts = MAX_REPAIR_ATTEMPTS, providerName }: ResolveTaskPlanOptions
+): Promise<Task[]> => {
+    const responses = [rawContent];
+    for (let attempt = 0; ; attempt++) {
+        const latest = responses[responses.length - 1];
+        try {
+            return parseTaskPlan(latest, maxTasks);
+        } catch (e) {
+            if (!(e instanceof TaskPlanValidationError)) throw e;
+            console.warn(`${providerName} task plan failed validation (attempt ${attempt + 1}):`, e.issues, "\nRaw content:", latest);
+            if (attempt >= maxRepairAttempts) break;
+            responses.push(await repair(buildRepairPrompt(latest, e.issues, maxTasks)));
+        }
+    }
+
+    for (const response of [...responses].reverse()) {
+        const tasks = extractTaskPlanLeniently(response, maxTasks);
+        if (tasks) {
+            console.warn(`Using leniently extracted task plan from ${providerName}.`);
+            return tasks;
+        }
+    }
+    throw new Error(`${providerName} could not generate a valid task list. Please try a different model.`);
+};
@@ -0,0 +1,516 @@
+import { StoredFile, TaskOutput, ToolCallRecord } from '../types';
+import { ProviderOptions } from './llmProvider';
+import { ChatMessage } from './contextBudget';
+import { ChatCompletionMessage } from './streaming';
+import { RenderedPrompt, renderPrompt } from './promptTemplates';
+import { getModelInfo } from './modelCatalog';
+
+// A JSON Schema described tool, in the shape every provider's function-calling API accepts with minor renames.
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: { [name: string]: any };
+        required: string[];
+    };
+}
+
+// Model turns that may call tools; the turn after the last one has to answer.
+export const MAX_TOOL_ROUNDS = 5;
+const DEFAULT_MAX_RESULT_CHARS = 20000;
+const DEFAULT_ROW_LIMIT = 50;
+
+export const TASK_TOOLS: ToolDefinition[] = [
+    {
+        name: 'read_file',
+        description: 'Returns the text content of an uploaded file. Long files are returned in parts; pass `offset` to continue reading.',
+        parameters: {
+            type: 'object',
+            properties: {
+                name: { type: 'string', description: 'The file name, exactly as uploaded.' },
+                offset: { type: 'number', description: 'Character offset to start reading at. Defaults to 0.' },
+            },
+            required: ['name'],
+        },
+    },
+    {
+        name: 'calculate',
+        description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, the constants pi and e, and the functions abs, sqrt, cbrt, exp, ln, log10, log2, sin, cos, tan, floor, ceil, round(x, digits), min, max and pow.',
+        parameters: {
+            type: 'object',
+            properties: {
+                expression: { type: 'string', description: 'For example "(1250 * 1.19) / 12".' },
+            },
+            required: ['expression'],
+        },
+    },
+    {
+        name: 'query_spreadsheet',
+        description: 'Returns rows of an uploaded spreadsheet as CSV, optionally restricted to some columns and to rows whose cell in `filter_column` contains `filter_value`.',
+        parameters: {
+            type: 'object',
+            properties: {
+                file: { type: 'string', description: 'The spreadsheet file name.' },
+                sheet: { type: 'string', description: 'The sheet name. Defaults to the first sheet.' },
+                columns: { type: 'array', items: { type: 'string' }, description: 'Header names of the columns to return. Defaults to all columns.' },
+                filter_column: { type: 'string', description: 'Header name of the column to filter on.' },
+                filter_value: { type: 'string', description: 'Case-insensitive text the filtered cell must contain.' },
+                limit: { type: 'number', description: `Maximum number of rows. Defaults to ${DEFAULT_ROW_LIMIT}.` },
+            },
+            required: ['file'],
+        },
+    },
+    {
+        name: 'get_task_output',
+        description: 'Returns the full output of a previously completed task, looked up by its id or by part of its description.',
+        parameters: {
+            type: 'object',
+            properties: {
+                task: { type: 'string', description: 'The task id or a distinctive part of its description.' },
+            },
+            required: ['task'],
+        },
+    },
+];
+
+// #region Calculator
+const FUNCTIONS: { [name: string]: (...args: number[]) => number } = {
+    abs: Math.abs,
+    sqrt: Math.sqrt,
+    cbrt: Math.cbrt,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log,
+    log10: Math.log10,
+    log2: Math.log2,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    round: (x: number, digits: number = 0) => Math.round(x * 10 ** digits) / 10 ** digits,
+    min: Math.min,
+    max: Math.max,
+    pow: Math.pow,
+};
+const CONSTANTS: { [name: string]: number } = { pi: Math.PI, e: Math.E };
+const isOwn = (table: object, name: string) => Object.prototype.hasOwnProperty.call(table, name);
+
+const tokenize = (expression: string): string[] => {
+    const tokens = expression.match(/\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_]\w*|\*\*|[-+*/%^(),]|\S/gi) || [];
+    const invalid = tokens.find(token => !/^(\d|\.\d|[a-z_]|\*\*$|[-+*/%^(),]$)/i.test(token));
+    if (invalid) {
+        throw new Error(`Unexpected character "${invalid}".`);
+    }
+    return tokens;
+};
+
+/**
+ * Evaluates an arithmetic expression with a small recursive-descent parser, so model input is never `eval`ed.
+ * `^` and `**` are right-associative powers; a leading minus binds looser than a power (`-2^2` is -4).
+ */
+export const evaluateExpression = (expression: string): number => {
+    const tokens = tokenize(expression);
+    let position = 0;
+    const peek = () => tokens[position];
+    const expect = (token: string) => {
+        if (tokens[position] !== token) {
+            throw new Error(`Expected "${token}" but found ${tokens[position] ? `"${tokens[position]}"` : 'the end of the expression'}.`);
+        }
+        position++;
+    };
+
+    const parseSum = (): number => {
+        let value = parseProduct();
+        while (peek() === '+' || peek() === '-') {
+            const operator = tokens[position++];
+            const right = parseProduct();
+            value = operator === '+' ? value + right : value - right;
+        }
+        return value;
+    };
+    const parseProduct = (): number => {
+        let value = parseUnary();
+        while (peek() === '*' || peek() === '/' || peek() === '%') {
+            const operator = tokens[position++];
+            const right = parseUnary();
+            value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+        }
+        return value;
+    };
+    const parseUnary = (): number => {
+        if (peek() === '-') {
+            position++;
+            return -parseUnary();
+        }
+        if (peek() === '+') {
+            position++;
+            return parseUnary();
+        }
+        return parsePower();
+    };
+    const parsePower = (): number => {
+        const base = parseAtom();
+        if (peek() === '^' || peek() === '**') {
+            position++;
+            return base ** parseUnary();
+        }
+        return base;
+    };
+    const parseAtom = (): number => {
+        const token = tokens[position++];
+        if (token === undefined) {
+            throw new Error('Unexpected end of the expression.');
+        }
+        if (token === '(') {
+            const value = parseSum();
+            expect(')');
+            return value;
+        }
+        if (/^[\d.]/.test(token)) {
+            return Number(token);
+        }
+        const name = token.toLowerCase();
+        if (peek() === '(') {
+            const fn = isOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+            if (!fn) {
+                throw new Error(`Unknown function "${token}".`);
+            }
+            position++;
+            const args: number[] = [];
+            if (peek() !== ')') {
+                args.push(parseSum());
+                while (peek() === ',') {
+                    position++;
+                    args.push(parseSum());
+                }
+            }
+            expect(')');
+            return fn(...args);
+        }
+        if (isOwn(CONSTANTS, name)) {
+            return CONSTANTS[name];
+        }
+        throw new Error(`Unknown name "${token}".`);
+    };
+
+    const result = parseSum();
+    if (position < tokens.length) {
+        throw new Error(`Unexpected "${tokens[position]}".`);
+    }
+    return result;
+};
+// #endregion
+
+// #region Spreadsheets
+// Parses CSV as written by `XLSX.utils.sheet_to_csv`: quoted cells may contain commas, quotes ("") and newlines.
+const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim()));
+};
+
+const toCsvCell = (value: string): string => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Spreadsheets are stored as "Sheet: <name>" headings followed by CSV (see `storageService.parseFile`).
+const parseSheets = (content: string): { name: string; rows: string[][] }[] => {
+    const parts = content.split(/^Sheet: (.*)$/m);
+    if (parts.length === 1) {
+        return [{ name: 'Sheet1', rows: parseCsv(content) }];
+    }
+    const sheets: { name: string; rows: string[][] }[] = [];
+    for (let i = 1; i < parts.length; i += 2) {
+        sheets.push({ name: parts[i].trim(), rows: parseCsv(parts[i + 1] ?? '') });
+    }
+    return sheets;
+};
+// #endregion
+
+const describeTools = (tools: ToolDefinition[]): string =>
+    tools.map(tool => {
+        const parameters = Object.entries(tool.parameters.properties)
+            .map(([name, schema]) => `  - ${name}${tool.parameters.required.includes(name) ? '' : ' (optional)'}: ${schema.description}`)
+            .join('\n');
+        return `- ${tool.name}: ${tool.description}\n${parameters}`;
+    }).join('\n');
+
+/**
+ * Runs the tools a model calls during `executeTask`, against the run's uploaded files and the outputs of the
+ * tasks completed so far. Tools never throw: failures are returned to the model as an "Error: ..." result.
+ * Every call is kept in `calls` and reported through `onToolCall` as it completes.
+ */
+export class TaskToolbox {
+    public readonly calls: ToolCallRecord[] = [];
+    public readonly definitions: ToolDefinition[] = TASK_TOOLS;
+
+    /**
+     * @param maxResultChars Longer results are cut off, so a single call cannot exhaust the model's input budget.
+     */
+    constructor(
+        private files: StoredFile[],
+        private completedTasks: TaskOutput[],
+        private onToolCall?: (call: ToolCallRecord) => void,
+        private maxResultChars: number = DEFAULT_MAX_RESULT_CHARS
+    ) {}
+
+    /**
+     * Runs tool `name` with `args`, given either as an object or as the JSON string most APIs send.
+     * @returns The result text to send back to the model.
+     */
+    run(name: string, args: unknown): string {
+        let parsedArgs: { [name: string]: any } = {};
+        let result: string;
+        let isError = false;
+        try {
+            parsedArgs = typeof args === 'string' ? (args.trim() ? JSON.parse(args) : {}) : (args as { [name: string]: any }) ?? {};
+            result = this.execute(name, parsedArgs);
+        } catch (err: any) {
+            result = `Error: ${err?.message || String(err)}`;
+            isError = true;
+        }
+        if (result.length > this.maxResultChars) {
+            result = `${result.slice(0, this.maxResultChars)}\n[Truncated: ${result.length - this.maxResultChars} more characters.]`;
+        }
+        return this.record({ name, arguments: parsedArgs, result, ...(isError ? { isError } : {}) });
+    }
+
+    /**
+     * Records a call that could not be made at all, e.g. because the model's request was malformed.
+     * @returns The error text to send back to the model.
+     */
+    reject(name: string, message: string): string {
+        return this.record({ name, arguments: {}, result: `Error: ${message}`, isError: true });
+    }
+
+    private record(call: ToolCallRecord): string {
+        this.calls.push(call);
+        this.onToolCall?.(call);
+        return call.result;
+    }
+
+    private execute(name: string, args: { [name: string]: any }): string {
+        switch (name) {
+            case 'read_file': {
+                const file = this.findFile(args.name);
+                const offset = Math.max(0, Math.floor(Number(args.offset) || 0));
+                const text = file.content.slice(offset, offset + this.maxResultChars);
+                const remaining = file.content.length - offset - text.length;
+                return remaining > 0
+                    ? `${text}\n[${remaining} more characters; call read_file again with offset ${offset + text.length}.]`
+                    : text;
+            }
+            case 'calculate': {
+                if (typeof args.expression !== 'string' || !args.expression.trim()) {
+                    throw new Error('"expression" is required.');
+                }
+                const value = evaluateExpression(args.expression);
+                if (!isFinite(value)) {
+                    throw new Error(`The expression does not have a finite result (${value}).`);
+                }
+                return String(Number(value.toPrecision(15)));
+            }
+            case 'query_spreadsheet':
+                return this.querySpreadsheet(args);
+            case 'get_task_output': {
+                const query = String(args.task ?? '').trim().toLowerCase();
+                if (!query) {
+                    throw new Error('"task" is required.');
+                }
+                const task = this.completedTasks.find(t => t.taskId.toLowerCase() === query)
+                    ?? this.completedTasks.find(t => t.taskDescription.toLowerCase().includes(query));
+                if (!task) {
+                    const known = this.completedTasks.map(t => `${t.taskId} (${t.taskDescription})`).join('; ');
+                    throw new Error(`No completed task matches "${args.task}". Completed tasks: ${known || 'none'}.`);
+                }
+                return task.output;
+            }
+            default:
+                throw new Error(`Unknown tool "${name}". Available tools: ${this.definitions.map(t => t.name).join(', ')}.`);
+        }
+    }
+
+    private findFile(name: unknown): StoredFile {
+        const wanted = String(name ?? '').trim().toLowerCase();
+        const file = this.files.find(f => f.name.toLowerCase() === wanted);
+        if (!file) {
+            throw new Error(`No uploaded file is named "${name}". Uploaded files: ${this.files.map(f => f.name).join(', ') || 'none'}.`);
+        }
+        return file;
+    }
+
+    private querySpreadsheet(args: { [name: string]: any }): string {
+        const file = this.findFile(args.file);
+        const sheets = parseSheets(file.content);
+        const sheet = args.sheet
+            ? sheets.find(s => s.name.toLowerCase() === String(args.sheet).trim().toLowerCase())
+            : sheets[0];
+        if (!sheet) {
+            throw new Error(`"${file.name}" has no sheet named "${args.sheet}". Sheets: ${sheets.map(s => s.name).join(', ')}.`);
+        }
+        const [header = [], ...rows] = sheet.rows;
+        const columnIndex = (column: unknown): number => {
+            const index = header.findIndex(h => h.trim().toLowerCase() === String(column).trim().toLowerCase());
+            if (index === -1) {
+                throw new Error(`Sheet "${sheet.name}" has no column "${column}". Columns: ${header.join(', ')}.`);
+            }
+            return index;
+        };
+
+        let matching = rows;
+        if (args.filter_column !== undefined && args.filter_column !== '') {
+            const index = columnIndex(args.filter_column);
+            const needle = String(args.filter_value ?? '').toLowerCase();
+            matching = rows.filter(row => (row[index] ?? '').toLowerCase().includes(needle));
+        }
+        const selected = Array.isArray(args.columns) && args.columns.length > 0
+            ? args.columns.map(columnIndex)
+            : header.map((_, i) => i);
+        const limit = Math.max(1, Math.floor(Number(args.limit) || DEFAULT_ROW_LIMIT));
+        const lines = [header, ...matching.slice(0, limit)]
+            .map(row => selected.map(i => toCsvCell(row[i] ?? '')).join(','));
+        return `${lines.join('\n')}\n[${Math.min(limit, matching.length)} of ${matching.length} matching rows; the sheet has ${rows.length} rows.]`;
+    }
+}
+
+/**
+ * A toolbox for one `executeTask` call when `options.useTools` is set, otherwise `null`.
+ */
+export const createToolbox = (
+    files: StoredFile[],
+    completedTasks: TaskOutput[],
+    options: ProviderOptions,
+    maxResultChars?: number
+): TaskToolbox | null =>
+    options.useTools ? new TaskToolbox(files, completedTasks, options.onToolCall, maxResultChars) : null;
+
+// #region Native function calling
+/**
+ * Drives an OpenAI-compatible chat through tool calls: every reply that calls tools gets the results appended
+ * as `tool` messages and is sent again, until the model answers. Past `MAX_TOOL_ROUNDS`, `complete` is told
+ * not to offer tools any more.
+ * @param complete Sends `messages` and returns the assistant message; `allowTools` is false for the last turn.
+ * @returns The final assistant message.
+ */
+export const runOpenAIToolLoop = async (
+    complete: (messages: any[], allowTools: boolean) => Promise<ChatCompletionMessage>,
+    messages: ChatMessage[],
+    toolbox: TaskToolbox
+): Promise<ChatCompletionMessage> => {
+    let conversation: any[] = messages;
+    for (let round = 0; ; round++) {
+        const allowTools = round < MAX_TOOL_ROUNDS;
+        const reply = await complete(conversation, allowTools);
+        if (!allowTools || reply.toolCalls.length === 0) {
+            return reply;
+        }
+        conversation = [
+            ...conversation,
+            { role: 'assistant', content: reply.content || null, tool_calls: reply.toolCalls },
+            ...reply.toolCalls.map(call => ({
+                role: 'tool',
+                tool_call_id: call.id,
+                content: toolbox.run(call.function.name, call.function.arguments),
+            })),
+        ];
+    }
+};
+
+// Tool definitions in the `tools` format of OpenAI-compatible chat completions.
+export const toOpenAITools = (tools: ToolDefinition[]) =>
+    tools.map(tool => ({ type: 'function', function: tool }));
+// #endregion
+
+// #region Prompt-based tool calls
+const TOOL_CALL_PATTERN = /<tool_call>([\s\S]*?)<\/tool_call>/g;
+
+/**
+ * The tool protocol for models without native function calling, to be appended to the system prompt.
+ */
+export const renderToolInstructions = (toolbox: TaskToolbox): RenderedPrompt =>
+    renderPrompt('tool-calls', { tools: describeTools(toolbox.definitions) });
+
+/**
+ * Prompt-based instructions when `toolbox` is set but `model` is not known to support function calling,
+ * otherwise `null`: providers with a choice use their native API only for models the catalog vouches for.
+ */
+export const promptToolInstructionsFor = (provider: string, model: string, toolbox: TaskToolbox | null): RenderedPrompt | null =>
+    toolbox && !getModelInfo(provider, model)?.capabilities?.tools ? renderToolInstructions(toolbox) : null;
+
+// Appends the prompt-based tool protocol, if any, to a system prompt.
+export const withToolInstructions = (system: string, instructions: RenderedPrompt | null): string =>
+    instructions ? `${system}\n\n${instructions.system}` : system;
+
+// A call whose JSON cannot be parsed keeps its raw text in `invalid`, so the model can be told what went wrong.
+const parseToolCalls = (text: string): { name: string; arguments: unknown; invalid?: string }[] =>
+    [...text.matchAll(TOOL_CALL_PATTERN)].map(([, body]) => {
+        try {
+            const call = JSON.parse(body.trim());
+            return { name: String(call.name ?? ''), arguments: call.arguments ?? {} };
+        } catch (e) {
+            return { name: '', arguments: {}, invalid: body.trim() };
+        }
+    });
+
+/**
+ * Drives a plain text chat through `<tool_call>` blocks (see the `tool-calls` template). The system prompt in
+ * `messages` must already contain `renderToolInstructions`. Tool calls left in a reply after the last round
+ * are removed from the answer.
+ * @param call Sends `messages` and returns the reply text.
+ * @returns The text of the final answer.
+ */
+export const runPromptToolLoop = async (
+    call: (messages: ChatMessage[]) => Promise<string>,
+    messages: ChatMessage[],
+    toolbox: TaskToolbox
+): Promise<string> => {
+    let conversation = messages;
+    for (let round = 0; ; round++) {
+        const reply = await call(conversation);
+        const calls = parseToolCalls(reply);
+        if (calls.length === 0 || round >= MAX_TOOL_ROUNDS) {
+            return reply.replace(TOOL_CALL_PATTERN, '').trim();
+        }
+        const results = calls.map(({ name, arguments: args, invalid }) => {
+            const result = invalid === undefined
+                ? toolbox.run(name, args)
+                : toolbox.reject('(invalid)', `The tool call is not valid JSON: ${invalid}`);
+            return `<tool_result name="${invalid === undefined ? name : '(invalid)'}">\n${result}\n</tool_result>`;
+        }).join('\n');
+        const { prompt } = renderPrompt('tool-calls', { results, finalRound: round + 1 >= MAX_TOOL_ROUNDS ? 'yes' : '' });
+        conversation = [...conversation, { role: 'assistant', content: reply }, { role: 'user', content: prompt }];
+    }
+};
+// #endregion
@@ -0,0 +1,73 @@
+import { TaskVerification } from '../types';
+
+export const DEFAULT_VERIFICATION_THRESHOLD = 7;
+export const DEFAULT_MAX_VERIFICATION_RETRIES = 1;
+export const MAX_VERIFICATION_SCORE = 10;
+
+/**
+ * Passed as `options.verification` to have every task output checked by the verifier. An output that scores
+ * below `threshold` is produced again with the critique, up to `maxRetries` times.
+ */
+export interface VerificationSettings {
+    threshold: number;
+    maxRetries: number;
+}
+
+// The fields each special output type needs to be rendered, as checked by `renderOutput` in `OutputDisplay`.
+const SPECIAL_TYPE_FIELDS: { [type: string]: string[] } = {
+    CalendarEvent: ['summary', 'start', 'end'],
+    Map: ['latitude', 'longitude', 'label'],
+    Chart: ['title', 'svg'],
+    HtmlSnippet: ['html'],
+};
+
+const stripMarkdown = (text: string): string => text.replace(/```(?:json)?\n?([\s\S]*?)\n?```/, '$1').trim();
+
+/**
+ * Checks an output that is meant to be one of the special JSON types (calendar event, map, chart, HTML snippet).
+ * Other JSON, such as schema.org objects with an "@type" of their own, is left to the verifier's score.
+ * @returns The problems that would keep it from being rendered; empty for valid special types and for outputs
+ * that are not meant to be one.
+ */
+export const specialTypeIssues = (output: string): string[] => {
+    const text = stripMarkdown(output);
+    // Prose that merely mentions "@type" is not meant to be rendered as a special type.
+    const type = text.startsWith('{') ? text.match(/"@type"\s*:\s*"([^"]*)"/)?.[1] : undefined;
+    const fields = type && Object.prototype.hasOwnProperty.call(SPECIAL_TYPE_FIELDS, type) ? SPECIAL_TYPE_FIELDS[type] : undefined;
+    if (!fields) return [];
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        return ['The output looks like a special-type JSON object but is not valid JSON. Respond with only the JSON object, without any surrounding text or markdown.'];
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || parsed['@type'] !== type) return [];
+    const missing = fields.filter(field => parsed[field] === undefined || parsed[field] === null || parsed[field] === '');
+    return missing.length > 0
+        ? [`The ${type} object is missing ${missing.map(field => `"${field}"`).join(', ')}.`]
+        : [];
+};
+
+const clampScore = (score: number): number => Math.min(MAX_VERIFICATION_SCORE, Math.max(0, Math.round(score)));
+
+/**
+ * Parses the verifier's verdict: a `{"score", "critique"}` object, possibly in a code block or surrounded by
+ * prose, or failing that a plain "score: 7" line.
+ * @returns The verdict, or null if no score could be found.
+ */
+export const parseVerification = (text: string): TaskVerification | null => {
+    const objectText = text.match(/\{[\s\S]*\}/)?.[0];
+    if (objectText) {
+        try {
+            const parsed = JSON.parse(objectText);
+            const score = Number(parsed?.score);
+            if (!isNaN(score)) {
+                return { score: clampScore(score), critique: typeof parsed.critique === 'string' ? parsed.critique.trim() : '' };
+            }
+        } catch (e) {
+            // Fall through to the plain-text score.
+        }
+    }
+    const score = text.match(/score\W{0,3}(\d+(?:\.\d+)?)/i);
+    return score ? { score: clampScore(Number(score[1])), critique: text.trim() } : null;
+};
@@ -0,0 +1,79 @@
+import { RunUsage, UsageStage, UsageTotals } from '../types';
+import { TokenUsage } from './llmProvider';
+import { getModelInfo } from './modelCatalog';
+
+export interface UsageScope {
+    stage: UsageStage;
+    taskId?: string;
+    taskDescription?: string;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedCalls: 0 });
+
+const addUsage = (totals: UsageTotals, usage: TokenUsage, cost: number | undefined): void => {
+    totals.calls++;
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    if (cost === undefined) {
+        totals.unpricedCalls++;
+    } else {
+        totals.cost += cost;
+    }
+};
+
+/**
+ * Aggregates the `TokenUsage` reported by providers into a `RunUsage` for one run.
+ */
+export class UsageTracker {
+    private usage: RunUsage;
+
+    /**
+     * @param onChange Called with a fresh snapshot after every recorded call.
+     * @param initial Usage recorded earlier in the same run, e.g. before it was resumed.
+     */
+    constructor(private onChange?: (usage: RunUsage) => void, initial?: RunUsage) {
+        this.usage = initial ? JSON.parse(JSON.stringify(initial)) : {
+            total: emptyTotals(),
+            stages: { planning: emptyTotals(), execution: emptyTotals(), synthesis: emptyTotals() },
+            tasks: [],
+            models: [],
+        };
+    }
+
+    record(usage: TokenUsage, scope: UsageScope): void {
+        const pricing = getModelInfo(usage.provider, usage.model)?.pricing;
+        const cost = pricing
+            ? usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion
+            : undefined;
+
+        addUsage(this.usage.total, usage, cost);
+        addUsage(this.usage.stages[scope.stage], usage, cost);
+
+        if (scope.taskId) {
+            let task = this.usage.tasks.find(t => t.taskId === scope.taskId);
+            if (!task) {
+                task = { ...emptyTotals(), taskId: scope.taskId, taskDescription: scope.taskDescription ?? '' };
+                this.usage.tasks.push(task);
+            }
+            addUsage(task, usage, cost);
+        }
+
+        let model = this.usage.models.find(m => m.provider === usage.provider && m.model === usage.model);
+        if (!model) {
+            model = { ...emptyTotals(), provider: usage.provider, model: usage.model };
+            this.usage.models.push(model);
+        }
+        addUsage(model, usage, cost);
+
+        this.onChange?.(this.snapshot());
+    }
+
+    // Returns an `options.onUsage` handler that attributes calls to `scope`.
+    handlerFor(scope: UsageScope): (usage: TokenUsage) => void {
+        return (usage) => this.record(usage, scope);
+    }
+
+    snapshot(): RunUsage {
+        return JSON.parse(JSON.stringify(this.usage));
+    }
+}
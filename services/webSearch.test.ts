@@ -0,0 +1,103 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { JsonSearchBackend, MAX_SEARCH_RESULTS, SearxngSearchBackend, createSearchBackend, searchBackendConfigIssue, searchResultsContext } from './webSearch';
+
+// A local fake search server: records the requested URLs and answers each with the next queued reply.
+let server: Server;
+let baseUrl: string;
+let requestedUrls: string[] = [];
+let replies: ((res: ServerResponse) => void)[] = [];
+
+const json = (body: unknown, status = 200) => (res: ServerResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        requestedUrls.push(req.url ?? '');
+        const reply = replies.shift();
+        if (reply) reply(res);
+        else json({ error: 'No reply queued.' }, 400)(res);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+    requestedUrls = [];
+    replies = [];
+});
+
+describe('SearxngSearchBackend', () => {
+    it('queries /search in JSON format and reads its results', async () => {
+        replies.push(json({
+            results: [
+                { title: 'Tide tables', url: 'https://example.com/tides', content: 'High tide at 6am.' },
+                { title: 'Not a web page', url: 'ftp://example.com/file', content: 'Dropped.' },
+            ],
+        }));
+
+        const results = await new SearxngSearchBackend(`${baseUrl}/`).search('tides & currents', {});
+
+        expect(requestedUrls).toEqual(['/search?q=tides%20%26%20currents&format=json']);
+        expect(results).toEqual([{ title: 'Tide tables', url: 'https://example.com/tides', snippet: 'High tide at 6am.' }]);
+    });
+
+    it('fails with the status of an error response', async () => {
+        replies.push(json({ error: 'json format disabled' }, 403));
+
+        await expect(new SearxngSearchBackend(baseUrl).search('tides', {})).rejects.toThrow('Search backend error (403)');
+    });
+});
+
+describe('JsonSearchBackend', () => {
+    it('fills {query} into the URL template and reads other field names', async () => {
+        replies.push(json({
+            items: [{ name: 'Harbour guide', link: 'https://example.com/harbour', description: 'Moorings and fees.' }],
+        }));
+
+        const results = await new JsonSearchBackend(`${baseUrl}/find?term={query}&n=3`).search('moorings', {});
+
+        expect(requestedUrls).toEqual(['/find?term=moorings&n=3']);
+        expect(results).toEqual([{ title: 'Harbour guide', url: 'https://example.com/harbour', snippet: 'Moorings and fees.' }]);
+    });
+
+    it('appends q= without a template and keeps at most MAX_SEARCH_RESULTS results', async () => {
+        replies.push(json(Array.from({ length: MAX_SEARCH_RESULTS + 3 }, (_, i) => ({
+            title: `Result ${i + 1}`, url: `https://example.com/${i + 1}`, snippet: '',
+        }))));
+
+        const backend = createSearchBackend({ backend: 'json-search', baseUrl: `${baseUrl}/find?lang=en` });
+        const results = await backend!.search('boats', {});
+
+        expect(requestedUrls).toEqual(['/find?lang=en&q=boats']);
+        expect(results).toHaveLength(MAX_SEARCH_RESULTS);
+    });
+});
+
+describe('searchBackendConfigIssue', () => {
+    it('asks for an absolute http(s) URL where the backend needs a server', () => {
+        expect(searchBackendConfigIssue({ backend: 'json-search', baseUrl: '' })).toContain('needs a URL');
+        expect(searchBackendConfigIssue({ backend: 'json-search', baseUrl: '/search?q={query}' })).toContain('absolute');
+        expect(searchBackendConfigIssue({ backend: 'searxng', baseUrl: 'file:///etc' })).toContain('absolute');
+        expect(searchBackendConfigIssue({ backend: 'json-search', baseUrl: 'http://localhost:8787/search?q={query}' })).toBeNull();
+        expect(searchBackendConfigIssue({ backend: 'stub' })).toBeNull();
+    });
+});
+
+describe('searchResultsContext', () => {
+    it('numbers the results so that [n] refers to citations[n - 1]', () => {
+        const context = searchResultsContext('tides', [
+            { title: 'Tide tables', url: 'https://example.com/tides', snippet: 'High tide at 6am.' },
+            { title: 'Harbour guide', url: 'https://example.com/harbour', snippet: 'Moorings and fees.' },
+        ]);
+
+        expect(context!.citations.map(c => c.uri)).toEqual(['https://example.com/tides', 'https://example.com/harbour']);
+        expect(context!.file.content).toContain('[2]');
+        expect(searchResultsContext('tides', [])).toBeNull();
+    });
+});
@@ -0,0 +1,229 @@
+import React from 'react';
+import { Citation, StoredFile } from '../types';
+import { ProviderOptions, httpOptionsFor } from './llmProvider';
+import { HttpLimits, configureHttpLimits, fetchWithRetry } from './httpClient';
+import { renderPrompt } from './promptTemplates';
+
+export interface SearchResult {
+    title: string;
+    url: string;
+    snippet: string;
+}
+
+/**
+ * Retrieves web results for a query. Backends give search to providers without native grounding, and
+ * replace native search when one is selected, so the search toggle works the same for every provider.
+ */
+export interface SearchBackend {
+    search(query: string, options: ProviderOptions, isCancelledRef?: React.RefObject<boolean>): Promise<SearchResult[]>;
+}
+
+export interface SearchBackendConfig {
+    // A registered backend id, or `NATIVE_SEARCH` for the provider's own search.
+    backend: string;
+    baseUrl?: string;
+}
+
+export interface SearchBackendDefinition {
+    id: string;
+    name: string;
+    // Whether the backend talks to a user-configurable server.
+    baseUrl: 'required' | 'none';
+    defaultBaseUrl?: string;
+    baseUrlPlaceholder?: string;
+    // Concurrency and retry settings for the backend's requests, keyed by the backend id.
+    http?: HttpLimits;
+    create: (config: SearchBackendConfig) => SearchBackend;
+}
+
+export const NATIVE_SEARCH = 'native';
+// Results put into the context of one task.
+export const MAX_SEARCH_RESULTS = 5;
+const MAX_SNIPPET_CHARS = 500;
+
+const backends = new Map<string, SearchBackendDefinition>();
+
+/**
+ * Registers a search backend so it shows up in the search backend selector.
+ * Registering an id twice replaces the earlier definition.
+ */
+export const registerSearchBackend = (definition: SearchBackendDefinition): void => {
+    backends.set(definition.id, definition);
+    if (definition.http) {
+        configureHttpLimits(definition.id, definition.http);
+    }
+};
+
+export const listSearchBackends = (): SearchBackendDefinition[] => Array.from(backends.values());
+
+export const getSearchBackendDefinition = (id: string): SearchBackendDefinition | undefined => backends.get(id);
+
+/**
+ * @returns The configured backend, or null when the provider's native search is selected.
+ */
+export const createSearchBackend = (config: SearchBackendConfig): SearchBackend | null => {
+    if (config.backend === NATIVE_SEARCH) return null;
+    const definition = backends.get(config.backend);
+    if (!definition) {
+        throw new Error(`Unsupported search backend: ${config.backend}`);
+    }
+    return definition.create(config);
+};
+
+/**
+ * @returns Why `config` cannot be searched with, or null if it can: a backend that talks to a server needs the
+ * absolute http(s) URL of one.
+ */
+export const searchBackendConfigIssue = (config: SearchBackendConfig): string | null => {
+    const definition = backends.get(config.backend);
+    if (definition?.baseUrl !== 'required') return null;
+    // `{query}` is not a valid URL character, so it is filled in before the URL is checked.
+    const url = (config.baseUrl ?? '').trim().replace(/\{query\}/g, 'test');
+    if (!url) return `${definition.name} needs a URL.`;
+    try {
+        const { protocol } = new URL(url);
+        if (protocol === 'http:' || protocol === 'https:') return null;
+    } catch (e) {
+        // Relative or malformed; reported below.
+    }
+    return `${definition.name} needs an absolute http(s) URL, e.g. ${definition.defaultBaseUrl ?? 'http://localhost:8787/search'}.`;
+};
+
+const STORAGE_KEY = 'search_backend';
+
+export const loadSearchBackendConfig = (): SearchBackendConfig => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        const config = stored ? JSON.parse(stored) : null;
+        // A backend that is no longer registered falls back to native search.
+        return config && (config.backend === NATIVE_SEARCH || backends.has(config.backend)) ? config : { backend: NATIVE_SEARCH };
+    } catch (error) {
+        console.error("Failed to load the search backend settings:", error);
+        return { backend: NATIVE_SEARCH };
+    }
+};
+
+export const saveSearchBackendConfig = (config: SearchBackendConfig): void => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+};
+
+const truncateSnippet = (snippet: string): string =>
+    snippet.length > MAX_SNIPPET_CHARS ? `${snippet.slice(0, MAX_SNIPPET_CHARS)}...` : snippet;
+
+// Reads a result list whatever its field names: `title`/`name`, `url`/`link`/`href`, `snippet`/`content`/`description`/`body`.
+const toSearchResults = (items: any[]): SearchResult[] =>
+    items
+        .map(item => ({
+            title: String(item?.title ?? item?.name ?? ''),
+            url: String(item?.url ?? item?.link ?? item?.href ?? ''),
+            snippet: truncateSnippet(String(item?.snippet ?? item?.content ?? item?.description ?? item?.body ?? '')),
+        }))
+        .filter(result => /^https?:\/\//.test(result.url))
+        .slice(0, MAX_SEARCH_RESULTS);
+
+const fetchSearchJson = async (
+    backendId: string,
+    url: string,
+    options: ProviderOptions,
+    isCancelledRef?: React.RefObject<boolean>
+): Promise<any> => {
+    const response = await fetchWithRetry(url, { headers: { 'Accept': 'application/json' } }, httpOptionsFor(backendId, options, isCancelledRef));
+    if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`Search (${backendId}) Error:`, errorBody);
+        throw new Error(`Search backend error (${response.status}): ${response.statusText}`);
+    }
+    return response.json();
+};
+
+/**
+ * A SearXNG instance. Its `search.formats` setting has to include `json`.
+ */
+export class SearxngSearchBackend implements SearchBackend {
+    constructor(private baseUrl: string) {}
+
+    async search(query: string, options: ProviderOptions, isCancelledRef?: React.RefObject<boolean>): Promise<SearchResult[]> {
+        const url = `${this.baseUrl.replace(/\/+$/, '')}/search?q=${encodeURIComponent(query)}&format=json`;
+        const data = await fetchSearchJson('searxng', url, options, isCancelledRef);
+        return toSearchResults(data?.results ?? []);
+    }
+}
+
+/**
+ * Any endpoint answering a GET with JSON results, such as a small proxy in front of a search API or a local
+ * fake server for tests. `{query}` in the URL is replaced by the query; without it, `q=<query>` is appended.
+ * The response is an array of results or an object with a `results`, `items` or `data` array.
+ */
+export class JsonSearchBackend implements SearchBackend {
+    constructor(private urlTemplate: string) {}
+
+    async search(query: string, options: ProviderOptions, isCancelledRef?: React.RefObject<boolean>): Promise<SearchResult[]> {
+        const encoded = encodeURIComponent(query);
+        const url = this.urlTemplate.includes('{query}')
+            ? this.urlTemplate.replace(/\{query\}/g, encoded)
+            : `${this.urlTemplate}${this.urlTemplate.includes('?') ? '&' : '?'}q=${encoded}`;
+        const data = await fetchSearchJson('json-search', url, options, isCancelledRef);
+        const items = Array.isArray(data) ? data : data?.results ?? data?.items ?? data?.data ?? [];
+        return toSearchResults(Array.isArray(items) ? items : []);
+    }
+}
+
+/**
+ * Answers every query with placeholder results and makes no requests, for trying search offline.
+ */
+export class StubSearchBackend implements SearchBackend {
+    async search(query: string): Promise<SearchResult[]> {
+        return [1, 2].map(n => ({
+            title: `Stub result ${n} for "${query}"`,
+            url: `https://example.com/search/${n}?q=${encodeURIComponent(query)}`,
+            snippet: 'Placeholder text from the stub search backend; no web search was made.',
+        }));
+    }
+}
+
+registerSearchBackend({
+    id: 'searxng',
+    name: 'SearXNG',
+    baseUrl: 'required',
+    defaultBaseUrl: 'http://localhost:8888',
+    baseUrlPlaceholder: 'e.g., http://localhost:8888',
+    http: { maxConcurrent: 2 },
+    create: ({ baseUrl }) => new SearxngSearchBackend(baseUrl || 'http://localhost:8888'),
+});
+
+registerSearchBackend({
+    id: 'json-search',
+    name: 'JSON search endpoint',
+    baseUrl: 'required',
+    baseUrlPlaceholder: 'e.g., http://localhost:8787/search?q={query}',
+    http: { maxConcurrent: 2 },
+    create: ({ baseUrl }) => new JsonSearchBackend(baseUrl || ''),
+});
+
+registerSearchBackend({
+    id: 'stub',
+    name: 'Stub (offline placeholder results)',
+    baseUrl: 'none',
+    create: () => new StubSearchBackend(),
+});
+
+/**
+ * Renders search results as a context file for a task, numbered so that `[n]` markers in the task's output
+ * refer to `citations[n - 1]`.
+ * @returns Null when there are no results.
+ */
+export const searchResultsContext = (
+    query: string,
+    results: SearchResult[]
+): { file: StoredFile; citations: Citation[]; refs: string[] } | null => {
+    if (results.length === 0) return null;
+    const rendered = renderPrompt('search-results', {
+        query,
+        results: results.map((result, i) => `[${i + 1}] ${result.title || result.url}\n${result.url}\n${result.snippet}`.trim()).join('\n\n'),
+    });
+    return {
+        file: { name: 'Web search results', content: rendered.prompt },
+        citations: results.map(result => ({ uri: result.url, title: result.title || new URL(result.url).hostname })),
+        refs: rendered.refs,
+    };
+};
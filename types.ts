@@ -5,12 +5,26 @@ export enum TaskStatus {
   IN_PROGRESS = 'IN_PROGRESS',
   COMPLETED = 'COMPLETED',
   FAILED = 'FAILED',
+  // Stopped by the user before it finished; its partial output is discarded.
+  CANCELLED = 'CANCELLED',
+  // Not run because a task it depends on failed.
+  BLOCKED = 'BLOCKED',
+  // Completed, but a task it depends on was re-run since, so its output is out of date.
+  STALE = 'STALE',
 }
 
 export interface Task {
   id: string;
   description: string;
   status: TaskStatus;
+  // Ids of the tasks whose outputs this task needs. It runs once they have completed and only sees their outputs.
+  dependsOn?: string[];
+  // Extra instructions given when the task was re-run.
+  instructions?: string;
+  // Marked by the planner as too large for one step; such a task is split into sub-tasks when it runs.
+  complex?: boolean;
+  // The task this one is a sub-task of. Sub-tasks only depend on their siblings.
+  parentId?: string;
 }
 
 export interface StoredFile {
@@ -23,11 +37,64 @@ export interface Citation {
   title: string;
 }
 
+// A provider + model pair, e.g. one entry of a fallback chain.
+export interface ModelRoute {
+  provider: string;
+  model: string;
+}
+
+// One tool invocation made by the model while executing a task.
+export interface ToolCallRecord {
+  name: string;
+  arguments: { [name: string]: any };
+  result: string;
+  // The tool failed or was called incorrectly; `result` holds the error message sent back to the model.
+  isError?: boolean;
+}
+
 export interface TaskOutput {
   taskId: string;
   taskDescription: string;
   output: string;
   citations: Citation[];
+  // The provider and model that actually produced this output, which may be a fallback.
+  producedBy?: ModelRoute;
+  // `id@version` of every prompt template used, e.g. "execution@1".
+  promptTemplates?: string[];
+  // In the order they were made.
+  toolCalls?: ToolCallRecord[];
+  // The verifier's verdicts, one per attempt at the task; the last one is on this output.
+  verifications?: TaskVerification[];
+}
+
+// The verifier's verdict on one output of a task.
+export interface TaskVerification {
+  // From 0 (unusable) to 10 (nothing to improve).
+  score: number;
+  critique: string;
+}
+
+// One LLM call made during a run, as shown in the run trace. Calls are listed in the order they ended.
+export interface LLMCallTrace {
+  stage: UsageStage;
+  // The task the call was made for; unset for planning and synthesis.
+  taskId?: string;
+  taskDescription?: string;
+  provider: string;
+  model: string;
+  // For calls of a chunked step, the 0-based document and context chunk they processed. The parts of a synthesis
+  // that had to be split count as document chunks.
+  chunk?: { doc: number; aux: number };
+  // The request body as sent. Headers, and with them API keys, are left out.
+  prompt: string;
+  // The raw response body, event streams included; unset when the call failed before a response arrived.
+  response?: string;
+  // In ms since the epoch.
+  startedAt: number;
+  // Until the whole response had arrived, retries included.
+  latencyMs: number;
+  retries: { reason: string; delayMs: number }[];
+  error?: string;
 }
 
 // Data for CalendarEvent module
@@ -81,4 +148,39 @@ export interface ChatHistoryItem {
   id: number;
   goal: string;
   result: string;
+  // Missing for entries saved before usage was tracked.
+  usage?: RunUsage;
+  // Missing for entries saved before runs were traced. Long prompts and responses are truncated when saved.
+  trace?: LLMCallTrace[];
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  // In USD, summed over the calls with known pricing.
+  cost: number;
+  // Calls to models without pricing information; their cost is not included.
+  unpricedCalls: number;
+}
+
+export type UsageStage = 'planning' | 'execution' | 'synthesis';
+
+// Stages that can run on their own model. `scoring` ranks chunks when a chunking provider trims its input.
+export type RoutingStage = UsageStage | 'scoring';
+
+// Per-stage model overrides; stages without an entry run on the main provider and model.
+export type StageRouting = { [stage in RoutingStage]?: ModelRoute };
+
+export interface RoutingPreset {
+  name: string;
+  routing: StageRouting;
+}
+
+// Token usage and cost of a run, broken down by stage, task and model.
+export interface RunUsage {
+  total: UsageTotals;
+  stages: { [stage in UsageStage]: UsageTotals };
+  tasks: (UsageTotals & { taskId: string; taskDescription: string })[];
+  models: (UsageTotals & ModelRoute)[];
 }
\ No newline at end of file